@@ -0,0 +1,97 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { PrismaClient } from '@prisma/client';
+import { PrismaComponentRepository } from '@/lib/infrastructure/repositories/PrismaComponentRepository';
+import { PrismaGenerationFeedbackRepository } from '@/lib/infrastructure/repositories/PrismaGenerationFeedbackRepository';
+import { LLMProviderRegistry } from '@/lib/infrastructure/llm/LLMProviderRegistry';
+import { IntentClassifier } from '@/lib/core/intent/IntentClassifier';
+import {
+  INTENT_EVALUATION_CORPUS,
+  LabeledPrompt,
+} from '@/lib/core/intent/corpus';
+import {
+  evaluateIntentAccuracy,
+  llmIntentClassifier,
+} from '@/lib/core/intent/evaluation';
+import { HttpStatus } from '@/types/api';
+import { getAdminUser } from '@/lib/auth-utils';
+
+const prisma = new PrismaClient();
+const componentRepository = new PrismaComponentRepository(prisma);
+const feedbackRepository = new PrismaGenerationFeedbackRepository(prisma);
+
+const SOURCES = ['library', 'lexicon', 'llm'] as const;
+const CORPORA = ['builtin', 'feedback', 'all'] as const;
+
+// GET /api/admin/intent - Intent mapping accuracy on the labeled corpus
+//
+// `?source=lexicon` evaluates the keyword lexicons alone and `?source=llm`
+// the provider's analyzePrompt; by default the classifier is also trained
+// on the saved component library. `?corpus=feedback` scores against the
+// types users named when rating a generation as the wrong component type,
+// `?corpus=all` against both that and the built-in corpus.
+export async function GET(request: NextRequest) {
+  const admin = await getAdminUser(request);
+  if (!admin) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 'FORBIDDEN',
+          message: 'Admin access required',
+        },
+        timestamp: new Date().toISOString(),
+      },
+      { status: HttpStatus.FORBIDDEN }
+    );
+  }
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const source =
+      SOURCES.find(value => value === searchParams.get('source')) ?? 'library';
+    const corpusName =
+      CORPORA.find(value => value === searchParams.get('corpus')) ?? 'builtin';
+
+    const corpus: LabeledPrompt[] =
+      corpusName === 'feedback' ? [] : [...INTENT_EVALUATION_CORPUS];
+    if (corpusName !== 'builtin') {
+      const labels = await feedbackRepository.findWrongTypeLabels();
+      corpus.push(
+        ...labels.map(label => ({
+          prompt: label.prompt,
+          expected: label.expected,
+        }))
+      );
+    }
+
+    // Fresh classifier so the report reflects the library as it is now
+    const classifier =
+      source === 'llm'
+        ? llmIntentClassifier(
+            LLMProviderRegistry.fromEnvironment(process.env, { prisma })
+          )
+        : new IntentClassifier(
+            source === 'library' ? componentRepository : undefined
+          );
+    const report = await evaluateIntentAccuracy(classifier, corpus);
+
+    return NextResponse.json({
+      success: true,
+      data: { source, corpus: corpusName, ...report },
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Error in admin intent API:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Failed to evaluate intent accuracy',
+        },
+        timestamp: new Date().toISOString(),
+      },
+      { status: HttpStatus.INTERNAL_SERVER_ERROR }
+    );
+  }
+}
@@ -0,0 +1,112 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { PrismaClient } from '@prisma/client';
+import { GenerationJob } from '@/lib/domain/entities/GenerationJob';
+import { PrismaGenerationJobRepository } from '@/lib/infrastructure/repositories/PrismaGenerationJobRepository';
+import { HttpStatus } from '@/types/api';
+import { getAdminUser } from '@/lib/auth-utils';
+
+const prisma = new PrismaClient();
+const jobRepository = new PrismaGenerationJobRepository(prisma);
+
+// Everything recorded about a job, grouped by what it explains
+function toAuditTrail(job: GenerationJob) {
+  return {
+    id: job.id,
+    userId: job.userId,
+    batchId: job.batchId,
+    rerunOf: job.getMetadata('rerunOf'),
+    request: job.request,
+    timing: {
+      createdAt: job.createdAt.toISOString(),
+      startedAt: job.startedAt?.toISOString() ?? null,
+      completedAt: job.completedAt?.toISOString() ?? null,
+      durationMs: job.getDuration(),
+      retryCount: job.retryCount,
+    },
+    promptVersions: job.getMetadata('promptVersions'),
+    screening: job.getMetadata('screening'),
+    intent: {
+      source: job.getMetadata('intentSource'),
+      candidates: job.result?.candidates,
+    },
+    fewShotExampleIds: job.getMetadata('fewShotExampleIds'),
+    llm: {
+      selection: job.request.llm,
+      failover: job.getMetadata('failover'),
+      cacheHit: job.getMetadata('cacheHit'),
+      tokenUsage: job.getMetadata('tokenUsage'),
+      // Raw prompt and response of every call, in order
+      exchanges: job.llmExchanges,
+    },
+    schemaAttempts: job.getMetadata('schemaAttempts'),
+    // Outcome plus the diagnostics and repair of each round
+    validation: job.getMetadata('validation'),
+    stages: job.getMetadata('stages'),
+    progress: job.getProgressEvents(),
+    outcome: {
+      status: job.status,
+      componentId: job.componentId,
+      error: job.error?.message,
+      lastError: job.getMetadata('lastError'),
+      result: job.result,
+    },
+    metadata: job.metadata,
+  };
+}
+
+// GET /api/admin/jobs/{jobId} - Full audit trail of a generation job
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { jobId: string } }
+) {
+  const admin = await getAdminUser(request);
+  if (!admin) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 'FORBIDDEN',
+          message: 'Admin access required',
+        },
+        timestamp: new Date().toISOString(),
+      },
+      { status: HttpStatus.FORBIDDEN }
+    );
+  }
+
+  try {
+    const job = await jobRepository.findById(params.jobId);
+    if (!job) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'NOT_FOUND',
+            message: 'Job not found',
+          },
+          timestamp: new Date().toISOString(),
+        },
+        { status: HttpStatus.NOT_FOUND }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: toAuditTrail(job),
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Error in admin job audit API:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Failed to load generation job',
+        },
+        timestamp: new Date().toISOString(),
+      },
+      { status: HttpStatus.INTERNAL_SERVER_ERROR }
+    );
+  }
+}
@@ -0,0 +1,115 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { PrismaClient } from '@prisma/client';
+import { PrismaGenerationJobRepository } from '@/lib/infrastructure/repositories/PrismaGenerationJobRepository';
+import { API, HttpStatus } from '@/types/api';
+import { GenerationStatus } from '@/types';
+import { getAdminUser } from '@/lib/auth-utils';
+
+const prisma = new PrismaClient();
+const jobRepository = new PrismaGenerationJobRepository(prisma);
+
+const STATUSES = Object.values(GenerationStatus) as string[];
+
+// GET /api/admin/jobs - Generation jobs of all users, newest first, for
+// finding bad generations; /api/admin/jobs/{jobId} has the full audit trail
+export async function GET(request: NextRequest) {
+  const admin = await getAdminUser(request);
+  if (!admin) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 'FORBIDDEN',
+          message: 'Admin access required',
+        },
+        timestamp: new Date().toISOString(),
+      },
+      { status: HttpStatus.FORBIDDEN }
+    );
+  }
+
+  try {
+    const validationResult = API.AdminJobListRequest.safeParse(
+      Object.fromEntries(request.nextUrl.searchParams)
+    );
+    const statuses = validationResult.data?.status?.split(',');
+    if (
+      !validationResult.success ||
+      statuses?.some(status => !STATUSES.includes(status))
+    ) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid query parameters',
+            details: validationResult.success
+              ? `status must be one of ${STATUSES.join(', ')}`
+              : validationResult.error.errors,
+          },
+          timestamp: new Date().toISOString(),
+        },
+        { status: HttpStatus.BAD_REQUEST }
+      );
+    }
+
+    const { page, limit, type, search, from, to, userId, promptVersion } =
+      validationResult.data;
+    const { jobs, total } = await jobRepository.findAll({
+      limit,
+      offset: (page - 1) * limit,
+      statuses: statuses as GenerationStatus[] | undefined,
+      componentType: type,
+      search,
+      createdAfter: from,
+      createdBefore: to,
+      userId,
+      promptVersion,
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        items: jobs.map(job => ({
+          id: job.id,
+          userId: job.userId,
+          prompt: job.request.prompt,
+          status: job.status,
+          type:
+            job.result?.component?.componentType ?? job.request.preferredType,
+          promptVersions: job.getMetadata('promptVersions'),
+          llm: job.request.llm,
+          retryCount: job.retryCount,
+          validationOutcome: job.getMetadata('validation')?.outcome,
+          tokenUsage: job.getMetadata('tokenUsage'),
+          durationMs: job.getDuration() ?? null,
+          createdAt: job.createdAt.toISOString(),
+          error: job.error?.message,
+          componentId: job.componentId,
+        })),
+        meta: {
+          page,
+          limit,
+          total,
+          totalPages: Math.ceil(total / limit),
+          hasNextPage: page * limit < total,
+          hasPrevPage: page > 1,
+        },
+      },
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Error in admin jobs API:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Failed to list generation jobs',
+        },
+        timestamp: new Date().toISOString(),
+      },
+      { status: HttpStatus.INTERNAL_SERVER_ERROR }
+    );
+  }
+}
@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { PrismaClient } from '@prisma/client';
+import { PrismaGenerationJobRepository } from '@/lib/infrastructure/repositories/PrismaGenerationJobRepository';
+import { API, HttpStatus } from '@/types/api';
+import { getAdminUser } from '@/lib/auth-utils';
+
+const prisma = new PrismaClient();
+const jobRepository = new PrismaGenerationJobRepository(prisma);
+
+const DEFAULT_RANGE_DAYS = 30;
+
+// GET /api/admin/metrics - Generation quality aggregates over a date range,
+// overall and per day, prompt version and model
+export async function GET(request: NextRequest) {
+  const admin = await getAdminUser(request);
+  if (!admin) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 'FORBIDDEN',
+          message: 'Admin access required',
+        },
+        timestamp: new Date().toISOString(),
+      },
+      { status: HttpStatus.FORBIDDEN }
+    );
+  }
+
+  const validationResult = API.GenerationMetricsRequest.safeParse(
+    Object.fromEntries(request.nextUrl.searchParams)
+  );
+  if (!validationResult.success) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid query parameters',
+          details: validationResult.error.errors,
+        },
+        timestamp: new Date().toISOString(),
+      },
+      { status: HttpStatus.BAD_REQUEST }
+    );
+  }
+
+  try {
+    const to = validationResult.data.to ?? new Date();
+    const from =
+      validationResult.data.from ??
+      new Date(to.getTime() - DEFAULT_RANGE_DAYS * 24 * 60 * 60 * 1000);
+
+    const metrics = await jobRepository.getJobMetrics(from, to);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        from: from.toISOString(),
+        to: to.toISOString(),
+        metrics,
+      },
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Error in admin metrics API:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Failed to compute generation metrics',
+        },
+        timestamp: new Date().toISOString(),
+      },
+      { status: HttpStatus.INTERNAL_SERVER_ERROR }
+    );
+  }
+}
@@ -0,0 +1,199 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { PrismaClient } from '@prisma/client';
+import { z } from 'zod';
+import { PrismaGenerationJobRepository } from '@/lib/infrastructure/repositories/PrismaGenerationJobRepository';
+import { PrismaPromptSplitRepository } from '@/lib/infrastructure/repositories/PrismaPromptSplitRepository';
+import { defaultPromptTemplates } from '@/lib/core/prompts/templates';
+import { API, HttpStatus } from '@/types/api';
+import { getAdminUser } from '@/lib/auth-utils';
+
+const prisma = new PrismaClient();
+const jobRepository = new PrismaGenerationJobRepository(prisma);
+const splitRepository = new PrismaPromptSplitRepository(prisma);
+
+const SplitRequest = z.object({
+  templateName: z.string().min(1),
+  // Relative weight per version; an empty object resets to the default version
+  weights: z.record(z.number().min(0)),
+});
+
+function forbidden() {
+  return NextResponse.json(
+    {
+      success: false,
+      error: {
+        code: 'FORBIDDEN',
+        message: 'Admin access required',
+      },
+      timestamp: new Date().toISOString(),
+    },
+    { status: HttpStatus.FORBIDDEN }
+  );
+}
+
+// GET /api/admin/prompts - Prompt templates, traffic splits and per-version outcomes
+export async function GET(request: NextRequest) {
+  const admin = await getAdminUser(request);
+  if (!admin) {
+    return forbidden();
+  }
+
+  const validationResult = API.PromptVersionStatsRequest.safeParse(
+    Object.fromEntries(request.nextUrl.searchParams)
+  );
+  if (!validationResult.success) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid query parameters',
+          details: validationResult.error.errors,
+        },
+        timestamp: new Date().toISOString(),
+      },
+      { status: HttpStatus.BAD_REQUEST }
+    );
+  }
+
+  try {
+    const { from, to } = validationResult.data;
+
+    const [splits, stats] = await Promise.all([
+      splitRepository.findAll(),
+      jobRepository.getPromptVersionStats(from, to),
+    ]);
+
+    const templates = defaultPromptTemplates.getTemplateNames().map(name => ({
+      name,
+      defaultVersion: defaultPromptTemplates.getDefaultVersion(name),
+      versions: defaultPromptTemplates.getVersions(name).map(version => ({
+        version,
+        description: defaultPromptTemplates.get(name, version).description,
+      })),
+      split: splits.find(split => split.templateName === name) || null,
+    }));
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        templates,
+        // Outcomes are grouped by the generation template version
+        generationVersionStats: stats,
+      },
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Error in admin prompts API:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Failed to load prompt templates',
+        },
+        timestamp: new Date().toISOString(),
+      },
+      { status: HttpStatus.INTERNAL_SERVER_ERROR }
+    );
+  }
+}
+
+// PUT /api/admin/prompts - Split traffic between versions of a template
+export async function PUT(request: NextRequest) {
+  const admin: any = await getAdminUser(request);
+  if (!admin) {
+    return forbidden();
+  }
+
+  try {
+    const body = await request.json();
+    const validationResult = SplitRequest.safeParse(body);
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid request data',
+            details: validationResult.error.errors,
+          },
+          timestamp: new Date().toISOString(),
+        },
+        { status: HttpStatus.BAD_REQUEST }
+      );
+    }
+
+    const { templateName, weights } = validationResult.data;
+    const knownVersions = defaultPromptTemplates.getVersions(templateName);
+    const unknownVersions = Object.keys(weights).filter(
+      version => !knownVersions.includes(version)
+    );
+
+    if (knownVersions.length === 0 || unknownVersions.length > 0) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message:
+              knownVersions.length === 0
+                ? `Unknown prompt template "${templateName}"`
+                : `Unknown versions for "${templateName}": ${unknownVersions.join(', ')}`,
+            details: { availableVersions: knownVersions },
+          },
+          timestamp: new Date().toISOString(),
+        },
+        { status: HttpStatus.BAD_REQUEST }
+      );
+    }
+
+    if (Object.values(weights).every(weight => weight === 0)) {
+      await splitRepository.delete(templateName);
+      console.log(`Prompt split for ${templateName} reset by ${admin.id}`);
+
+      return NextResponse.json({
+        success: true,
+        data: { templateName, split: null },
+        timestamp: new Date().toISOString(),
+      });
+    }
+
+    const split = await splitRepository.save(templateName, weights, admin.id);
+    console.log(`Prompt split for ${templateName} updated by ${admin.id}`);
+
+    return NextResponse.json({
+      success: true,
+      data: { templateName, split },
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    if (error instanceof SyntaxError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid request data',
+            details: error.message,
+          },
+          timestamp: new Date().toISOString(),
+        },
+        { status: HttpStatus.BAD_REQUEST }
+      );
+    }
+
+    console.error('Error updating prompt split:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Failed to update prompt split',
+        },
+        timestamp: new Date().toISOString(),
+      },
+      { status: HttpStatus.INTERNAL_SERVER_ERROR }
+    );
+  }
+}
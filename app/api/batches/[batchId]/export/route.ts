@@ -0,0 +1,120 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { PrismaClient } from '@prisma/client';
+import { generationServiceFromEnvironment } from '@/lib/infrastructure/generation/generationServiceFromEnvironment';
+import { ComponentApplicationService } from '@/lib/application/services/ComponentApplicationService';
+import { BatchGenerationService } from '@/lib/domain/services/BatchGenerationService';
+import { PrismaGenerationBatchRepository } from '@/lib/infrastructure/repositories/PrismaGenerationBatchRepository';
+import { ApiError, HttpStatus } from '@/types/api';
+import { ExportOptions } from '@/types';
+import { getAuthUser } from '@/lib/auth-utils';
+
+const prisma = new PrismaClient();
+const { componentRepository, jobRepository, generationService } =
+  generationServiceFromEnvironment(prisma);
+
+const batchService = new BatchGenerationService(
+  new PrismaGenerationBatchRepository(prisma),
+  jobRepository,
+  generationService
+);
+
+const applicationService = new ComponentApplicationService(
+  componentRepository,
+  generationService
+);
+
+const EXPORT_FORMATS: ExportOptions['format'][] = ['tsx', 'ts', 'js'];
+
+const errorResponse = (code: string, message: string, status: number) =>
+  NextResponse.json(
+    {
+      success: false,
+      error: { code, message },
+      timestamp: new Date().toISOString(),
+    },
+    { status }
+  );
+
+/**
+ * Downloads every component the batch generated successfully as one file.
+ * Only available once all of its jobs have finished. Query parameters:
+ * format (tsx, ts or js), comments and examples (default true).
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { batchId: string } }
+) {
+  try {
+    const user: any = await getAuthUser(request);
+    if (!user) {
+      return errorResponse(
+        'UNAUTHORIZED',
+        'Authentication required',
+        HttpStatus.UNAUTHORIZED
+      );
+    }
+
+    const report = await batchService.getReport(params.batchId);
+    if (!report || (report.userId && report.userId !== user.id)) {
+      return errorResponse(
+        'NOT_FOUND',
+        'Batch not found',
+        HttpStatus.NOT_FOUND
+      );
+    }
+
+    if (!report.finished) {
+      return errorResponse(
+        'CONFLICT',
+        `Batch is still running (${report.progress}% done)`,
+        HttpStatus.CONFLICT
+      );
+    }
+
+    const searchParams = request.nextUrl.searchParams;
+    const format = (searchParams.get('format') ||
+      'tsx') as ExportOptions['format'];
+    if (!EXPORT_FORMATS.includes(format)) {
+      return errorResponse(
+        'VALIDATION_ERROR',
+        `format must be one of ${EXPORT_FORMATS.join(', ')}`,
+        HttpStatus.BAD_REQUEST
+      );
+    }
+
+    const componentIds = report.items
+      .map(item => item.componentId)
+      .filter((id): id is string => Boolean(id));
+
+    const exported = await applicationService.exportMultipleComponents(
+      componentIds,
+      {
+        format,
+        includeTypes: format !== 'js',
+        includeComments: searchParams.get('comments') !== 'false',
+        includeExamples: searchParams.get('examples') !== 'false',
+        bundleImports: false,
+        minify: false,
+      }
+    );
+
+    return new NextResponse(exported.content, {
+      headers: {
+        'Content-Type': exported.mimeType,
+        'Content-Disposition': `attachment; filename="${exported.filename}"`,
+      },
+    });
+  } catch (error) {
+    // Nothing in the batch succeeded (or its components were deleted)
+    if (error instanceof ApiError) {
+      return errorResponse(error.code, error.message, error.statusCode);
+    }
+
+    console.error('Error exporting batch:', error);
+    return errorResponse(
+      'INTERNAL_ERROR',
+      'Failed to export batch',
+      HttpStatus.INTERNAL_SERVER_ERROR
+    );
+  }
+}
@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { PrismaClient } from '@prisma/client';
+import { generationServiceFromEnvironment } from '@/lib/infrastructure/generation/generationServiceFromEnvironment';
+import { BatchGenerationService } from '@/lib/domain/services/BatchGenerationService';
+import { PrismaGenerationBatchRepository } from '@/lib/infrastructure/repositories/PrismaGenerationBatchRepository';
+import { HttpStatus } from '@/types/api';
+import { getAuthUser } from '@/lib/auth-utils';
+
+const prisma = new PrismaClient();
+const { jobRepository, generationService } =
+  generationServiceFromEnvironment(prisma);
+
+const batchService = new BatchGenerationService(
+  new PrismaGenerationBatchRepository(prisma),
+  jobRepository,
+  generationService
+);
+
+const errorResponse = (code: string, message: string, status: number) =>
+  NextResponse.json(
+    {
+      success: false,
+      error: { code, message },
+      timestamp: new Date().toISOString(),
+    },
+    { status }
+  );
+
+// Aggregate progress and per-component outcome of a batch
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { batchId: string } }
+) {
+  try {
+    const user: any = await getAuthUser(request);
+    if (!user) {
+      return errorResponse(
+        'UNAUTHORIZED',
+        'Authentication required',
+        HttpStatus.UNAUTHORIZED
+      );
+    }
+
+    const report = await batchService.getReport(params.batchId);
+    if (!report || (report.userId && report.userId !== user.id)) {
+      return errorResponse(
+        'NOT_FOUND',
+        'Batch not found',
+        HttpStatus.NOT_FOUND
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: { batch: report },
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Error in batch status API:', error);
+    return errorResponse(
+      'INTERNAL_ERROR',
+      'Failed to get batch status',
+      HttpStatus.INTERNAL_SERVER_ERROR
+    );
+  }
+}
@@ -0,0 +1,104 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { PrismaClient } from '@prisma/client';
+import { generationServiceFromEnvironment } from '@/lib/infrastructure/generation/generationServiceFromEnvironment';
+import { BatchGenerationService } from '@/lib/domain/services/BatchGenerationService';
+import { queueModeFromEnvironment } from '@/lib/domain/services/ComponentGenerationService';
+import { PrismaGenerationBatchRepository } from '@/lib/infrastructure/repositories/PrismaGenerationBatchRepository';
+import {
+  BatchSpecError,
+  batchSpecFormat,
+  parseBatchSpec,
+} from '@/lib/core/batch/BatchSpecParser';
+import { HttpStatus } from '@/types/api';
+import { getAuthUser } from '@/lib/auth-utils';
+
+// Initialize dependencies
+const prisma = new PrismaClient();
+const { jobRepository, llmProvider, generationService } =
+  generationServiceFromEnvironment(prisma);
+const queueMode = queueModeFromEnvironment();
+
+const batchService = new BatchGenerationService(
+  new PrismaGenerationBatchRepository(prisma),
+  jobRepository,
+  generationService,
+  queueMode
+);
+
+const errorResponse = (
+  code: string,
+  message: string,
+  status: number,
+  details?: unknown
+) =>
+  NextResponse.json(
+    {
+      success: false,
+      error: { code, message, details },
+      timestamp: new Date().toISOString(),
+    },
+    { status }
+  );
+
+/**
+ * Submits a batch spec (JSON, or YAML with a yaml Content-Type) and starts
+ * a generation job per component. Responds with the batch report; poll
+ * GET /api/batches/{id} for progress.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const user: any = await getAuthUser(request);
+    if (!user) {
+      return errorResponse(
+        'UNAUTHORIZED',
+        'Authentication required',
+        HttpStatus.UNAUTHORIZED
+      );
+    }
+
+    const spec = parseBatchSpec(
+      await request.text(),
+      batchSpecFormat(request.headers.get('content-type'))
+    );
+
+    // Reject unknown providers/models up front instead of failing every job
+    try {
+      llmProvider.resolve(spec.llm);
+    } catch (error) {
+      return errorResponse(
+        'VALIDATION_ERROR',
+        error instanceof Error ? error.message : 'Invalid LLM selection',
+        HttpStatus.BAD_REQUEST,
+        { availableProviders: llmProvider.getProviderNames() }
+      );
+    }
+
+    const report = await batchService.submitBatch(spec, user.id);
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: { batch: report },
+        timestamp: new Date().toISOString(),
+      },
+      { status: HttpStatus.CREATED }
+    );
+  } catch (error) {
+    if (error instanceof BatchSpecError) {
+      return errorResponse(
+        'VALIDATION_ERROR',
+        error.message,
+        HttpStatus.BAD_REQUEST,
+        error.issues
+      );
+    }
+
+    console.error('Batch API error:', error);
+    return errorResponse(
+      'INTERNAL_ERROR',
+      'Failed to submit batch',
+      HttpStatus.INTERNAL_SERVER_ERROR,
+      error instanceof Error ? error.message : 'Unknown error'
+    );
+  }
+}
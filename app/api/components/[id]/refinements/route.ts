@@ -0,0 +1,215 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { PrismaClient } from '@prisma/client';
+import {
+  LLMGenerationError,
+  PromptRejectedError,
+  repairRoundsFromEnvironment,
+} from '@/lib/domain/services/ComponentGenerationService';
+import { ComponentRefinementService } from '@/lib/domain/services/ComponentRefinementService';
+import { RefinementConflictError } from '@/lib/domain/repositories/IRefinementTurnRepository';
+import {
+  TokenBudgetExceededError,
+  TokenBudgetService,
+} from '@/lib/domain/services/TokenBudgetService';
+import { PrismaComponentRepository } from '@/lib/infrastructure/repositories/PrismaComponentRepository';
+import { PrismaRefinementTurnRepository } from '@/lib/infrastructure/repositories/PrismaRefinementTurnRepository';
+import { PrismaTokenUsageRepository } from '@/lib/infrastructure/repositories/PrismaTokenUsageRepository';
+import { LLMProviderRegistry } from '@/lib/infrastructure/llm/LLMProviderRegistry';
+import { CodeValidator } from '@/lib/infrastructure/validation/CodeValidator';
+import { PromptScreener } from '@/lib/core/screening/PromptScreener';
+import { API, HttpStatus } from '@/types/api';
+import { getAuthUser } from '@/lib/auth-utils';
+
+const prisma = new PrismaClient();
+const componentRepository = new PrismaComponentRepository(prisma);
+
+const refinementService = new ComponentRefinementService(
+  new PrismaRefinementTurnRepository(prisma),
+  LLMProviderRegistry.fromEnvironment(process.env, { prisma }),
+  TokenBudgetService.fromEnvironment(new PrismaTokenUsageRepository(prisma)),
+  PromptScreener.fromEnvironment(),
+  new CodeValidator(),
+  repairRoundsFromEnvironment()
+);
+
+function errorResponse(
+  code: string,
+  message: string,
+  status: number,
+  details?: unknown
+) {
+  return NextResponse.json(
+    {
+      success: false,
+      error: { code, message, details },
+      timestamp: new Date().toISOString(),
+    },
+    { status }
+  );
+}
+
+// Only the owner may read or extend a component's refinement thread
+async function loadOwnedComponent(request: NextRequest, componentId: string) {
+  const user: any = await getAuthUser(request);
+  if (!user) {
+    return {
+      error: errorResponse(
+        'UNAUTHORIZED',
+        'Authentication required',
+        HttpStatus.UNAUTHORIZED
+      ),
+    };
+  }
+
+  const component = await componentRepository.findById(componentId);
+  if (!component) {
+    return {
+      error: errorResponse(
+        'NOT_FOUND',
+        'Component not found',
+        HttpStatus.NOT_FOUND
+      ),
+    };
+  }
+
+  if (!component.isOwnedBy(user.id)) {
+    return {
+      error: errorResponse(
+        'FORBIDDEN',
+        'Only the owner can refine this component',
+        HttpStatus.FORBIDDEN
+      ),
+    };
+  }
+
+  return { user, component };
+}
+
+// GET /api/components/[id]/refinements - The component's refinement thread, oldest turn first
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { error } = await loadOwnedComponent(request, params.id);
+    if (error) return error;
+
+    const turns = await refinementService.getThread(params.id);
+
+    return NextResponse.json({
+      success: true,
+      data: { turns },
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Get refinements error:', error);
+    return errorResponse(
+      'INTERNAL_ERROR',
+      'Failed to load refinement thread',
+      HttpStatus.INTERNAL_SERVER_ERROR
+    );
+  }
+}
+
+// POST /api/components/[id]/refinements - Apply a follow-up instruction to the component
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { user, component, error } = await loadOwnedComponent(
+      request,
+      params.id
+    );
+    if (error) return error;
+
+    const body = await request.json();
+    const validationResult = API.RefineRequest.safeParse(body);
+    if (!validationResult.success) {
+      return errorResponse(
+        'VALIDATION_ERROR',
+        'Invalid request data',
+        HttpStatus.BAD_REQUEST,
+        validationResult.error.errors
+      );
+    }
+
+    const { instruction, bypassCache } = validationResult.data;
+    const result = await refinementService.refine(
+      component,
+      instruction,
+      user.id,
+      { bypassCache }
+    );
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: {
+          turn: result.turn,
+          component: {
+            id: result.component.id,
+            name: result.component.name,
+            type: result.component.type,
+            code: result.component.code,
+            previewContent: (result.component as any).previewContent,
+            propsSchema: result.component.propsSchema,
+            version: result.component.version,
+          },
+        },
+        timestamp: new Date().toISOString(),
+      },
+      { status: HttpStatus.CREATED }
+    );
+  } catch (error) {
+    if (error instanceof SyntaxError) {
+      return errorResponse(
+        'VALIDATION_ERROR',
+        'Invalid request data',
+        HttpStatus.BAD_REQUEST,
+        error.message
+      );
+    }
+
+    console.error('Refine component error:', error);
+
+    if (error instanceof PromptRejectedError) {
+      return errorResponse(
+        'PROMPT_REJECTED',
+        error.message,
+        HttpStatus.UNPROCESSABLE_ENTITY,
+        { findings: error.decision.findings }
+      );
+    }
+
+    if (error instanceof TokenBudgetExceededError) {
+      return errorResponse(
+        'RATE_LIMIT_EXCEEDED',
+        error.message,
+        HttpStatus.TOO_MANY_REQUESTS,
+        error.budget
+      );
+    }
+
+    if (error instanceof RefinementConflictError) {
+      return errorResponse('CONFLICT', error.message, HttpStatus.CONFLICT);
+    }
+
+    if (error instanceof LLMGenerationError) {
+      return errorResponse(
+        'LLM_ERROR',
+        error.message,
+        error.type === 'rate_limit'
+          ? HttpStatus.TOO_MANY_REQUESTS
+          : HttpStatus.BAD_GATEWAY,
+        { type: error.type }
+      );
+    }
+
+    return errorResponse(
+      'INTERNAL_ERROR',
+      'Failed to refine component',
+      HttpStatus.INTERNAL_SERVER_ERROR
+    );
+  }
+}
@@ -1,16 +1,17 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { API, HttpStatus } from '@/types/api';
 import { ComponentApplicationService } from '@/lib/application/services/ComponentApplicationService';
-import { PrismaComponentRepository } from '@/lib/infrastructure/repositories/PrismaComponentRepository';
-import { PrismaGenerationJobRepository } from '@/lib/infrastructure/repositories/PrismaGenerationJobRepository';
-import { ComponentGenerationService } from '@/lib/domain/services/ComponentGenerationService';
-import { GeminiProvider } from '@/lib/infrastructure/llm/GeminiProvider';
-import { CodeValidator } from '@/lib/infrastructure/validation/CodeValidator';
-import { TemplateEngine } from '@/lib/core/templates/TemplateEngine';
 import { PrismaClient } from '@prisma/client';
-import { IGenerationJobRepository } from '@/lib/domain/repositories/IGenerationJobRepository';
+import { generationServiceFromEnvironment } from '@/lib/infrastructure/generation/generationServiceFromEnvironment';
 
 const prisma = new PrismaClient();
+const { componentRepository, generationService } =
+  generationServiceFromEnvironment(prisma);
+
+const applicationService = new ComponentApplicationService(
+  componentRepository,
+  generationService
+);
 
 export async function GET(
   request: NextRequest,
@@ -30,31 +31,6 @@ export async function GET(
       );
     }
 
-    // Initialize services
-    const componentRepository = new PrismaComponentRepository(prisma);
-    const jobRepository = new PrismaGenerationJobRepository(
-      prisma
-    ) as unknown as IGenerationJobRepository;
-    const llmProvider = new GeminiProvider(
-      process.env.GEMINI_API_KEY!,
-      process.env.GEMINI_MODEL || 'gemini-1.5-flash'
-    );
-    const codeValidator = new CodeValidator();
-    const templateEngine = new TemplateEngine();
-
-    const generationService = new ComponentGenerationService(
-      componentRepository,
-      jobRepository,
-      llmProvider,
-      codeValidator,
-      templateEngine
-    );
-
-    const applicationService = new ComponentApplicationService(
-      componentRepository,
-      generationService
-    );
-
     // Get the component
     const component = await applicationService.getComponentById(componentId);
 
@@ -3,7 +3,11 @@ import { PrismaClient } from '@prisma/client';
 import { ComponentApplicationService } from '@/lib/application/services/ComponentApplicationService';
 import { PrismaComponentRepository } from '@/lib/infrastructure/repositories/PrismaComponentRepository';
 import { API, HttpStatus } from '@/types/api';
-import { ComponentSearchOptions, ComponentType } from '@/types';
+import {
+  COMPONENT_METRIC_NAMES,
+  ComponentSearchOptions,
+  ComponentType,
+} from '@/types';
 import { getAuthUser } from '@/lib/auth-utils';
 
 const prisma = new PrismaClient();
@@ -13,6 +17,15 @@ const applicationService = new ComponentApplicationService(
   {} as any // Generation service placeholder
 );
 
+const SORT_FIELDS: string[] = [
+  'name',
+  'createdAt',
+  'updatedAt',
+  'usageCount',
+  ...COMPONENT_METRIC_NAMES,
+];
+const COMPLEXITY_LEVELS = ['simple', 'medium', 'complex'];
+
 // GET /api/components - List components with search and pagination
 export async function GET(request: NextRequest) {
   try {
@@ -34,6 +47,44 @@ export async function GET(request: NextRequest) {
 
     const searchParams = request.nextUrl.searchParams;
 
+    // ?minHookCount=1&maxCyclomaticComplexity=10 etc.
+    const metricRanges: NonNullable<ComponentSearchOptions['metricRanges']> =
+      {};
+    for (const metric of COMPONENT_METRIC_NAMES) {
+      const suffix = metric[0].toUpperCase() + metric.slice(1);
+      const [min, max] = [`min${suffix}`, `max${suffix}`].map(param =>
+        searchParams.has(param) ? Number(searchParams.get(param)) : undefined
+      );
+      if (min !== undefined || max !== undefined) {
+        metricRanges[metric] = { min, max };
+      }
+    }
+
+    const complexity = searchParams.get('complexity')?.split(',');
+    const sortBy = searchParams.get('sortBy') || 'createdAt';
+    if (
+      !SORT_FIELDS.includes(sortBy) ||
+      complexity?.some(level => !COMPLEXITY_LEVELS.includes(level)) ||
+      Object.values(metricRanges).some(range =>
+        [range.min, range.max].some(
+          bound => bound !== undefined && !Number.isInteger(bound)
+        )
+      )
+    ) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid query parameters',
+            details: `sortBy must be one of ${SORT_FIELDS.join(', ')}; complexity one of ${COMPLEXITY_LEVELS.join(', ')}; metric bounds integers`,
+          },
+          timestamp: new Date().toISOString(),
+        },
+        { status: HttpStatus.BAD_REQUEST }
+      );
+    }
+
     const searchOptions = {
       query: searchParams.get('search') || undefined,
       types: searchParams.get('type')
@@ -42,7 +93,9 @@ export async function GET(request: NextRequest) {
       tags: searchParams.get('tags')?.split(',') || undefined,
       limit: parseInt(searchParams.get('limit') || '20'),
       offset: parseInt(searchParams.get('offset') || '0'),
-      sortBy: searchParams.get('sortBy') || 'createdAt',
+      complexity,
+      metricRanges,
+      sortBy,
       sortOrder: (searchParams.get('sortOrder') as 'asc' | 'desc') || 'desc',
     };
 
@@ -63,6 +116,8 @@ export async function GET(request: NextRequest) {
         description: component.description,
         tags: component.tags,
         usageCount: component.usageCount,
+        complexity: component.metadata?.complexity,
+        metrics: component.metadata?.metrics,
         createdAt: component.createdAt.toISOString(),
         updatedAt: component.updatedAt.toISOString(),
       })),
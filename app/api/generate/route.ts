@@ -1,40 +1,18 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { PrismaClient } from '@prisma/client';
+import { generationServiceFromEnvironment } from '@/lib/infrastructure/generation/generationServiceFromEnvironment';
 import { ComponentApplicationService } from '@/lib/application/services/ComponentApplicationService';
-import { ComponentGenerationService } from '@/lib/domain/services/ComponentGenerationService';
-import { PrismaComponentRepository } from '@/lib/infrastructure/repositories/PrismaComponentRepository';
-import { PrismaGenerationJobRepository } from '@/lib/infrastructure/repositories/PrismaGenerationJobRepository';
-import { GeminiProvider } from '@/lib/infrastructure/llm/GeminiProvider';
-import { CodeValidator } from '@/lib/infrastructure/validation/CodeValidator';
-import { TemplateEngine } from '@/lib/core/templates/TemplateEngine';
-import { API, HttpStatus } from '@/types/api';
+import { API, ApiError, ApiErrorCode, HttpStatus } from '@/types/api';
 import { GenerationRequest } from '@/types';
 import { getAuthUser } from '@/lib/auth-utils';
 
+// Longest Idempotency-Key accepted
+const MAX_IDEMPOTENCY_KEY_LENGTH = 255;
+
 // Initialize dependencies
 const prisma = new PrismaClient();
-const componentRepository = new PrismaComponentRepository(prisma);
-const jobRepository = new PrismaGenerationJobRepository(prisma);
-
-// Check for required environment variables
-if (!process.env.GEMINI_API_KEY) {
-  console.error('GEMINI_API_KEY is not set in environment variables');
-}
-
-const llmProvider = new GeminiProvider(
-  process.env.GEMINI_API_KEY || 'dummy-key',
-  process.env.GEMINI_MODEL || 'gemini-2.5-flash'
-);
-const codeValidator = new CodeValidator();
-const templateEngine = new TemplateEngine();
-
-const generationService = new ComponentGenerationService(
-  componentRepository,
-  jobRepository,
-  llmProvider,
-  codeValidator,
-  templateEngine
-);
+const { componentRepository, llmProvider, generationService } =
+  generationServiceFromEnvironment(prisma);
 
 const applicationService = new ComponentApplicationService(
   componentRepository,
@@ -65,6 +43,23 @@ export async function POST(request: NextRequest) {
       request.headers.get('x-real-ip') ||
       'unknown';
 
+    // Repeats with the same key return the original job (per user)
+    const idempotencyKey =
+      request.headers.get('idempotency-key')?.trim() || undefined;
+    if (idempotencyKey && idempotencyKey.length > MAX_IDEMPOTENCY_KEY_LENGTH) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: `Idempotency-Key must be at most ${MAX_IDEMPOTENCY_KEY_LENGTH} characters`,
+          },
+          timestamp: new Date().toISOString(),
+        },
+        { status: HttpStatus.BAD_REQUEST }
+      );
+    }
+
     // Parse request body
     const body = await request.json();
 
@@ -85,7 +80,15 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const { prompt, preferredType, options } = validationResult.data;
+    const {
+      prompt,
+      preferredType,
+      provider,
+      model,
+      bypassCache,
+      candidateCount,
+      options,
+    } = validationResult.data;
 
     // Convert to internal GenerationRequest format
     const generationRequest: GenerationRequest = {
@@ -102,13 +105,40 @@ export async function POST(request: NextRequest) {
         includeComments: true,
         maxComplexity: 'medium',
         allowCustomComponents: false,
+        candidateCount,
       },
+      llm: provider || model ? { provider, model } : undefined,
     };
 
+    // Reject unknown providers/models up front instead of failing the job later
+    try {
+      llmProvider.resolve(generationRequest.llm);
+    } catch (error) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message:
+              error instanceof Error ? error.message : 'Invalid LLM selection',
+            details: { availableProviders: llmProvider.getProviderNames() },
+          },
+          timestamp: new Date().toISOString(),
+        },
+        { status: HttpStatus.BAD_REQUEST }
+      );
+    }
+
     // Generate component with user context
     const result = await applicationService.generateComponent(
       generationRequest,
-      user.id
+      user.id,
+      {
+        bypassCache:
+          bypassCache ||
+          request.headers.get('cache-control')?.includes('no-cache'),
+        idempotencyKey,
+      }
     );
 
     // Return response
@@ -140,15 +170,34 @@ export async function POST(request: NextRequest) {
   } catch (error) {
     console.error('Generation API error:', error);
 
-    // Check if it's an API key issue
-    if (!process.env.GEMINI_API_KEY) {
+    if (
+      error instanceof ApiError &&
+      error.code === ApiErrorCode.PROMPT_REJECTED
+    ) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: error.code,
+            message: error.message,
+            details: error.details,
+          },
+          timestamp: new Date().toISOString(),
+        },
+        { status: HttpStatus.UNPROCESSABLE_ENTITY }
+      );
+    }
+
+    // Check if no LLM backend is configured at all
+    if (llmProvider.getProviderNames().length === 0) {
       return NextResponse.json(
         {
           success: false,
           error: {
             code: 'CONFIGURATION_ERROR',
-            message: 'API key not configured',
-            details: 'GEMINI_API_KEY environment variable is missing',
+            message: 'LLM provider not configured',
+            details:
+              'Set GEMINI_API_KEY, OPENAI_BASE_URL or OLLAMA_BASE_URL in the environment',
           },
           timestamp: new Date().toISOString(),
         },
@@ -0,0 +1,236 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { PrismaClient } from '@prisma/client';
+import { generationServiceFromEnvironment } from '@/lib/infrastructure/generation/generationServiceFromEnvironment';
+import { ComponentApplicationService } from '@/lib/application/services/ComponentApplicationService';
+import { PromptRejectedError } from '@/lib/domain/services/ComponentGenerationService';
+import { API, HttpStatus } from '@/types/api';
+import { GenerationRequest, GenerationStatus } from '@/types';
+import { getAuthUser } from '@/lib/auth-utils';
+
+// Initialize dependencies
+const prisma = new PrismaClient();
+const { componentRepository, llmProvider, generationService } =
+  generationServiceFromEnvironment(prisma);
+
+const applicationService = new ComponentApplicationService(
+  componentRepository,
+  generationService
+);
+
+// POST /api/generate/stream - Generate a component, streaming code as Server-Sent Events
+//
+// Events: `job` ({ jobId }), `progress` (a GenerationProgressEvent per
+// pipeline step), `chunk` ({ code }), `reset` ({}) when streamed code is
+// superseded by a failover or a repair round, then one of `complete`
+// ({ job, component, variants? }), `cancelled` ({ job }) or `error`
+// ({ job?, message, code?, findings? }; findings with PROMPT_REJECTED). With
+// several variants requested, only the first one's code is streamed. Closing
+// the connection cancels the job.
+export async function POST(request: NextRequest) {
+  const user: any = await getAuthUser(request);
+  if (!user) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 'UNAUTHORIZED',
+          message: 'Authentication required',
+        },
+        timestamp: new Date().toISOString(),
+      },
+      { status: HttpStatus.UNAUTHORIZED }
+    );
+  }
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch (error) {
+    if (!(error instanceof SyntaxError)) throw error;
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid request data',
+          details: error.message,
+        },
+        timestamp: new Date().toISOString(),
+      },
+      { status: HttpStatus.BAD_REQUEST }
+    );
+  }
+
+  const validationResult = API.GenerateRequest.safeParse(body);
+  if (!validationResult.success) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid request data',
+          details: validationResult.error.errors,
+        },
+        timestamp: new Date().toISOString(),
+      },
+      { status: HttpStatus.BAD_REQUEST }
+    );
+  }
+
+  const {
+    prompt,
+    preferredType,
+    provider,
+    model,
+    bypassCache,
+    candidateCount,
+    options,
+  } = validationResult.data;
+
+  const generationRequest: GenerationRequest = {
+    prompt,
+    preferredType: preferredType as any,
+    context: {
+      theme: options?.theme || 'light',
+      accessibility: options?.accessibility ?? true,
+      responsive: true,
+      typescript: options?.typescript ?? true,
+    },
+    options: {
+      includeExamples: true,
+      includeComments: true,
+      maxComplexity: 'medium',
+      allowCustomComponents: false,
+      candidateCount,
+    },
+    llm: provider || model ? { provider, model } : undefined,
+  };
+
+  try {
+    llmProvider.resolve(generationRequest.llm);
+  } catch (error) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message:
+            error instanceof Error ? error.message : 'Invalid LLM selection',
+          details: { availableProviders: llmProvider.getProviderNames() },
+        },
+        timestamp: new Date().toISOString(),
+      },
+      { status: HttpStatus.BAD_REQUEST }
+    );
+  }
+
+  const encoder = new TextEncoder();
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      // Nothing can be sent once the client has gone
+      const send = (event: string, data: unknown) => {
+        if (request.signal.aborted) return;
+        controller.enqueue(
+          encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`)
+        );
+      };
+
+      try {
+        const job = await applicationService.generateComponentStream(
+          generationRequest,
+          user.id,
+          {
+            onJobCreated: jobId => send('job', { jobId }),
+            onProgress: event => send('progress', event),
+            onChunk: chunk => {
+              if (chunk.reset) {
+                send('reset', {});
+              }
+              if (chunk.code) {
+                send('chunk', { code: chunk.code });
+              }
+            },
+            bypassCache:
+              bypassCache ||
+              request.headers.get('cache-control')?.includes('no-cache'),
+            // A client disconnect cancels the job
+            signal: request.signal,
+          }
+        );
+
+        const jobSummary = {
+          id: job.id,
+          status: job.status,
+          componentId: job.componentId,
+          startedAt: job.startedAt,
+          completedAt: job.completedAt,
+          error: job.error ? { message: job.error.message } : undefined,
+        };
+
+        if (job.isSuccessful() && job.componentId) {
+          const component = await applicationService.getComponentById(
+            job.componentId
+          );
+
+          send('complete', {
+            job: jobSummary,
+            component: component
+              ? {
+                  id: component.id,
+                  name: component.name,
+                  type: component.type,
+                  code: component.code,
+                  previewContent: (component as any).previewContent,
+                  propsSchema: component.propsSchema,
+                  description: component.description,
+                  examples: component.examples,
+                  createdAt: component.createdAt,
+                }
+              : null,
+            variants: job.result?.variants,
+          });
+        } else if (job.status === GenerationStatus.CANCELLED) {
+          send('cancelled', { job: jobSummary });
+        } else {
+          send('error', {
+            job: jobSummary,
+            message: job.error?.message || 'Component generation failed',
+          });
+        }
+      } catch (error) {
+        console.error('Streaming generation error:', error);
+
+        if (error instanceof PromptRejectedError) {
+          send('error', {
+            job: { id: error.jobId, status: 'FAILED' },
+            code: 'PROMPT_REJECTED',
+            message: error.message,
+            findings: error.decision.findings,
+          });
+          return;
+        }
+
+        send('error', {
+          message:
+            error instanceof Error
+              ? error.message
+              : 'Failed to generate component',
+        });
+      } finally {
+        if (!request.signal.aborted) {
+          controller.close();
+        }
+      }
+    },
+  });
+
+  return new Response(stream, {
+    status: HttpStatus.OK,
+    headers: {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+    },
+  });
+}
@@ -0,0 +1,140 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { PrismaClient } from '@prisma/client';
+import {
+  GenerationFeedbackService,
+  JobNotRateableError,
+} from '@/lib/domain/services/GenerationFeedbackService';
+import { PrismaComponentRepository } from '@/lib/infrastructure/repositories/PrismaComponentRepository';
+import { PrismaGenerationFeedbackRepository } from '@/lib/infrastructure/repositories/PrismaGenerationFeedbackRepository';
+import { PrismaGenerationJobRepository } from '@/lib/infrastructure/repositories/PrismaGenerationJobRepository';
+import { API, HttpStatus } from '@/types/api';
+import { getAuthUser } from '@/lib/auth-utils';
+
+const prisma = new PrismaClient();
+const jobRepository = new PrismaGenerationJobRepository(prisma);
+const feedbackRepository = new PrismaGenerationFeedbackRepository(prisma);
+const feedbackService = new GenerationFeedbackService(
+  feedbackRepository,
+  new PrismaComponentRepository(prisma)
+);
+
+const errorResponse = (
+  code: string,
+  message: string,
+  status: number,
+  details?: unknown
+) =>
+  NextResponse.json(
+    {
+      success: false,
+      error: { code, message, details },
+      timestamp: new Date().toISOString(),
+    },
+    { status }
+  );
+
+// GET /api/jobs/{jobId}/feedback - The caller's rating of the job, if any
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { jobId: string } }
+) {
+  try {
+    const user: any = await getAuthUser(request);
+    if (!user) {
+      return errorResponse(
+        'UNAUTHORIZED',
+        'Authentication required',
+        HttpStatus.UNAUTHORIZED
+      );
+    }
+
+    const feedback = await feedbackRepository.findByJobAndUser(
+      params.jobId,
+      user.id
+    );
+
+    return NextResponse.json({
+      success: true,
+      data: { feedback },
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Error loading feedback:', error);
+    return errorResponse(
+      'INTERNAL_ERROR',
+      'Failed to load feedback',
+      HttpStatus.INTERNAL_SERVER_ERROR
+    );
+  }
+}
+
+// POST /api/jobs/{jobId}/feedback - Rate the component a job generated;
+// rating again replaces the earlier rating
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { jobId: string } }
+) {
+  try {
+    const user: any = await getAuthUser(request);
+    if (!user) {
+      return errorResponse(
+        'UNAUTHORIZED',
+        'Authentication required',
+        HttpStatus.UNAUTHORIZED
+      );
+    }
+
+    const job = await jobRepository.findById(params.jobId);
+    if (!job || (job.userId && job.userId !== user.id)) {
+      return errorResponse('NOT_FOUND', 'Job not found', HttpStatus.NOT_FOUND);
+    }
+
+    const validationResult = API.GenerationFeedbackRequest.safeParse(
+      await request.json()
+    );
+    if (!validationResult.success) {
+      return errorResponse(
+        'VALIDATION_ERROR',
+        'Invalid request data',
+        HttpStatus.BAD_REQUEST,
+        validationResult.error.errors
+      );
+    }
+
+    const feedback = await feedbackService.submitFeedback(
+      job,
+      user.id,
+      validationResult.data
+    );
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: { feedback },
+        timestamp: new Date().toISOString(),
+      },
+      { status: HttpStatus.CREATED }
+    );
+  } catch (error) {
+    if (error instanceof SyntaxError) {
+      return errorResponse(
+        'VALIDATION_ERROR',
+        'Invalid request data',
+        HttpStatus.BAD_REQUEST,
+        error.message
+      );
+    }
+
+    if (error instanceof JobNotRateableError) {
+      return errorResponse('CONFLICT', error.message, HttpStatus.CONFLICT);
+    }
+
+    console.error('Error saving feedback:', error);
+    return errorResponse(
+      'INTERNAL_ERROR',
+      'Failed to save feedback',
+      HttpStatus.INTERNAL_SERVER_ERROR,
+      error instanceof Error ? error.message : 'Unknown error'
+    );
+  }
+}
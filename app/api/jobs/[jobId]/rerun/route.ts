@@ -0,0 +1,144 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { PrismaClient } from '@prisma/client';
+import { generationServiceFromEnvironment } from '@/lib/infrastructure/generation/generationServiceFromEnvironment';
+import { ZodError } from 'zod';
+import {
+  GenerationRequestEdits,
+  PromptRejectedError,
+} from '@/lib/domain/services/ComponentGenerationService';
+import { API, HttpStatus } from '@/types/api';
+import { ComponentType } from '@/types';
+import { getAuthUser } from '@/lib/auth-utils';
+
+// Initialize dependencies
+const prisma = new PrismaClient();
+const { llmProvider, generationService } =
+  generationServiceFromEnvironment(prisma);
+
+const errorResponse = (
+  code: string,
+  message: string,
+  status: number,
+  details?: unknown
+) =>
+  NextResponse.json(
+    {
+      success: false,
+      error: { code, message, details },
+      timestamp: new Date().toISOString(),
+    },
+    { status }
+  );
+
+// POST /api/jobs/{jobId}/rerun - New job from a past job's request, with edits
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { jobId: string } }
+) {
+  try {
+    const user: any = await getAuthUser(request);
+    if (!user) {
+      return errorResponse(
+        'UNAUTHORIZED',
+        'Authentication required',
+        HttpStatus.UNAUTHORIZED
+      );
+    }
+
+    const original = await generationService.getJobStatus(params.jobId);
+    if (!original || (original.userId && original.userId !== user.id)) {
+      return errorResponse('NOT_FOUND', 'Job not found', HttpStatus.NOT_FOUND);
+    }
+
+    // An empty body re-runs the request unchanged
+    const text = await request.text();
+    const validationResult = API.RerunJobRequest.safeParse(
+      text ? JSON.parse(text) : {}
+    );
+    if (!validationResult.success) {
+      return errorResponse(
+        'VALIDATION_ERROR',
+        'Invalid request data',
+        HttpStatus.BAD_REQUEST,
+        validationResult.error.errors
+      );
+    }
+
+    const {
+      prompt,
+      preferredType,
+      provider,
+      model,
+      bypassCache,
+      candidateCount,
+      options,
+    } = validationResult.data;
+
+    const edits: GenerationRequestEdits = {
+      prompt,
+      preferredType: preferredType as ComponentType | undefined,
+      // A new provider starts from its default model
+      llm:
+        provider || model
+          ? {
+              provider: provider ?? original.request.llm?.provider,
+              model,
+            }
+          : undefined,
+      context: options,
+      options: candidateCount !== undefined ? { candidateCount } : undefined,
+    };
+
+    if (edits.llm) {
+      try {
+        llmProvider.resolve(edits.llm);
+      } catch (error) {
+        return errorResponse(
+          'VALIDATION_ERROR',
+          error instanceof Error ? error.message : 'Invalid LLM selection',
+          HttpStatus.BAD_REQUEST,
+          { availableProviders: llmProvider.getProviderNames() }
+        );
+      }
+    }
+
+    const job = await generationService.rerunJob(original, edits, user.id, {
+      bypassCache,
+    });
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: { jobId: job.id, rerunOf: original.id },
+        timestamp: new Date().toISOString(),
+      },
+      { status: HttpStatus.CREATED }
+    );
+  } catch (error) {
+    if (error instanceof SyntaxError || error instanceof ZodError) {
+      return errorResponse(
+        'VALIDATION_ERROR',
+        'Invalid request data',
+        HttpStatus.BAD_REQUEST,
+        error instanceof ZodError ? error.errors : error.message
+      );
+    }
+
+    if (error instanceof PromptRejectedError) {
+      return errorResponse(
+        'PROMPT_REJECTED',
+        error.message,
+        HttpStatus.UNPROCESSABLE_ENTITY,
+        { jobId: error.jobId, findings: error.decision.findings }
+      );
+    }
+
+    console.error('Error re-running job:', error);
+    return errorResponse(
+      'INTERNAL_ERROR',
+      'Failed to re-run job',
+      HttpStatus.INTERNAL_SERVER_ERROR,
+      error instanceof Error ? error.message : 'Unknown error'
+    );
+  }
+}
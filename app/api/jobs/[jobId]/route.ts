@@ -1,14 +1,19 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { ComponentApplicationService } from '@/lib/application/services/ComponentApplicationService';
-import { PrismaComponentRepository } from '@/lib/infrastructure/repositories/PrismaComponentRepository';
-import { PrismaGenerationJobRepository } from '@/lib/infrastructure/repositories/PrismaGenerationJobRepository';
-import { ComponentGenerationService } from '@/lib/domain/services/ComponentGenerationService';
-import { GeminiProvider } from '@/lib/infrastructure/llm/GeminiProvider';
-import { CodeValidator } from '@/lib/infrastructure/validation/CodeValidator';
 import { PrismaClient } from '@prisma/client';
-import { TemplateEngine } from '@/lib/core/templates/TemplateEngine';
+import { generationServiceFromEnvironment } from '@/lib/infrastructure/generation/generationServiceFromEnvironment';
+import { HttpStatus } from '@/types/api';
+import { GenerationStatus } from '@/types';
+import { getAuthUser } from '@/lib/auth-utils';
 
 const prisma = new PrismaClient();
+const { componentRepository, generationService } =
+  generationServiceFromEnvironment(prisma);
+
+const applicationService = new ComponentApplicationService(
+  componentRepository,
+  generationService
+);
 
 export async function GET(
   request: NextRequest,
@@ -24,29 +29,6 @@ export async function GET(
       );
     }
 
-    // Initialize repositories and services
-    const componentRepository = new PrismaComponentRepository(prisma);
-    const jobRepository = new PrismaGenerationJobRepository(prisma);
-    const llmProvider = new GeminiProvider(
-      process.env.GEMINI_API_KEY || 'dummy-key',
-      process.env.GEMINI_MODEL || 'gemini-2.5-flash'
-    );
-    const codeValidator = new CodeValidator();
-    const templateEngine = new TemplateEngine();
-
-    const generationService = new ComponentGenerationService(
-      componentRepository,
-      jobRepository,
-      llmProvider,
-      codeValidator,
-      templateEngine
-    );
-
-    const applicationService = new ComponentApplicationService(
-      componentRepository,
-      generationService
-    );
-
     // Get job status
     const job: any = await applicationService.getJobStatus(jobId);
 
@@ -76,6 +58,9 @@ export async function GET(
             startedAt: job.startedAt,
             completedAt: job.completedAt,
             error: job.error,
+            progress: job.getProgressPercentage(),
+            // Timestamped step events, oldest first
+            events: job.getProgressEvents(),
           },
           component: component
             ? {
@@ -89,6 +74,8 @@ export async function GET(
                 createdAt: component.createdAt,
               }
             : null,
+          // Ranked alternatives when several variants were requested
+          variants: job.result?.variants,
         },
         timestamp: new Date().toISOString(),
       });
@@ -105,6 +92,9 @@ export async function GET(
           startedAt: job.startedAt,
           completedAt: job.completedAt,
           error: job.error,
+          progress: job.getProgressPercentage(),
+          // Timestamped step events, oldest first
+          events: job.getProgressEvents(),
         },
         component: null,
       },
@@ -115,6 +105,78 @@ export async function GET(
     return errorHandler(error);
   }
 }
+
+// Cancels a pending or running job; a cancelled job never saves a component
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { jobId: string } }
+) {
+  const errorResponse = (code: string, message: string, status: number) =>
+    NextResponse.json(
+      {
+        success: false,
+        error: { code, message },
+        timestamp: new Date().toISOString(),
+      },
+      { status }
+    );
+
+  try {
+    const user: any = await getAuthUser(request);
+    if (!user) {
+      return errorResponse(
+        'UNAUTHORIZED',
+        'Authentication required',
+        HttpStatus.UNAUTHORIZED
+      );
+    }
+
+    const job = await generationService.getJobStatus(params.jobId);
+    // Only the owner may cancel; jobs without one can't be cancelled here
+    if (!job || job.userId !== user.id) {
+      return errorResponse('NOT_FOUND', 'Job not found', HttpStatus.NOT_FOUND);
+    }
+
+    if (job.isCompleted()) {
+      return errorResponse(
+        'CONFLICT',
+        `Job already finished with status ${job.status}`,
+        HttpStatus.CONFLICT
+      );
+    }
+
+    const cancelled = await generationService.cancelJob(job.id);
+    // It may have finished between the two reads
+    if (cancelled?.status !== GenerationStatus.CANCELLED) {
+      return errorResponse(
+        'CONFLICT',
+        `Job already finished with status ${cancelled?.status}`,
+        HttpStatus.CONFLICT
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        job: {
+          id: cancelled.id,
+          status: cancelled.status,
+          startedAt: cancelled.startedAt,
+          completedAt: cancelled.completedAt,
+        },
+      },
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Error cancelling job:', error);
+    return errorResponse(
+      'INTERNAL_ERROR',
+      'Failed to cancel job',
+      HttpStatus.INTERNAL_SERVER_ERROR
+    );
+  }
+}
+
 function errorHandler(error: unknown) {
   throw new Error('Function not implemented.');
 }
@@ -0,0 +1,125 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { PrismaClient } from '@prisma/client';
+import { generationServiceFromEnvironment } from '@/lib/infrastructure/generation/generationServiceFromEnvironment';
+import { ComponentApplicationService } from '@/lib/application/services/ComponentApplicationService';
+import { API, HttpStatus } from '@/types/api';
+import { GenerationStatus } from '@/types';
+import { getAuthUser } from '@/lib/auth-utils';
+
+const prisma = new PrismaClient();
+const { componentRepository, generationService } =
+  generationServiceFromEnvironment(prisma);
+
+const applicationService = new ComponentApplicationService(
+  componentRepository,
+  generationService
+);
+
+const STATUSES = Object.values(GenerationStatus) as string[];
+
+// GET /api/jobs - The caller's generation history, newest first
+export async function GET(request: NextRequest) {
+  try {
+    const user: any = await getAuthUser(request);
+    if (!user) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'UNAUTHORIZED',
+            message: 'Authentication required',
+          },
+          timestamp: new Date().toISOString(),
+        },
+        { status: HttpStatus.UNAUTHORIZED }
+      );
+    }
+
+    const validationResult = API.JobHistoryRequest.safeParse(
+      Object.fromEntries(request.nextUrl.searchParams)
+    );
+    const statuses = validationResult.data?.status?.split(',');
+    if (
+      !validationResult.success ||
+      statuses?.some(status => !STATUSES.includes(status))
+    ) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid query parameters',
+            details: validationResult.success
+              ? `status must be one of ${STATUSES.join(', ')}`
+              : validationResult.error.errors,
+          },
+          timestamp: new Date().toISOString(),
+        },
+        { status: HttpStatus.BAD_REQUEST }
+      );
+    }
+
+    const { page, limit, type, search, from, to } = validationResult.data;
+    const { entries, total } = await applicationService.getJobHistory(user.id, {
+      limit,
+      offset: (page - 1) * limit,
+      statuses: statuses as GenerationStatus[] | undefined,
+      componentType: type,
+      search,
+      createdAfter: from,
+      createdBefore: to,
+    });
+
+    const response: API.JobHistoryResponse = {
+      items: entries.map(({ job, component }) => ({
+        id: job.id,
+        prompt: job.request.prompt,
+        status: job.status,
+        type: job.result?.component?.componentType ?? job.request.preferredType,
+        durationMs:
+          job.startedAt && job.completedAt
+            ? job.completedAt.getTime() - job.startedAt.getTime()
+            : null,
+        createdAt: job.createdAt.toISOString(),
+        completedAt: job.completedAt?.toISOString() ?? null,
+        error: job.error?.message,
+        rerunOf: job.getMetadata('rerunOf'),
+        component: component
+          ? { id: component.id, name: component.name, type: component.type }
+          : null,
+      })),
+      meta: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+        hasNextPage: page * limit < total,
+        hasPrevPage: page > 1,
+      },
+    };
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: response,
+        timestamp: new Date().toISOString(),
+      },
+      { status: HttpStatus.OK }
+    );
+  } catch (error) {
+    console.error('Job history error:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Failed to fetch job history',
+          details: error instanceof Error ? error.message : 'Unknown error',
+        },
+        timestamp: new Date().toISOString(),
+      },
+      { status: HttpStatus.INTERNAL_SERVER_ERROR }
+    );
+  }
+}
@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { PrismaClient } from '@prisma/client';
+import { TokenBudgetService } from '@/lib/domain/services/TokenBudgetService';
+import { PrismaTokenUsageRepository } from '@/lib/infrastructure/repositories/PrismaTokenUsageRepository';
+import { HttpStatus } from '@/types/api';
+import { getAuthUser } from '@/lib/auth-utils';
+
+const prisma = new PrismaClient();
+const tokenBudget = TokenBudgetService.fromEnvironment(
+  new PrismaTokenUsageRepository(prisma)
+);
+
+// GET /api/usage - Remaining LLM token budget for the current user
+export async function GET(request: NextRequest) {
+  const user: any = await getAuthUser(request);
+  if (!user) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 'UNAUTHORIZED',
+          message: 'Authentication required',
+        },
+        timestamp: new Date().toISOString(),
+      },
+      { status: HttpStatus.UNAUTHORIZED }
+    );
+  }
+
+  try {
+    const budgets = await tokenBudget.getBudgetStatus(user.id);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        // Empty when no budget is configured (unlimited)
+        budgets,
+        exhausted: budgets.some(budget => budget.remaining === 0),
+      },
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Error in usage API:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Failed to load token usage',
+        },
+        timestamp: new Date().toISOString(),
+      },
+      { status: HttpStatus.INTERNAL_SERVER_ERROR }
+    );
+  }
+}
@@ -21,6 +21,7 @@ import {
 } from '@mui/icons-material';
 import { useAuth } from '@/hooks/useAuth';
 import { MainLayout } from '@/components/layout/MainLayout';
+import { GenerationMetricsPanel } from '@/components/features/GenerationMetricsPanel';
 import { useRouter } from 'next/navigation';
 
 interface DashboardStats {
@@ -223,6 +224,11 @@ export default function DashboardPage() {
           </Grid>
         </Grid>
 
+        {/* Generation quality, admins only */}
+        {(user as { role?: string } | undefined)?.role === 'ADMIN' && (
+          <GenerationMetricsPanel />
+        )}
+
         {/* Recent Components */}
         <Card>
           <CardContent>
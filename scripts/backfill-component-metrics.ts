@@ -0,0 +1,50 @@
+import 'dotenv/config';
+import { PrismaClient } from '@prisma/client';
+import { analyzeComponent } from '@/lib/core/analysis/ComponentAnalyzer';
+
+// Measures library components saved before code metrics were recorded, so
+// they can be sorted and filtered like new ones: `npm run metrics:backfill`
+
+const BATCH_SIZE = 100;
+
+const prisma = new PrismaClient();
+
+async function main() {
+  let measured = 0;
+
+  for (;;) {
+    const components = await prisma.component.findMany({
+      where: { cyclomaticComplexity: null },
+      select: { id: true, code: true, metadata: true, updatedAt: true },
+      take: BATCH_SIZE,
+    });
+    if (components.length === 0) break;
+
+    for (const component of components) {
+      const { complexity, metrics } = analyzeComponent(component.code);
+      const metadata = (component.metadata as Record<string, any>) ?? {};
+
+      await prisma.component.update({
+        where: { id: component.id },
+        data: {
+          metadata: { ...metadata, complexity, metrics } as any,
+          ...metrics,
+          // The component itself did not change
+          updatedAt: component.updatedAt,
+        },
+      });
+      measured++;
+    }
+
+    console.log(`Measured ${measured} components`);
+  }
+
+  console.log(`Done: ${measured} components measured`);
+}
+
+main()
+  .catch(error => {
+    console.error('Metrics backfill failed:', error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
@@ -0,0 +1,31 @@
+import 'dotenv/config';
+import { PrismaClient } from '@prisma/client';
+import { generationServiceFromEnvironment } from '@/lib/infrastructure/generation/generationServiceFromEnvironment';
+import { GenerationWorker } from '@/lib/application/services/GenerationWorker';
+
+// Processes generation jobs queued with GENERATION_QUEUE_MODE=worker, and
+// recovers stuck and retryable jobs and purges expired cached LLM responses
+// in either mode: `npm run worker`
+
+const prisma = new PrismaClient();
+const { jobRepository, llmProvider, generationService } =
+  generationServiceFromEnvironment(prisma);
+
+const worker = GenerationWorker.fromEnvironment(
+  generationService,
+  jobRepository,
+  process.env,
+  llmProvider.getResponseCache()
+);
+
+async function shutdown(signal: string) {
+  console.log(`Received ${signal}, finishing jobs in progress...`);
+  await worker.stop();
+  await prisma.$disconnect();
+  process.exit(0);
+}
+
+process.once('SIGINT', () => void shutdown('SIGINT'));
+process.once('SIGTERM', () => void shutdown('SIGTERM'));
+
+worker.start();
@@ -0,0 +1,108 @@
+import 'dotenv/config';
+import { IntentClassifier } from '@/lib/core/intent/IntentClassifier';
+import { PromptScreener } from '@/lib/core/screening/PromptScreener';
+import { TemplateEngine } from '@/lib/core/templates/TemplateEngine';
+import { CandidateRanker } from '@/lib/domain/services/CandidateRanker';
+import {
+  ComponentGenerationService,
+  ILLMProvider,
+} from '@/lib/domain/services/ComponentGenerationService';
+import { FewShotExampleSelector } from '@/lib/domain/services/FewShotExampleSelector';
+import { LLMProviderRegistry } from '@/lib/infrastructure/llm/LLMProviderRegistry';
+import { InMemoryComponentRepository } from '@/lib/infrastructure/repositories/InMemoryComponentRepository';
+import { InMemoryGenerationJobRepository } from '@/lib/infrastructure/repositories/InMemoryGenerationJobRepository';
+import { CodeValidator } from '@/lib/infrastructure/validation/CodeValidator';
+import { ComponentType, GenerationRequest, GenerationStatus } from '@/types';
+
+// Replays generation jobs through ComponentGenerationService against the
+// fixtures in LLM_FIXTURES_DIR: screening, analysis, few-shot selection,
+// generation, validation and repair, naming and saving all run; only the
+// LLM answers and the storage are stand-ins. Needs no API keys and no
+// database: `npm run llm:replay`. With a backend configured,
+// `LLM_RECORD_MODE=record npm run llm:replay` records the fixtures afresh.
+
+// Owner of the replayed jobs, so later jobs draw few-shot examples from the
+// components the earlier ones saved
+const REPLAY_USER_ID = 'llm-replay';
+
+const REQUESTS: GenerationRequest[] = [
+  { prompt: 'A table of users with name, email and role columns' },
+  { prompt: 'A login form with email and password fields' },
+  {
+    prompt: 'A card showing a product with its price and a buy button',
+    preferredType: ComponentType.MUICard,
+  },
+];
+
+async function replayRequests(llmProvider: ILLMProvider) {
+  const componentRepository = new InMemoryComponentRepository();
+  const jobRepository = new InMemoryGenerationJobRepository();
+  const codeValidator = new CodeValidator();
+  const generationService = new ComponentGenerationService(
+    componentRepository,
+    jobRepository,
+    llmProvider,
+    codeValidator,
+    new TemplateEngine(),
+    undefined,
+    new FewShotExampleSelector(componentRepository),
+    undefined,
+    new IntentClassifier(componentRepository),
+    new PromptScreener(),
+    undefined,
+    new CandidateRanker(codeValidator)
+  );
+  let failures = 0;
+
+  for (const request of REQUESTS) {
+    try {
+      const job = await generationService.createJob(request, REPLAY_USER_ID, {
+        claimed: true,
+      });
+      await generationService.processClaimedJob(job, REPLAY_USER_ID);
+
+      const component =
+        job.componentId &&
+        (await componentRepository.findById(job.componentId));
+      if (job.status !== GenerationStatus.SUCCESS || !component) {
+        throw new Error(
+          `Job finished as ${job.status}${job.error ? `: ${job.error.message}` : ''}`
+        );
+      }
+
+      console.log(
+        `ok   ${request.prompt} -> ${component.name} (${component.type}, validation ${job.getMetadata('validation')?.outcome})`
+      );
+    } catch (error) {
+      failures++;
+      console.error(
+        `FAIL ${request.prompt}: ${error instanceof Error ? error.message : error}`
+      );
+    }
+  }
+
+  console.log(`${REQUESTS.length - failures}/${REQUESTS.length} passed`);
+  return failures;
+}
+
+async function main() {
+  const mode = process.env.LLM_RECORD_MODE || 'replay';
+  const registry = LLMProviderRegistry.fromEnvironment({
+    ...process.env,
+    LLM_RECORD_MODE: mode,
+    // Replay must not fall through to a configured backend or cache
+    LLM_PROVIDER: mode === 'replay' ? 'replay' : process.env.LLM_PROVIDER,
+    LLM_FALLBACK_PROVIDER:
+      mode === 'replay' ? '' : process.env.LLM_FALLBACK_PROVIDER,
+    LLM_CACHE_BACKEND: 'none',
+  });
+
+  if ((await replayRequests(registry)) > 0) {
+    process.exitCode = 1;
+  }
+}
+
+main().catch(error => {
+  console.error('LLM replay run failed:', error);
+  process.exitCode = 1;
+});
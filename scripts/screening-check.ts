@@ -0,0 +1,32 @@
+import { PromptScreener } from '@/lib/core/screening/PromptScreener';
+import { SCREENING_CORPUS } from '@/lib/core/screening/corpus';
+
+// Checks the default screening rules against the labeled prompts in the
+// screening corpus: `npm run screening:check`. Exits non-zero on any
+// prompt rejected or let through by mistake.
+
+function main() {
+  const screener = new PromptScreener();
+  let failures = 0;
+
+  for (const { prompt, rejected } of SCREENING_CORPUS) {
+    const decision = screener.screen(prompt);
+    const actual = decision.action === 'reject';
+    if (actual === rejected) continue;
+
+    failures++;
+    const rules = decision.findings.map(finding => finding.rule).join(', ');
+    console.error(
+      `FAIL ${prompt}: ${actual ? `rejected by ${rules}` : 'accepted'}`
+    );
+  }
+
+  console.log(
+    `${SCREENING_CORPUS.length - failures}/${SCREENING_CORPUS.length} screened as expected`
+  );
+  if (failures > 0) {
+    process.exitCode = 1;
+  }
+}
+
+main();
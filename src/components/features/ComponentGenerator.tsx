@@ -1,6 +1,6 @@
 'use client';
 
-import { useState, useCallback, useEffect } from 'react';
+import { useState, useCallback, useEffect, useMemo } from 'react';
 import {
   Box,
   Grid,
@@ -27,14 +27,19 @@ import {
   Download as DownloadIcon,
   Save as SaveIcon,
   Login as LoginIcon,
+  Cancel as CancelIcon,
 } from '@mui/icons-material';
 
 import { CodeEditor } from '@/components/ui/CodeEditor';
 // import { ComponentPreview } from '@/components/ui/ComponentPreview';
 import { ComponentType } from '@/types';
+import type { GenerationVariant } from '@/types/generation';
 import { useComponentGeneration } from '@/hooks/useComponentGeneration';
 import ComponentPreview from '../ui/ComponentPreview';
 import { useAuth } from '@/hooks/useAuth';
+import { ComponentVariants } from './ComponentVariants';
+import { GenerationTimeline } from './GenerationTimeline';
+import { GenerationFeedback } from './GenerationFeedback';
 
 interface TabPanelProps {
   children?: React.ReactNode;
@@ -66,44 +71,114 @@ export function ComponentGenerator() {
     typescript: true,
     accessibility: true,
   });
+  const [useCache, setUseCache] = useState(true);
+  const [candidateCount, setCandidateCount] = useState(1);
+  const [selectedRank, setSelectedRank] = useState(1);
+  const [savedRanks, setSavedRanks] = useState<number[]>([]);
+  const [savingRank, setSavingRank] = useState<number | null>(null);
+  const [saveError, setSaveError] = useState<string | null>(null);
 
   const {
-    generateComponent,
+    generateComponentStream,
+    cancelGeneration,
     generatedComponent,
     isGenerating,
+    streamingCode,
+    variants,
+    progressEvents,
+    lastJobId,
+    saveComponent,
+    submitFeedback,
     error,
     clearError,
   } = useComponentGeneration();
 
+  useEffect(() => {
+    setSelectedRank(1);
+    setSavedRanks(
+      variants.filter(variant => variant.saved).map(variant => variant.rank)
+    );
+    setSaveError(null);
+  }, [variants]);
+
+  // The saved component unless another ranked variant is being viewed
+  const displayedComponent = useMemo(() => {
+    const variant = variants.find(v => v.rank === selectedRank);
+    if (!variant || variant.saved) return generatedComponent;
+
+    return {
+      id: '',
+      name: variant.component.componentName,
+      type: variant.component.componentType,
+      code: variant.component.code,
+      propsSchema: variant.component.propsSchema,
+      previewContent: variant.component.previewContent,
+    };
+  }, [variants, selectedRank, generatedComponent]);
+
   const handleGenerate = useCallback(async () => {
     if (!prompt.trim()) return;
 
-    await generateComponent({
+    await generateComponentStream({
       prompt: prompt.trim(),
       preferredType: selectedType || undefined,
+      bypassCache: !useCache,
+      candidateCount,
       options,
     });
-  }, [prompt, selectedType, options, generateComponent]);
+  }, [
+    prompt,
+    selectedType,
+    options,
+    useCache,
+    candidateCount,
+    generateComponentStream,
+  ]);
+
+  const handleSaveVariant = useCallback(
+    async (variant: GenerationVariant) => {
+      setSavingRank(variant.rank);
+      setSaveError(null);
+
+      try {
+        await saveComponent({
+          // Suffixed so it doesn't collide with the variant the job saved
+          name: `${variant.component.componentName}Variant${variant.rank}`,
+          code: variant.component.code,
+          type: variant.component.componentType,
+          propsSchema: variant.component.propsSchema ?? {},
+          description: variant.component.description,
+          examples: variant.component.examples,
+        });
+        setSavedRanks(prev => [...prev, variant.rank]);
+      } catch (err) {
+        setSaveError(err instanceof Error ? err.message : 'Save failed');
+      } finally {
+        setSavingRank(null);
+      }
+    },
+    [saveComponent]
+  );
 
   const handleTabChange = (event: React.SyntheticEvent, newValue: number) => {
     setActiveTab(newValue);
   };
 
   const handleExport = useCallback(() => {
-    if (!generatedComponent) return;
+    if (!displayedComponent) return;
 
-    const blob = new Blob([generatedComponent.code], {
+    const blob = new Blob([displayedComponent.code], {
       type: 'text/typescript',
     });
     const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
     a.href = url;
-    a.download = `${generatedComponent.name}.tsx`;
+    a.download = `${displayedComponent.name}.tsx`;
     document.body.appendChild(a);
     a.click();
     document.body.removeChild(a);
     URL.revokeObjectURL(url);
-  }, [generatedComponent]);
+  }, [displayedComponent]);
 
   const componentTypes = Object.values(ComponentType).map(type => ({
     value: type,
@@ -250,6 +325,31 @@ export function ComponentGenerator() {
                 }
                 label='Accessibility Features'
               />
+              <FormControlLabel
+                control={
+                  <Switch
+                    checked={useCache}
+                    onChange={e => setUseCache(e.target.checked)}
+                  />
+                }
+                label='Reuse cached results'
+              />
+              <FormControl fullWidth size='small' sx={{ mt: 1 }}>
+                <InputLabel>Variants</InputLabel>
+                <Select
+                  value={candidateCount}
+                  onChange={e => setCandidateCount(Number(e.target.value))}
+                  label='Variants'
+                >
+                  {[1, 2, 3, 4, 5].map(count => (
+                    <MenuItem key={count} value={count}>
+                      {count === 1
+                        ? '1 (no ranking)'
+                        : `${count}, ranked best first`}
+                    </MenuItem>
+                  ))}
+                </Select>
+              </FormControl>
             </Box>
 
             <Button
@@ -266,6 +366,25 @@ export function ComponentGenerator() {
               {isGenerating ? 'Generating...' : 'Generate Component'}
             </Button>
 
+            {isGenerating && (
+              <Button
+                fullWidth
+                variant='outlined'
+                color='inherit'
+                onClick={cancelGeneration}
+                startIcon={<CancelIcon />}
+                sx={{ mb: 2 }}
+              >
+                Cancel
+              </Button>
+            )}
+
+            {isGenerating && progressEvents.length > 0 && (
+              <Box sx={{ mb: 2 }}>
+                <GenerationTimeline events={progressEvents} />
+              </Box>
+            )}
+
             {error && (
               <Alert severity='error' onClose={clearError} sx={{ mb: 2 }}>
                 {error}
@@ -297,7 +416,34 @@ export function ComponentGenerator() {
 
         {/* Output Section */}
         <Grid item xs={12} lg={8}>
-          {generatedComponent ? (
+          {isGenerating && streamingCode ? (
+            <Paper
+              sx={{ height: '600px', display: 'flex', flexDirection: 'column' }}
+            >
+              <Box
+                sx={{
+                  borderBottom: 1,
+                  borderColor: 'divider',
+                  p: 2,
+                  display: 'flex',
+                  alignItems: 'center',
+                  gap: 1,
+                }}
+              >
+                <CircularProgress size={20} />
+                <Typography variant='h6'>Writing code...</Typography>
+              </Box>
+              <Box sx={{ flexGrow: 1, overflow: 'hidden' }}>
+                <CodeEditor
+                  value={streamingCode}
+                  language='typescript'
+                  theme={options.theme}
+                  readOnly
+                  height='540px'
+                />
+              </Box>
+            </Paper>
+          ) : displayedComponent ? (
             <Paper
               sx={{ height: '600px', display: 'flex', flexDirection: 'column' }}
             >
@@ -311,7 +457,7 @@ export function ComponentGenerator() {
                   }}
                 >
                   <Typography variant='h6'>
-                    {generatedComponent.name}
+                    {displayedComponent.name}
                   </Typography>
                   <Box sx={{ display: 'flex', gap: 1 }}>
                     <Button
@@ -338,7 +484,7 @@ export function ComponentGenerator() {
               <Box sx={{ flexGrow: 1, overflow: 'hidden' }}>
                 <TabPanel value={activeTab} index={0}>
                   <CodeEditor
-                    value={generatedComponent.code}
+                    value={displayedComponent.code}
                     language='typescript'
                     theme={options.theme}
                     readOnly
@@ -348,8 +494,8 @@ export function ComponentGenerator() {
 
                 <TabPanel value={activeTab} index={1}>
                   <ComponentPreview
-                    code={generatedComponent.code}
-                    previewContent={(generatedComponent as any).previewContent}
+                    code={displayedComponent.code}
+                    previewContent={(displayedComponent as any).previewContent}
                     theme={options.theme}
                     height='500px'
                   />
@@ -378,6 +524,34 @@ export function ComponentGenerator() {
               </Box>
             </Paper>
           )}
+
+          {!isGenerating && generatedComponent && lastJobId && (
+            <Paper sx={{ p: 2, mt: 2 }}>
+              <GenerationFeedback key={lastJobId} onSubmit={submitFeedback} />
+            </Paper>
+          )}
+
+          {!isGenerating && variants.length > 1 && (
+            <Paper sx={{ p: 2, mt: 2 }}>
+              {saveError && (
+                <Alert
+                  severity='error'
+                  onClose={() => setSaveError(null)}
+                  sx={{ mb: 2 }}
+                >
+                  {saveError}
+                </Alert>
+              )}
+              <ComponentVariants
+                variants={variants}
+                selectedRank={selectedRank}
+                onSelect={variant => setSelectedRank(variant.rank)}
+                onSave={handleSaveVariant}
+                savedRanks={savedRanks}
+                savingRank={savingRank}
+              />
+            </Paper>
+          )}
         </Grid>
       </Grid>
     </Box>
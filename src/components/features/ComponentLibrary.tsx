@@ -22,6 +22,7 @@ import {
   Tabs,
   Tab,
   IconButton,
+  MenuItem,
 } from '@mui/material';
 import {
   Search as SearchIcon,
@@ -30,10 +31,12 @@ import {
   Visibility as ViewIcon,
   Close as CloseIcon,
   Preview as PreviewIcon,
+  AutoFixHigh as RefineIcon,
 } from '@mui/icons-material';
 import { API } from '@/types/api';
 import { CodeEditor } from '@/components/ui/CodeEditor';
 import ComponentPreview from '@/components/ui/ComponentPreview';
+import { ComponentRefinement } from '@/components/features/ComponentRefinement';
 import { useAuth } from '@/hooks/useAuth';
 import { useRouter } from 'next/navigation';
 
@@ -44,10 +47,45 @@ interface ComponentItem {
   description?: string;
   tags: string[];
   usageCount: number;
+  complexity?: API.LibraryComponent['complexity'];
+  metrics?: API.LibraryComponent['metrics'];
   createdAt: string;
   updatedAt: string;
 }
 
+// Library orderings: label -> sortBy and sortOrder query params
+const SORT_OPTIONS: Record<
+  string,
+  { label: string; sortBy: string; sortOrder: 'asc' | 'desc' }
+> = {
+  updated: {
+    label: 'Recently updated',
+    sortBy: 'updatedAt',
+    sortOrder: 'desc',
+  },
+  name: { label: 'Name', sortBy: 'name', sortOrder: 'asc' },
+  usage: { label: 'Most used', sortBy: 'usageCount', sortOrder: 'desc' },
+  mostComplex: {
+    label: 'Most complex',
+    sortBy: 'cyclomaticComplexity',
+    sortOrder: 'desc',
+  },
+  leastComplex: {
+    label: 'Least complex',
+    sortBy: 'cyclomaticComplexity',
+    sortOrder: 'asc',
+  },
+  deepestJsx: { label: 'Deepest JSX', sortBy: 'jsxDepth', sortOrder: 'desc' },
+  mostHooks: { label: 'Most hooks', sortBy: 'hookCount', sortOrder: 'desc' },
+  mostProps: { label: 'Most props', sortBy: 'propCount', sortOrder: 'desc' },
+};
+
+const COMPLEXITY_COLORS = {
+  simple: 'success',
+  medium: 'warning',
+  complex: 'error',
+} as const;
+
 export function ComponentLibrary() {
   const { isAuthenticated, isLoading: authLoading } = useAuth();
   const router = useRouter();
@@ -55,6 +93,8 @@ export function ComponentLibrary() {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [searchQuery, setSearchQuery] = useState('');
+  const [sort, setSort] = useState('updated');
+  const [complexity, setComplexity] = useState('');
   const [page, setPage] = useState(1);
   const [totalPages, setTotalPages] = useState(1);
   const [totalComponents, setTotalComponents] = useState(0);
@@ -73,7 +113,9 @@ export function ComponentLibrary() {
 
   const loadComponents = async (
     searchTerm: string = '',
-    currentPage: number = 1
+    currentPage: number = 1,
+    sortKey: string = 'updated',
+    complexityLevel: string = ''
   ) => {
     setLoading(true);
     setError(null);
@@ -82,14 +124,18 @@ export function ComponentLibrary() {
       const params = new URLSearchParams({
         limit: '12',
         offset: ((currentPage - 1) * 12).toString(),
-        sortBy: 'updatedAt',
-        sortOrder: 'desc',
+        sortBy: SORT_OPTIONS[sortKey].sortBy,
+        sortOrder: SORT_OPTIONS[sortKey].sortOrder,
       });
 
       if (searchTerm) {
         params.append('search', searchTerm);
       }
 
+      if (complexityLevel) {
+        params.append('complexity', complexityLevel);
+      }
+
       const response = await fetch(`/api/components?${params.toString()}`);
       const data = await response.json();
 
@@ -129,14 +175,26 @@ export function ComponentLibrary() {
     }
 
     // Load components when authenticated
-    loadComponents(searchQuery, page);
-  }, [searchQuery, page, isAuthenticated, authLoading]);
+    loadComponents(searchQuery, page, sort, complexity);
+  }, [searchQuery, page, sort, complexity, isAuthenticated, authLoading]);
 
   const handleSearchChange = (event: React.ChangeEvent<HTMLInputElement>) => {
     setSearchQuery(event.target.value);
     setPage(1); // Reset to first page when searching
   };
 
+  const handleSortChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    setSort(event.target.value);
+    setPage(1);
+  };
+
+  const handleComplexityChange = (
+    event: React.ChangeEvent<HTMLInputElement>
+  ) => {
+    setComplexity(event.target.value);
+    setPage(1);
+  };
+
   const handlePageChange = (
     event: React.ChangeEvent<unknown>,
     newPage: number
@@ -319,6 +377,37 @@ export function ComponentLibrary() {
           }}
           sx={{ maxWidth: 500 }}
         />
+
+        <Box sx={{ display: 'flex', gap: 2, mt: 2 }}>
+          <TextField
+            select
+            size='small'
+            label='Sort by'
+            value={sort}
+            onChange={handleSortChange}
+            sx={{ minWidth: 200 }}
+          >
+            {Object.entries(SORT_OPTIONS).map(([key, option]) => (
+              <MenuItem key={key} value={key}>
+                {option.label}
+              </MenuItem>
+            ))}
+          </TextField>
+
+          <TextField
+            select
+            size='small'
+            label='Complexity'
+            value={complexity}
+            onChange={handleComplexityChange}
+            sx={{ minWidth: 160 }}
+          >
+            <MenuItem value=''>Any</MenuItem>
+            <MenuItem value='simple'>Simple</MenuItem>
+            <MenuItem value='medium'>Medium</MenuItem>
+            <MenuItem value='complex'>Complex</MenuItem>
+          </TextField>
+        </Box>
       </Box>
 
       {loading ? (
@@ -329,11 +418,13 @@ export function ComponentLibrary() {
         <Box sx={{ textAlign: 'center', py: 8 }}>
           <CodeIcon sx={{ fontSize: 64, color: 'grey.400', mb: 2 }} />
           <Typography variant='h6' color='grey.600' gutterBottom>
-            {searchQuery ? 'No components found' : 'No components yet'}
+            {searchQuery || complexity
+              ? 'No components found'
+              : 'No components yet'}
           </Typography>
           <Typography variant='body2' color='grey.500'>
-            {searchQuery
-              ? 'Try adjusting your search terms'
+            {searchQuery || complexity
+              ? 'Try adjusting your search terms or filters'
               : 'Generate some components to populate the library'}
           </Typography>
         </Box>
@@ -365,6 +456,31 @@ export function ComponentLibrary() {
                       sx={{ mb: 1 }}
                     />
 
+                    {component.complexity && (
+                      <Chip
+                        label={component.complexity}
+                        size='small'
+                        color={COMPLEXITY_COLORS[component.complexity]}
+                        variant='outlined'
+                        sx={{ mb: 1, ml: 1 }}
+                      />
+                    )}
+
+                    {component.metrics && (
+                      <Typography
+                        variant='caption'
+                        color='text.secondary'
+                        component='p'
+                        sx={{ mb: 1 }}
+                      >
+                        Cyclomatic {component.metrics.cyclomaticComplexity} •
+                        JSX depth {component.metrics.jsxDepth} • Hooks{' '}
+                        {component.metrics.hookCount} • Props{' '}
+                        {component.metrics.propCount} • Imports{' '}
+                        {component.metrics.importCount}
+                      </Typography>
+                    )}
+
                     {component.description && (
                       <Typography
                         variant='body2'
@@ -490,6 +606,7 @@ export function ComponentLibrary() {
                 label='Preview'
                 iconPosition='start'
               />
+              <Tab icon={<RefineIcon />} label='Refine' iconPosition='start' />
             </Tabs>
           </Box>
 
@@ -557,6 +674,26 @@ export function ComponentLibrary() {
                 )}
               </Box>
             )}
+
+            {/* Refine Tab */}
+            {dialogActiveTab === 2 && selectedComponent && (
+              <Box sx={{ height: '100%', p: 2, overflow: 'auto' }}>
+                <ComponentRefinement
+                  componentId={selectedComponent.id}
+                  onRefined={refined => {
+                    setSelectedComponentCode(refined.code);
+                    setSelectedComponent(prev =>
+                      prev
+                        ? ({
+                            ...prev,
+                            previewContent: refined.previewContent,
+                          } as ComponentItem)
+                        : prev
+                    );
+                  }}
+                />
+              </Box>
+            )}
           </Box>
         </DialogContent>
 
@@ -0,0 +1,143 @@
+'use client';
+
+import { useState } from 'react';
+import {
+  Box,
+  Typography,
+  TextField,
+  Button,
+  Chip,
+  Alert,
+  CircularProgress,
+  Accordion,
+  AccordionSummary,
+  AccordionDetails,
+} from '@mui/material';
+import {
+  ExpandMore as ExpandMoreIcon,
+  AutoFixHigh as RefineIcon,
+} from '@mui/icons-material';
+import { CodeDiff } from '@/components/ui/CodeDiff';
+import { useComponentRefinement } from '@/hooks/useComponentRefinement';
+
+interface ComponentRefinementProps {
+  componentId: string;
+  // Called with the revised code after every successful turn
+  onRefined?: (component: { code: string; previewContent?: string }) => void;
+}
+
+export function ComponentRefinement({
+  componentId,
+  onRefined,
+}: ComponentRefinementProps) {
+  const { turns, isLoading, isRefining, error, refine, clearError } =
+    useComponentRefinement(componentId);
+  const [instruction, setInstruction] = useState('');
+  const [expandedTurn, setExpandedTurn] = useState<number | false>(false);
+
+  const handleRefine = async () => {
+    if (!instruction.trim()) return;
+
+    const component = await refine(instruction.trim());
+    if (component) {
+      setInstruction('');
+      setExpandedTurn(turns.length + 1);
+      onRefined?.(component);
+    }
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent) => {
+    if (event.key === 'Enter' && (event.ctrlKey || event.metaKey)) {
+      event.preventDefault();
+      handleRefine();
+    }
+  };
+
+  return (
+    <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2 }}>
+      {error && (
+        <Alert severity='error' onClose={clearError}>
+          {error}
+        </Alert>
+      )}
+
+      {isLoading ? (
+        <Box sx={{ display: 'flex', justifyContent: 'center', py: 4 }}>
+          <CircularProgress />
+        </Box>
+      ) : turns.length === 0 ? (
+        <Typography color='text.secondary'>
+          No refinements yet. Describe a change below, e.g. &quot;add
+          pagination&quot; or &quot;make the header sticky&quot;.
+        </Typography>
+      ) : (
+        <Box>
+          {turns.map(turn => (
+            <Accordion
+              key={turn.id}
+              expanded={expandedTurn === turn.turn}
+              onChange={(_, isExpanded) =>
+                setExpandedTurn(isExpanded ? turn.turn : false)
+              }
+              disableGutters
+            >
+              <AccordionSummary expandIcon={<ExpandMoreIcon />}>
+                <Box
+                  sx={{
+                    display: 'flex',
+                    alignItems: 'center',
+                    gap: 1,
+                    minWidth: 0,
+                  }}
+                >
+                  <Chip label={`#${turn.turn}`} size='small' />
+                  <Typography noWrap>{turn.instruction}</Typography>
+                  <Chip
+                    label={`v${turn.version}`}
+                    size='small'
+                    variant='outlined'
+                  />
+                </Box>
+              </AccordionSummary>
+              <AccordionDetails>
+                {expandedTurn === turn.turn && (
+                  <CodeDiff
+                    original={turn.previousCode}
+                    modified={turn.code}
+                    height='360px'
+                  />
+                )}
+              </AccordionDetails>
+            </Accordion>
+          ))}
+        </Box>
+      )}
+
+      <Box sx={{ display: 'flex', gap: 1, alignItems: 'flex-start' }}>
+        <TextField
+          fullWidth
+          multiline
+          maxRows={4}
+          size='small'
+          label='Refinement instruction'
+          placeholder='Describe the change you want...'
+          value={instruction}
+          onChange={event => setInstruction(event.target.value)}
+          onKeyDown={handleKeyDown}
+          disabled={isRefining}
+        />
+        <Button
+          variant='contained'
+          startIcon={
+            isRefining ? <CircularProgress size={16} /> : <RefineIcon />
+          }
+          onClick={handleRefine}
+          disabled={isRefining || !instruction.trim()}
+          sx={{ whiteSpace: 'nowrap' }}
+        >
+          {isRefining ? 'Refining...' : 'Refine'}
+        </Button>
+      </Box>
+    </Box>
+  );
+}
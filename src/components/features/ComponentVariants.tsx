@@ -0,0 +1,150 @@
+'use client';
+
+import {
+  Box,
+  Typography,
+  Button,
+  Chip,
+  List,
+  ListItem,
+  ListItemButton,
+  ListItemText,
+  Tooltip,
+} from '@mui/material';
+import { Save as SaveIcon } from '@mui/icons-material';
+import type { GenerationVariant } from '@/types/generation';
+
+interface ComponentVariantsProps {
+  // Ranked best first
+  variants: GenerationVariant[];
+  selectedRank: number;
+  onSelect: (variant: GenerationVariant) => void;
+  onSave: (variant: GenerationVariant) => void;
+  // Ranks saved to the library, including the one saved by the job
+  savedRanks: number[];
+  savingRank?: number | null;
+}
+
+const SCORE_LABELS: Array<[keyof GenerationVariant['scores'], string]> = [
+  ['typescript', 'TS'],
+  ['safety', 'Safety'],
+  ['accessibility', 'A11y'],
+  ['intent', 'Intent'],
+];
+
+function formatScore(score: number): string {
+  return `${Math.round(score * 100)}%`;
+}
+
+function scoreColor(score: number): 'success' | 'warning' | 'error' {
+  if (score >= 0.8) return 'success';
+  if (score >= 0.5) return 'warning';
+  return 'error';
+}
+
+function issueSummary(variant: GenerationVariant): string {
+  const { diagnostics } = variant;
+  const issues = [
+    ...diagnostics.typescriptErrors,
+    ...diagnostics.safetyViolations,
+    ...diagnostics.forbiddenImports.map(name => `Forbidden import: ${name}`),
+    ...diagnostics.accessibilityWarnings,
+  ];
+
+  return issues.length > 0 ? issues.join('\n') : 'No issues found';
+}
+
+export function ComponentVariants({
+  variants,
+  selectedRank,
+  onSelect,
+  onSave,
+  savedRanks,
+  savingRank,
+}: ComponentVariantsProps) {
+  return (
+    <Box>
+      <Typography variant='subtitle2' gutterBottom>
+        Ranked Variants
+      </Typography>
+      <List dense disablePadding>
+        {variants.map(variant => {
+          const isSaved = savedRanks.includes(variant.rank);
+
+          return (
+            <ListItem
+              key={variant.rank}
+              disablePadding
+              secondaryAction={
+                isSaved ? (
+                  <Chip label='Saved' size='small' color='primary' />
+                ) : (
+                  <Button
+                    size='small'
+                    startIcon={<SaveIcon />}
+                    onClick={() => onSave(variant)}
+                    disabled={savingRank === variant.rank}
+                  >
+                    Save
+                  </Button>
+                )
+              }
+            >
+              <ListItemButton
+                selected={variant.rank === selectedRank}
+                onClick={() => onSelect(variant)}
+                sx={{ pr: 12 }}
+              >
+                <ListItemText
+                  primary={
+                    <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                      <Chip label={`#${variant.rank}`} size='small' />
+                      <Typography variant='body2' noWrap>
+                        {variant.component.componentName}
+                      </Typography>
+                      <Typography variant='caption' color='text.secondary'>
+                        {variant.component.componentType}
+                        {variant.temperature !== undefined &&
+                          ` · t=${variant.temperature}`}
+                      </Typography>
+                    </Box>
+                  }
+                  secondary={
+                    <Tooltip
+                      title={
+                        <span style={{ whiteSpace: 'pre-line' }}>
+                          {issueSummary(variant)}
+                        </span>
+                      }
+                    >
+                      <Box
+                        component='span'
+                        sx={{ display: 'flex', gap: 0.5, mt: 0.5 }}
+                      >
+                        <Chip
+                          label={`Score ${formatScore(variant.scores.total)}`}
+                          size='small'
+                          color={scoreColor(variant.scores.total)}
+                        />
+                        {SCORE_LABELS.map(([key, label]) => (
+                          <Chip
+                            key={key}
+                            label={`${label} ${formatScore(variant.scores[key])}`}
+                            size='small'
+                            variant='outlined'
+                            color={scoreColor(variant.scores[key])}
+                          />
+                        ))}
+                      </Box>
+                    </Tooltip>
+                  }
+                  secondaryTypographyProps={{ component: 'span' }}
+                />
+              </ListItemButton>
+            </ListItem>
+          );
+        })}
+      </List>
+    </Box>
+  );
+}
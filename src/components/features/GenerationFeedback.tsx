@@ -0,0 +1,204 @@
+'use client';
+
+import { useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  IconButton,
+  MenuItem,
+  TextField,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+import {
+  ThumbDown as ThumbDownIcon,
+  ThumbDownOutlined as ThumbDownOutlinedIcon,
+  ThumbUp as ThumbUpIcon,
+  ThumbUpOutlined as ThumbUpOutlinedIcon,
+} from '@mui/icons-material';
+import { ComponentType } from '@/types';
+import type { GenerationFeedbackIssue } from '@/types/generation';
+
+export interface GenerationFeedbackValue {
+  rating: 'up' | 'down';
+  issues: GenerationFeedbackIssue[];
+  expectedType?: ComponentType;
+  comment?: string;
+}
+
+interface GenerationFeedbackProps {
+  onSubmit: (feedback: GenerationFeedbackValue) => Promise<void>;
+}
+
+const ISSUE_LABELS: Array<[GenerationFeedbackIssue, string]> = [
+  ['wrong_type', 'Wrong component type'],
+  ['does_not_compile', "Doesn't compile"],
+  ['inaccessible', 'Inaccessible'],
+];
+
+// Rating of the last generated component; remount it for a new generation
+export function GenerationFeedback({ onSubmit }: GenerationFeedbackProps) {
+  const [rating, setRating] = useState<'up' | 'down' | null>(null);
+  const [issues, setIssues] = useState<GenerationFeedbackIssue[]>([]);
+  const [expectedType, setExpectedType] = useState<ComponentType | ''>('');
+  const [comment, setComment] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [submitted, setSubmitted] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const toggleIssue = (issue: GenerationFeedbackIssue) => {
+    setSubmitted(false);
+    setIssues(prev =>
+      prev.includes(issue)
+        ? prev.filter(value => value !== issue)
+        : [...prev, issue]
+    );
+  };
+
+  const submit = async (value: GenerationFeedbackValue) => {
+    setSubmitting(true);
+    setError(null);
+
+    try {
+      await onSubmit(value);
+      setSubmitted(true);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Feedback failed');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  // Thumbs up is sent right away; thumbs down waits for the details
+  const handleRate = (value: 'up' | 'down') => {
+    setRating(value);
+    setSubmitted(false);
+    if (value === 'up') {
+      setIssues([]);
+      submit({ rating: 'up', issues: [] });
+    }
+  };
+
+  const handleSubmitDetails = () => {
+    const wrongType = issues.includes('wrong_type');
+    submit({
+      rating: 'down',
+      issues,
+      expectedType: wrongType && expectedType ? expectedType : undefined,
+      comment: comment.trim() || undefined,
+    });
+  };
+
+  return (
+    <Box>
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+        <Typography variant='subtitle2'>Was this what you wanted?</Typography>
+        <Tooltip title='Yes'>
+          <span>
+            <IconButton
+              size='small'
+              color={rating === 'up' ? 'success' : 'default'}
+              onClick={() => handleRate('up')}
+              disabled={submitting}
+              aria-label='Rate good'
+            >
+              {rating === 'up' ? <ThumbUpIcon /> : <ThumbUpOutlinedIcon />}
+            </IconButton>
+          </span>
+        </Tooltip>
+        <Tooltip title='No'>
+          <span>
+            <IconButton
+              size='small'
+              color={rating === 'down' ? 'error' : 'default'}
+              onClick={() => handleRate('down')}
+              disabled={submitting}
+              aria-label='Rate bad'
+            >
+              {rating === 'down' ? (
+                <ThumbDownIcon />
+              ) : (
+                <ThumbDownOutlinedIcon />
+              )}
+            </IconButton>
+          </span>
+        </Tooltip>
+        {submitted && (
+          <Typography variant='body2' color='text.secondary'>
+            Thanks for the feedback
+          </Typography>
+        )}
+      </Box>
+
+      {rating === 'down' && (
+        <Box sx={{ mt: 1 }}>
+          <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 1, mb: 1 }}>
+            {ISSUE_LABELS.map(([issue, label]) => (
+              <Chip
+                key={issue}
+                label={label}
+                size='small'
+                color={issues.includes(issue) ? 'primary' : 'default'}
+                variant={issues.includes(issue) ? 'filled' : 'outlined'}
+                onClick={() => toggleIssue(issue)}
+              />
+            ))}
+          </Box>
+
+          {issues.includes('wrong_type') && (
+            <TextField
+              select
+              fullWidth
+              size='small'
+              label='Component type you expected'
+              value={expectedType}
+              onChange={e => {
+                setSubmitted(false);
+                setExpectedType(e.target.value as ComponentType);
+              }}
+              sx={{ mb: 1 }}
+            >
+              {Object.values(ComponentType).map(type => (
+                <MenuItem key={type} value={type}>
+                  {type.replace('MUI', 'MUI ')}
+                </MenuItem>
+              ))}
+            </TextField>
+          )}
+
+          <TextField
+            fullWidth
+            multiline
+            minRows={2}
+            size='small'
+            label='Comment (optional)'
+            value={comment}
+            onChange={e => {
+              setSubmitted(false);
+              setComment(e.target.value);
+            }}
+            inputProps={{ maxLength: 1000 }}
+            sx={{ mb: 1 }}
+          />
+
+          <Button
+            size='small'
+            variant='outlined'
+            onClick={handleSubmitDetails}
+            disabled={submitting}
+          >
+            Send feedback
+          </Button>
+        </Box>
+      )}
+
+      {error && (
+        <Alert severity='error' onClose={() => setError(null)} sx={{ mt: 1 }}>
+          {error}
+        </Alert>
+      )}
+    </Box>
+  );
+}
@@ -0,0 +1,361 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Card,
+  CardContent,
+  CircularProgress,
+  Grid,
+  LinearProgress,
+  MenuItem,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  TextField,
+  Typography,
+} from '@mui/material';
+import type {
+  GenerationMetrics,
+  GenerationMetricsBucket,
+} from '@/types/generation';
+
+const RANGES = [7, 30, 90];
+
+const percent = (rate: number) => `${Math.round(rate * 100)}%`;
+const seconds = (ms: number) => `${(ms / 1000).toFixed(1)}s`;
+
+interface TrendChartProps {
+  title: string;
+  points: Array<{ date: string; value: number }>;
+  // Top of the y axis; the largest value when not given
+  max?: number;
+  format: (value: number) => string;
+}
+
+// Line over the days that had jobs
+function TrendChart({ title, points, max, format }: TrendChartProps) {
+  const top = max ?? Math.max(...points.map(point => point.value), 1);
+  const x = (index: number) =>
+    points.length > 1 ? (index / (points.length - 1)) * 100 : 50;
+  const y = (value: number) => 38 - (value / top) * 36;
+  const last = points.at(-1);
+
+  return (
+    <Card variant='outlined'>
+      <CardContent>
+        <Box sx={{ display: 'flex', justifyContent: 'space-between', mb: 1 }}>
+          <Typography variant='subtitle2'>{title}</Typography>
+          {last && (
+            <Typography variant='subtitle2' color='text.secondary'>
+              {format(last.value)} on {last.date}
+            </Typography>
+          )}
+        </Box>
+        {points.length === 0 ? (
+          <Typography variant='body2' color='text.secondary'>
+            No finished jobs in this range
+          </Typography>
+        ) : (
+          <svg
+            viewBox='0 0 100 40'
+            preserveAspectRatio='none'
+            width='100%'
+            height={120}
+            role='img'
+            aria-label={title}
+          >
+            <polyline
+              points={points
+                .map((point, index) => `${x(index)},${y(point.value)}`)
+                .join(' ')}
+              fill='none'
+              stroke='#1976d2'
+              strokeWidth={1}
+              vectorEffect='non-scaling-stroke'
+            />
+            {points.map((point, index) => (
+              <circle
+                key={point.date}
+                cx={x(index)}
+                cy={y(point.value)}
+                r={0.8}
+                fill='#1976d2'
+              >
+                <title>{`${point.date}: ${format(point.value)}`}</title>
+              </circle>
+            ))}
+          </svg>
+        )}
+        {points.length > 0 && (
+          <Box sx={{ display: 'flex', justifyContent: 'space-between' }}>
+            <Typography variant='caption' color='text.secondary'>
+              {points[0].date}
+            </Typography>
+            <Typography variant='caption' color='text.secondary'>
+              {last?.date}
+            </Typography>
+          </Box>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function Breakdown({
+  title,
+  items,
+}: {
+  title: string;
+  items: Array<{ label: string; count: number; percentage: number }>;
+}) {
+  return (
+    <Card variant='outlined' sx={{ height: '100%' }}>
+      <CardContent>
+        <Typography variant='subtitle2' gutterBottom>
+          {title}
+        </Typography>
+        {items.length === 0 && (
+          <Typography variant='body2' color='text.secondary'>
+            None
+          </Typography>
+        )}
+        {items.map(item => (
+          <Box key={item.label} sx={{ mb: 1 }}>
+            <Box sx={{ display: 'flex', justifyContent: 'space-between' }}>
+              <Typography variant='body2'>{item.label}</Typography>
+              <Typography variant='body2' color='text.secondary'>
+                {item.count} ({item.percentage}%)
+              </Typography>
+            </Box>
+            <LinearProgress variant='determinate' value={item.percentage} />
+          </Box>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
+
+function BucketTable({
+  title,
+  rows,
+}: {
+  title: string;
+  rows: Array<GenerationMetricsBucket & { label: string }>;
+}) {
+  return (
+    <Card variant='outlined'>
+      <CardContent>
+        <Typography variant='subtitle2' gutterBottom>
+          {title}
+        </Typography>
+        <Table size='small'>
+          <TableHead>
+            <TableRow>
+              <TableCell />
+              <TableCell align='right'>Jobs</TableCell>
+              <TableCell align='right'>Success</TableCell>
+              <TableCell align='right'>Avg time</TableCell>
+              <TableCell align='right'>Intent match</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {rows.map(row => (
+              <TableRow key={row.label}>
+                <TableCell>{row.label}</TableCell>
+                <TableCell align='right'>{row.totalGenerations}</TableCell>
+                <TableCell align='right'>{percent(row.successRate)}</TableCell>
+                <TableCell align='right'>
+                  {seconds(row.averageProcessingTime)}
+                </TableCell>
+                <TableCell align='right'>
+                  {row.intentMatchingAccuracy !== undefined
+                    ? percent(row.intentMatchingAccuracy)
+                    : '—'}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+}
+
+// Generation quality over time, for admins comparing prompt and model changes
+export function GenerationMetricsPanel() {
+  const [days, setDays] = useState(30);
+  const [metrics, setMetrics] = useState<GenerationMetrics | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadMetrics = async () => {
+      setLoading(true);
+      setError(null);
+
+      try {
+        const from = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+        const response = await fetch(
+          `/api/admin/metrics?from=${encodeURIComponent(from.toISOString())}`
+        );
+        const data = await response.json();
+
+        if (!response.ok || !data.success) {
+          throw new Error(data.error?.message || 'Failed to load metrics');
+        }
+        setMetrics(data.data.metrics);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Unknown error');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadMetrics();
+  }, [days]);
+
+  const summary = metrics
+    ? [
+        { label: 'Generations', value: String(metrics.totalGenerations) },
+        { label: 'Success rate', value: percent(metrics.successRate) },
+        {
+          label: 'Avg processing time',
+          value: seconds(metrics.averageProcessingTime),
+        },
+        // Both only once users have rated generations in this range
+        ...(metrics.intentMatchingAccuracy !== undefined
+          ? [
+              {
+                label: 'Intent match',
+                value: percent(metrics.intentMatchingAccuracy),
+              },
+            ]
+          : []),
+        ...(metrics.userSatisfactionScore !== undefined
+          ? [
+              {
+                label: 'User satisfaction',
+                value: percent(metrics.userSatisfactionScore),
+              },
+            ]
+          : []),
+      ]
+    : [];
+
+  return (
+    <Card sx={{ mb: 4 }}>
+      <CardContent>
+        <Box
+          sx={{
+            display: 'flex',
+            justifyContent: 'space-between',
+            alignItems: 'center',
+            mb: 2,
+          }}
+        >
+          <Typography variant='h6'>Generation Quality</Typography>
+          <TextField
+            select
+            size='small'
+            label='Range'
+            value={days}
+            onChange={event => setDays(Number(event.target.value))}
+          >
+            {RANGES.map(range => (
+              <MenuItem key={range} value={range}>
+                Last {range} days
+              </MenuItem>
+            ))}
+          </TextField>
+        </Box>
+
+        {error && <Alert severity='error'>{error}</Alert>}
+
+        {loading ? (
+          <Box sx={{ display: 'flex', justifyContent: 'center', py: 4 }}>
+            <CircularProgress />
+          </Box>
+        ) : (
+          metrics && (
+            <Grid container spacing={2}>
+              {summary.map(item => (
+                <Grid item xs={6} md={3} key={item.label}>
+                  <Typography variant='h5'>{item.value}</Typography>
+                  <Typography variant='body2' color='text.secondary'>
+                    {item.label}
+                  </Typography>
+                </Grid>
+              ))}
+
+              <Grid item xs={12} md={6}>
+                <TrendChart
+                  title='Success rate per day'
+                  points={metrics.timeline.map(bucket => ({
+                    date: bucket.date,
+                    value: bucket.successRate,
+                  }))}
+                  max={1}
+                  format={percent}
+                />
+              </Grid>
+              <Grid item xs={12} md={6}>
+                <TrendChart
+                  title='Average processing time per day'
+                  points={metrics.timeline.map(bucket => ({
+                    date: bucket.date,
+                    value: bucket.averageProcessingTime,
+                  }))}
+                  format={seconds}
+                />
+              </Grid>
+
+              <Grid item xs={12} md={6}>
+                <Breakdown
+                  title='Popular component types'
+                  items={metrics.popularComponentTypes.map(item => ({
+                    label: item.type,
+                    count: item.count,
+                    percentage: item.percentage,
+                  }))}
+                />
+              </Grid>
+              <Grid item xs={12} md={6}>
+                <Breakdown
+                  title='Errors'
+                  items={metrics.errorBreakdown.map(item => ({
+                    label: item.type,
+                    count: item.count,
+                    percentage: item.percentage,
+                  }))}
+                />
+              </Grid>
+
+              <Grid item xs={12} md={6}>
+                <BucketTable
+                  title='By prompt version'
+                  rows={metrics.byPromptVersion.map(bucket => ({
+                    ...bucket,
+                    label: bucket.promptVersion,
+                  }))}
+                />
+              </Grid>
+              <Grid item xs={12} md={6}>
+                <BucketTable
+                  title='By model'
+                  rows={metrics.byModel.map(bucket => ({
+                    ...bucket,
+                    label: `${bucket.provider} / ${bucket.model}`,
+                  }))}
+                />
+              </Grid>
+            </Grid>
+          )
+        )}
+      </CardContent>
+    </Card>
+  );
+}
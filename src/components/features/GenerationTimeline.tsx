@@ -0,0 +1,120 @@
+'use client';
+
+import type { ReactElement } from 'react';
+import { Box, LinearProgress, Typography } from '@mui/material';
+import {
+  CheckCircle as CompletedIcon,
+  Error as FailedIcon,
+  RadioButtonUnchecked as StartedIcon,
+  RemoveCircleOutline as SkippedIcon,
+} from '@mui/icons-material';
+import type { GenerationProgressEvent } from '@/types/generation';
+
+interface GenerationTimelineProps {
+  // Oldest first, as recorded on the job
+  events: GenerationProgressEvent[];
+}
+
+const STEP_LABELS: Record<string, string> = {
+  analyzing: 'Analyzing prompt',
+  generating: 'Generating code',
+  validating: 'Validating',
+  repairing: 'Repairing',
+  naming: 'Naming',
+  saving: 'Saving',
+};
+
+const STATE_ICONS: Record<GenerationProgressEvent['state'], ReactElement> = {
+  started: <StartedIcon fontSize='small' color='primary' />,
+  completed: <CompletedIcon fontSize='small' color='success' />,
+  skipped: <SkippedIcon fontSize='small' color='disabled' />,
+  failed: <FailedIcon fontSize='small' color='error' />,
+  cancelled: <SkippedIcon fontSize='small' color='warning' />,
+};
+
+interface TimelineEntry {
+  step: string;
+  state: GenerationProgressEvent['state'];
+  startedAt: number;
+  endedAt?: number;
+  detail?: string;
+}
+
+// Pairs each step's start with its end; each repair round is its own entry
+function toEntries(events: GenerationProgressEvent[]): TimelineEntry[] {
+  const entries: TimelineEntry[] = [];
+
+  for (const event of events) {
+    const at = new Date(event.at).getTime();
+
+    // Repair rounds only report their start; the next event ends them
+    const repair = entries.at(-1);
+    if (repair?.step === 'repairing' && repair.state === 'started') {
+      repair.state = 'completed';
+      repair.endedAt = at;
+    }
+
+    const open = entries.findLast(
+      entry => entry.step === event.step && entry.state === 'started'
+    );
+
+    if (event.state === 'started' || !open) {
+      entries.push({
+        step: event.step,
+        state: event.state,
+        startedAt: at,
+        detail: event.detail,
+      });
+    } else {
+      open.state = event.state;
+      open.endedAt = at;
+      open.detail = event.detail ?? open.detail;
+    }
+  }
+
+  return entries;
+}
+
+function formatSeconds(ms: number): string {
+  return `${(ms / 1000).toFixed(1)}s`;
+}
+
+export function GenerationTimeline({ events }: GenerationTimelineProps) {
+  if (events.length === 0) return null;
+
+  const entries = toEntries(events);
+  const firstAt = entries[0].startedAt;
+  const percent = events[events.length - 1].percent;
+
+  return (
+    <Box>
+      <LinearProgress variant='determinate' value={percent} sx={{ mb: 1 }} />
+      {entries.map((entry, index) => (
+        <Box
+          key={index}
+          sx={{ display: 'flex', alignItems: 'center', gap: 1, py: 0.25 }}
+        >
+          {STATE_ICONS[entry.state]}
+          <Typography variant='body2' sx={{ flexGrow: 1 }} noWrap>
+            {STEP_LABELS[entry.step] ?? entry.step}
+            {entry.detail && (
+              <Typography
+                component='span'
+                variant='caption'
+                color='text.secondary'
+                sx={{ ml: 1 }}
+              >
+                {entry.detail}
+              </Typography>
+            )}
+          </Typography>
+          <Typography variant='caption' color='text.secondary'>
+            {entry.endedAt
+              ? formatSeconds(entry.endedAt - entry.startedAt)
+              : `+${formatSeconds(entry.startedAt - firstAt)}`}
+          </Typography>
+        </Box>
+      ))}
+    </Box>
+  );
+}
@@ -0,0 +1,69 @@
+'use client';
+
+import { DiffEditor } from '@monaco-editor/react';
+import { Box, CircularProgress } from '@mui/material';
+import { useTheme } from '@/components/ThemeRegistry';
+
+interface CodeDiffProps {
+  original: string;
+  modified: string;
+  language?: string;
+  theme?: 'light' | 'dark';
+  height?: string | number;
+  // Side-by-side columns instead of a single inline column
+  sideBySide?: boolean;
+}
+
+export function CodeDiff({
+  original,
+  modified,
+  language = 'typescript',
+  theme,
+  height = '300px',
+  sideBySide = false,
+}: CodeDiffProps) {
+  const { actualMode } = useTheme();
+  const editorTheme = theme || actualMode;
+
+  return (
+    <Box
+      sx={{
+        height,
+        border: 1,
+        borderColor: 'divider',
+        borderRadius: 1,
+        overflow: 'hidden',
+      }}
+    >
+      <DiffEditor
+        height={height}
+        language={language}
+        theme={editorTheme === 'dark' ? 'vs-dark' : 'light'}
+        original={original}
+        modified={modified}
+        options={{
+          readOnly: true,
+          renderSideBySide: sideBySide,
+          minimap: { enabled: false },
+          fontSize: 13,
+          scrollBeyondLastLine: false,
+          automaticLayout: true,
+          // Collapse long runs of unchanged lines
+          hideUnchangedRegions: { enabled: true },
+        }}
+        loading={
+          <Box
+            sx={{
+              display: 'flex',
+              alignItems: 'center',
+              justifyContent: 'center',
+              height: '100%',
+            }}
+          >
+            <CircularProgress size={24} />
+          </Box>
+        }
+      />
+    </Box>
+  );
+}
@@ -1,11 +1,21 @@
 'use client';
 
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useRef } from 'react';
 import { API } from '@/types/api';
+import type {
+  GenerationFeedbackIssue,
+  GenerationProgressEvent,
+  GenerationVariant,
+} from '@/types/generation';
 
 interface GenerateComponentRequest {
   prompt: string;
   preferredType?: string;
+  provider?: string;
+  model?: string;
+  bypassCache?: boolean;
+  // Generate and rank this many variants (1-5)
+  candidateCount?: number;
   options?: {
     theme?: 'light' | 'dark';
     typescript?: boolean;
@@ -22,30 +32,67 @@ interface GeneratedComponent {
   examples?: string[];
 }
 
+interface GenerationFeedbackRequest {
+  rating: 'up' | 'down';
+  issues?: GenerationFeedbackIssue[];
+  // With a wrong_type issue: the type that was wanted
+  expectedType?: string;
+  comment?: string;
+}
+
 export function useComponentGeneration() {
   const [generatedComponent, setGeneratedComponent] =
     useState<GeneratedComponent | null>(null);
   const [isGenerating, setIsGenerating] = useState(false);
+  const [streamingCode, setStreamingCode] = useState('');
+  // Ranked best first; empty unless several variants were requested
+  const [variants, setVariants] = useState<GenerationVariant[]>([]);
   const [error, setError] = useState<string | null>(null);
+  // Step timeline of the generation in progress (or last finished)
+  const [progressEvents, setProgressEvents] = useState<
+    GenerationProgressEvent[]
+  >([]);
+  // Job being generated, for cancelGeneration
+  const jobIdRef = useRef<string | null>(null);
+  // Job that produced generatedComponent, for submitFeedback
+  const [lastJobId, setLastJobId] = useState<string | null>(null);
+  // Idempotency-Key of a request that may have created a job; the same
+  // request again (double-click, retry after a network error) reuses it
+  const idempotencyRef = useRef<{ body: string; key: string } | null>(null);
 
   const generateComponent = useCallback(
     async (request: GenerateComponentRequest) => {
       setIsGenerating(true);
+      setLastJobId(null);
+      setVariants([]);
+      setProgressEvents([]);
       setError(null);
+      let answered = false;
 
       try {
         // Step 1: Start generation job
+        const body = JSON.stringify({
+          prompt: request.prompt,
+          preferredType: request.preferredType,
+          provider: request.provider,
+          model: request.model,
+          bypassCache: request.bypassCache,
+          candidateCount: request.candidateCount,
+          options: request.options,
+        });
+        if (idempotencyRef.current?.body !== body) {
+          idempotencyRef.current = { body, key: crypto.randomUUID() };
+        }
+
         const response = await fetch('/api/generate', {
           method: 'POST',
           headers: {
             'Content-Type': 'application/json',
+            'Idempotency-Key': idempotencyRef.current.key,
           },
-          body: JSON.stringify({
-            prompt: request.prompt,
-            preferredType: request.preferredType,
-            options: request.options,
-          }),
+          body,
         });
+        answered = true;
 
         const data = await response.json();
 
@@ -59,8 +106,12 @@ export function useComponentGeneration() {
 
         // Step 2: Poll for job completion
         const jobId = data.data.jobId || data.data.component.id; // Get job ID from response
+        jobIdRef.current = jobId;
 
-        const pollJob = async (): Promise<GeneratedComponent> => {
+        const pollJob = async (): Promise<{
+          component: GeneratedComponent;
+          variants?: GenerationVariant[];
+        }> => {
           const jobResponse = await fetch(`/api/jobs/${jobId}`);
           const jobData = await jobResponse.json();
 
@@ -77,18 +128,26 @@ export function useComponentGeneration() {
           }
 
           const job = jobData.data.job;
+          setProgressEvents(job.events ?? []);
 
           if (
             (job.status === 'SUCCESS' || job.status === 'COMPLETED') &&
             jobData.data.component
           ) {
             // Job completed successfully
-            return jobData.data.component;
-          } else if (job.status === 'FAILED') {
-            // Job failed
+            return jobData.data;
+          } else if (
+            job.status === 'FAILED' ||
+            job.status === 'PARTIAL' ||
+            job.status === 'TIMEOUT' ||
+            job.status === 'RATE_LIMITED'
+          ) {
+            // Job ended without a component
             throw new Error(
               job.error?.message || 'Component generation failed'
             );
+          } else if (job.status === 'CANCELLED') {
+            throw new Error('Generation was cancelled');
           } else if (job.status === 'SUCCESS' || job.status === 'COMPLETED') {
             // Job completed but no component data - this shouldn't happen
             throw new Error(
@@ -101,18 +160,131 @@ export function useComponentGeneration() {
           }
         };
 
-        const component = await pollJob();
+        const result = await pollJob();
+        setGeneratedComponent(result.component);
+        setVariants(result.variants ?? []);
+        setLastJobId(jobId);
+      } catch (err) {
+        console.error('Generation error:', err);
+        setError(err instanceof Error ? err.message : 'Unknown error occurred');
+      } finally {
+        // Once the server has answered, generating again is a new request
+        if (answered) {
+          idempotencyRef.current = null;
+        }
+        jobIdRef.current = null;
+        setIsGenerating(false);
+      }
+    },
+    []
+  );
+
+  const generateComponentStream = useCallback(
+    async (request: GenerateComponentRequest) => {
+      setIsGenerating(true);
+      setLastJobId(null);
+      setStreamingCode('');
+      setVariants([]);
+      setProgressEvents([]);
+      setError(null);
+
+      try {
+        const response = await fetch('/api/generate/stream', {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({
+            prompt: request.prompt,
+            preferredType: request.preferredType,
+            provider: request.provider,
+            model: request.model,
+            bypassCache: request.bypassCache,
+            candidateCount: request.candidateCount,
+            options: request.options,
+          }),
+        });
+
+        if (!response.ok || !response.body) {
+          const data = await response.json().catch(() => null);
+          throw new Error(data?.error?.message || 'Generation failed');
+        }
+
+        const reader = response.body.getReader();
+        const decoder = new TextDecoder();
+        let buffer = '';
+        let component: GeneratedComponent | null = null;
+        let streamError: string | null = null;
+
+        // Server-Sent Events: blocks separated by a blank line
+        const handleEvent = (block: string) => {
+          const event = block.match(/^event: (.*)$/m)?.[1];
+          const data = block.match(/^data: (.*)$/m)?.[1];
+          if (!event || !data) return;
+
+          const payload = JSON.parse(data);
+          if (event === 'job') {
+            jobIdRef.current = payload.jobId;
+          } else if (event === 'progress') {
+            setProgressEvents(prev => [...prev, payload]);
+          } else if (event === 'chunk') {
+            setStreamingCode(prev => prev + payload.code);
+          } else if (event === 'reset') {
+            setStreamingCode('');
+          } else if (event === 'complete') {
+            component = payload.component;
+            setVariants(payload.variants ?? []);
+          } else if (event === 'cancelled') {
+            streamError = 'Generation was cancelled';
+          } else if (event === 'error') {
+            streamError = payload.message;
+          }
+        };
+
+        while (true) {
+          const { done, value } = await reader.read();
+          if (done) break;
+
+          buffer += decoder.decode(value, { stream: true });
+          const blocks = buffer.split('\n\n');
+          buffer = blocks.pop() ?? '';
+          blocks.forEach(handleEvent);
+        }
+
+        if (streamError) {
+          throw new Error(streamError);
+        }
+        if (!component) {
+          throw new Error(
+            'Job completed successfully but no component data was returned'
+          );
+        }
+
         setGeneratedComponent(component);
+        setLastJobId(jobIdRef.current);
       } catch (err) {
         console.error('Generation error:', err);
         setError(err instanceof Error ? err.message : 'Unknown error occurred');
       } finally {
+        jobIdRef.current = null;
         setIsGenerating(false);
       }
     },
     []
   );
 
+  // The generation in progress ends with a "cancelled" error
+  const cancelGeneration = useCallback(async () => {
+    const jobId = jobIdRef.current;
+    if (!jobId) return;
+
+    const response = await fetch(`/api/jobs/${jobId}`, { method: 'DELETE' });
+    if (!response.ok) {
+      const data = await response.json().catch(() => null);
+      setError(data?.error?.message || 'Cancel failed');
+    }
+  }, []);
+
   const validateComponent = useCallback(
     async (code: string, componentType: string) => {
       try {
@@ -181,22 +353,57 @@ export function useComponentGeneration() {
     []
   );
 
+  // Rates the last generated component; rating again replaces the rating
+  const submitFeedback = useCallback(
+    async (feedback: GenerationFeedbackRequest) => {
+      if (!lastJobId) {
+        throw new Error('No generation to rate');
+      }
+
+      const response = await fetch(`/api/jobs/${lastJobId}/feedback`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(feedback),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error?.message || 'Feedback failed');
+      }
+    },
+    [lastJobId]
+  );
+
   const clearError = useCallback(() => {
     setError(null);
   }, []);
 
   const clearComponent = useCallback(() => {
     setGeneratedComponent(null);
+    setLastJobId(null);
+    setStreamingCode('');
+    setVariants([]);
+    setProgressEvents([]);
     setError(null);
   }, []);
 
   return {
     generatedComponent,
     isGenerating,
+    streamingCode,
+    variants,
+    progressEvents,
+    lastJobId,
     error,
     generateComponent,
+    generateComponentStream,
+    cancelGeneration,
     validateComponent,
     saveComponent,
+    submitFeedback,
     clearError,
     clearComponent,
   };
@@ -0,0 +1,112 @@
+'use client';
+
+import { useState, useCallback, useEffect } from 'react';
+
+export interface RefinementTurn {
+  id: string;
+  turn: number;
+  instruction: string;
+  previousCode: string;
+  code: string;
+  version: string;
+  createdAt: string;
+}
+
+interface RefinedComponent {
+  id: string;
+  name: string;
+  type: string;
+  code: string;
+  previewContent?: string;
+  version: string;
+}
+
+export function useComponentRefinement(componentId: string | null) {
+  const [turns, setTurns] = useState<RefinementTurn[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isRefining, setIsRefining] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadThread = useCallback(async () => {
+    if (!componentId) return;
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch(
+        `/api/components/${componentId}/refinements`
+      );
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(
+          data.error?.message || 'Failed to load refinement thread'
+        );
+      }
+
+      setTurns(data.data.turns);
+    } catch (err) {
+      console.error('Load refinements error:', err);
+      setError(err instanceof Error ? err.message : 'Unknown error occurred');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [componentId]);
+
+  useEffect(() => {
+    setTurns([]);
+    loadThread();
+  }, [loadThread]);
+
+  const refine = useCallback(
+    async (instruction: string): Promise<RefinedComponent | null> => {
+      if (!componentId) return null;
+
+      setIsRefining(true);
+      setError(null);
+
+      try {
+        const response = await fetch(
+          `/api/components/${componentId}/refinements`,
+          {
+            method: 'POST',
+            headers: {
+              'Content-Type': 'application/json',
+            },
+            body: JSON.stringify({ instruction }),
+          }
+        );
+        const data = await response.json();
+
+        if (!response.ok || !data.success) {
+          throw new Error(data.error?.message || 'Refinement failed');
+        }
+
+        setTurns(prev => [...prev, data.data.turn]);
+        return data.data.component;
+      } catch (err) {
+        console.error('Refinement error:', err);
+        setError(err instanceof Error ? err.message : 'Unknown error occurred');
+        return null;
+      } finally {
+        setIsRefining(false);
+      }
+    },
+    [componentId]
+  );
+
+  const clearError = useCallback(() => {
+    setError(null);
+  }, []);
+
+  return {
+    turns,
+    isLoading,
+    isRefining,
+    error,
+    refine,
+    reload: loadThread,
+    clearError,
+  };
+}
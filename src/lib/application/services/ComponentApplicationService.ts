@@ -1,6 +1,12 @@
 import { Component } from '../../domain/entities/Component';
 import { IComponentRepository } from '../../domain/repositories/IComponentRepository';
-import { ComponentGenerationService } from '../../domain/services/ComponentGenerationService';
+import { GenerationJobQuery } from '../../domain/repositories/IGenerationJobRepository';
+import {
+  ComponentGenerationService,
+  LLMStreamChunk,
+  PromptRejectedError,
+} from '../../domain/services/ComponentGenerationService';
+import { GenerationJob as GenerationJobEntity } from '../../domain/entities/GenerationJob';
 import {
   GenerationRequest,
   ComponentSearchOptions,
@@ -8,8 +14,10 @@ import {
   ExportOptions,
   ValidationResult,
   GenerationJob,
+  GenerationProgressEvent,
 } from '@/types';
 import { ApiError, ApiErrorCode } from '@/types/api';
+import { analyzeComponent } from '../../core/analysis/ComponentAnalyzer';
 
 export class ComponentApplicationService {
   constructor(
@@ -20,7 +28,8 @@ export class ComponentApplicationService {
   // Component Generation
   public async generateComponent(
     request: GenerationRequest,
-    userId?: string
+    userId?: string,
+    options: { bypassCache?: boolean; idempotencyKey?: string } = {}
   ): Promise<{
     jobId: string;
     estimatedTime: number;
@@ -37,7 +46,9 @@ export class ComponentApplicationService {
 
       const job = await this.generationService.generateComponent(
         request,
-        userId
+        userId,
+        { bypassCache: options.bypassCache },
+        { idempotencyKey: options.idempotencyKey }
       );
 
       console.log('ApplicationService: Job created successfully:', job.id);
@@ -48,6 +59,12 @@ export class ComponentApplicationService {
       };
     } catch (error) {
       console.error('ApplicationService: Error in generateComponent:', error);
+      if (error instanceof PromptRejectedError) {
+        throw new ApiError(ApiErrorCode.PROMPT_REJECTED, error.message, 422, {
+          jobId: error.jobId,
+          findings: error.decision.findings,
+        });
+      }
       throw new ApiError(
         ApiErrorCode.LLM_ERROR,
         'Failed to start component generation',
@@ -57,6 +74,44 @@ export class ComponentApplicationService {
     }
   }
 
+  /**
+   * Runs a generation inline, forwarding partial output as the LLM produces
+   * it. Resolves with the finished job (successful or failed).
+   */
+  public async generateComponentStream(
+    request: GenerationRequest,
+    userId: string | undefined,
+    handlers: {
+      onJobCreated?: (jobId: string) => void;
+      onChunk: (chunk: LLMStreamChunk) => void;
+      onProgress?: (event: GenerationProgressEvent) => void;
+      bypassCache?: boolean;
+      // Cancels the job when aborted, e.g. on client disconnect
+      signal?: AbortSignal;
+    }
+  ): Promise<GenerationJobEntity> {
+    // Created claimed: a worker polling the same database must not pick up
+    // the job this request is streaming
+    const job = await this.generationService.createJob(request, userId, {
+      claimed: true,
+    });
+    handlers.onJobCreated?.(job.id);
+
+    try {
+      await this.generationService.processClaimedJob(job, userId, {
+        onChunk: handlers.onChunk,
+        onProgress: handlers.onProgress,
+        bypassCache: handlers.bypassCache,
+        signal: handlers.signal,
+      });
+    } catch (error) {
+      // The failure is recorded on the job; the caller reports it from there
+      console.error('ApplicationService: Streamed generation failed:', error);
+    }
+
+    return (await this.generationService.getJobStatus(job.id)) ?? job;
+  }
+
   public async getGenerationStatus(jobId: string): Promise<{
     status: string;
     progress: number;
@@ -187,17 +242,29 @@ export class ComponentApplicationService {
       }
     }
 
+    // Edited code is measured again
+    const code = updates.code || component.code;
+    const metadata =
+      component.metadata && code !== component.code
+        ? {
+            ...component.metadata,
+            ...analyzeComponent(code),
+            estimatedLines: code.split('\n').length,
+            lastModified: new Date(),
+          }
+        : component.metadata;
+
     // Apply updates
     const updatedComponent = new Component(
       component.id,
       updates.name || component.name,
       component.type,
-      updates.code || component.code,
+      code,
       component.propsSchema,
       updates.description ?? component.description,
       component.examples,
       updates.tags || component.tags,
-      component.metadata,
+      metadata,
       component.version,
       component.ownerId,
       component.createdAt,
@@ -434,4 +501,40 @@ export class ComponentApplicationService {
   async getComponentById(componentId: string): Promise<Component | null> {
     return this.componentRepository.findById(componentId);
   }
+
+  // A page of the user's jobs, each with the component it saved (if it
+  // still exists)
+  async getJobHistory(
+    userId: string,
+    query: GenerationJobQuery = {}
+  ): Promise<{
+    entries: Array<{ job: GenerationJobEntity; component: Component | null }>;
+    total: number;
+  }> {
+    const { jobs, total } = await this.generationService.getJobHistory(
+      userId,
+      query
+    );
+
+    const componentIds = jobs
+      .map(job => job.componentId)
+      .filter((id): id is string => Boolean(id));
+    const components =
+      componentIds.length > 0
+        ? await this.componentRepository.exportComponents(componentIds)
+        : [];
+    const componentsById = new Map(
+      components.map(component => [component.id, component])
+    );
+
+    return {
+      entries: jobs.map(job => ({
+        job,
+        component: job.componentId
+          ? (componentsById.get(job.componentId) ?? null)
+          : null,
+      })),
+      total,
+    };
+  }
 }
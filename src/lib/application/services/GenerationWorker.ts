@@ -0,0 +1,240 @@
+import { GenerationJob } from '../../domain/entities/GenerationJob';
+import { IGenerationJobRepository } from '../../domain/repositories/IGenerationJobRepository';
+import { ComponentGenerationService } from '../../domain/services/ComponentGenerationService';
+import { GenerationStatus } from '@/types';
+
+export interface GenerationWorkerOptions {
+  // Jobs processed at the same time by this worker
+  concurrency: number;
+  pollIntervalMs: number;
+  // PROCESSING jobs without a heartbeat for this long are treated as lost
+  // (crashed process); running jobs beat every minute
+  stuckJobTimeoutMinutes: number;
+  // First retry delay; doubles with every retry of the same job
+  retryBaseDelayMs: number;
+  // Failures older than this are not retried (e.g. from before an outage)
+  retryWindowMinutes: number;
+  // How often stuck jobs and retries are looked for
+  maintenanceIntervalMs: number;
+}
+
+// Entries past their TTL are removed on the maintenance interval
+export interface ExpiringCache {
+  purgeExpired(): Promise<number>;
+}
+
+const DEFAULT_OPTIONS: GenerationWorkerOptions = {
+  concurrency: 2,
+  pollIntervalMs: 1000,
+  stuckJobTimeoutMinutes: 10,
+  retryBaseDelayMs: 30000,
+  retryWindowMinutes: 60,
+  maintenanceIntervalMs: 30000,
+};
+
+/**
+ * Processes queued generation jobs outside request handlers. Jobs are
+ * claimed atomically, so several workers (and inline processing) can share
+ * one database. Also times out jobs left PROCESSING by a crashed process and
+ * re-queues retryable failures with exponential backoff, and purges the
+ * LLM response cache when one is given.
+ */
+export class GenerationWorker {
+  private options: GenerationWorkerOptions;
+  private running = false;
+  private timer?: ReturnType<typeof setTimeout>;
+  private active = new Set<Promise<void>>();
+  private lastMaintenance = 0;
+
+  constructor(
+    private generationService: ComponentGenerationService,
+    private jobRepository: IGenerationJobRepository,
+    options: Partial<GenerationWorkerOptions> = {},
+    private responseCache?: ExpiringCache
+  ) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+    if (this.options.concurrency < 1) {
+      throw new Error('Worker concurrency must be at least 1');
+    }
+  }
+
+  public get activeJobs(): number {
+    return this.active.size;
+  }
+
+  public start(): void {
+    if (this.running) return;
+    this.running = true;
+    console.log(
+      `GenerationWorker: started (concurrency ${this.options.concurrency})`
+    );
+    this.schedule(0);
+  }
+
+  // Stops claiming jobs and waits for the ones in progress
+  public async stop(): Promise<void> {
+    this.running = false;
+    clearTimeout(this.timer);
+    await Promise.allSettled(this.active);
+    console.log('GenerationWorker: stopped');
+  }
+
+  private schedule(delayMs: number): void {
+    this.timer = setTimeout(() => void this.tick(), delayMs);
+  }
+
+  private async tick(): Promise<void> {
+    try {
+      if (
+        Date.now() - this.lastMaintenance >=
+        this.options.maintenanceIntervalMs
+      ) {
+        this.lastMaintenance = Date.now();
+        await this.recoverStuckJobs();
+        await this.requeueRetryableJobs();
+        await this.purgeResponseCache();
+      }
+
+      this.fillSlots();
+    } catch (error) {
+      console.error('GenerationWorker: poll failed:', error);
+    }
+
+    if (this.running) {
+      this.schedule(this.options.pollIntervalMs);
+    }
+  }
+
+  private fillSlots(): void {
+    while (this.running && this.active.size < this.options.concurrency) {
+      const slot = this.runNext();
+      this.active.add(slot);
+      slot.finally(() => this.active.delete(slot));
+    }
+  }
+
+  // Runs jobs back to back until the queue is empty, then frees the slot
+  private async runNext(): Promise<void> {
+    while (this.running) {
+      let job: GenerationJob | null;
+      try {
+        job = await this.generationService.processNextJob();
+      } catch (error) {
+        console.error('GenerationWorker: claiming a job failed:', error);
+        return;
+      }
+
+      if (!job) return;
+      console.log(`GenerationWorker: job ${job.id} finished as ${job.status}`);
+    }
+  }
+
+  private async recoverStuckJobs(): Promise<void> {
+    const { stuckJobTimeoutMinutes } = this.options;
+    const stuck = await this.jobRepository.findStuckJobs(
+      stuckJobTimeoutMinutes
+    );
+
+    for (const job of stuck) {
+      job.timeout(
+        new Error(
+          `Job showed no sign of progress for ${stuckJobTimeoutMinutes} minutes; its worker probably stopped`
+        )
+      );
+      job.addMetadata('recoveredAt', new Date().toISOString());
+      // It may have finished since it was read; then it is not stuck
+      if (
+        !(await this.jobRepository.updateIfStatus(
+          job,
+          GenerationStatus.PROCESSING
+        ))
+      ) {
+        continue;
+      }
+      console.log(`GenerationWorker: timed out stuck job ${job.id}`);
+    }
+  }
+
+  private async requeueRetryableJobs(): Promise<void> {
+    const { retryBaseDelayMs, retryWindowMinutes, concurrency } = this.options;
+    const retryable = await this.jobRepository.findRetryableJobs(
+      concurrency * 5,
+      new Date(Date.now() - retryWindowMinutes * 60 * 1000)
+    );
+
+    for (const job of retryable) {
+      const delayMs = retryBaseDelayMs * 2 ** job.retryCount;
+      if (
+        !job.completedAt ||
+        Date.now() - job.completedAt.getTime() < delayMs
+      ) {
+        continue;
+      }
+
+      const failedStatus = job.status;
+      job.addMetadata('lastError', job.error?.message);
+      job.retry();
+      // Another worker may have re-queued it already
+      if (!(await this.jobRepository.updateIfStatus(job, failedStatus))) {
+        continue;
+      }
+      console.log(
+        `GenerationWorker: re-queued job ${job.id} (retry ${job.retryCount})`
+      );
+    }
+  }
+
+  private async purgeResponseCache(): Promise<void> {
+    if (!this.responseCache) return;
+
+    const removed = await this.responseCache.purgeExpired();
+    if (removed > 0) {
+      console.log(`GenerationWorker: purged ${removed} expired LLM responses`);
+    }
+  }
+
+  public static fromEnvironment(
+    generationService: ComponentGenerationService,
+    jobRepository: IGenerationJobRepository,
+    env: NodeJS.ProcessEnv = process.env,
+    responseCache?: ExpiringCache
+  ): GenerationWorker {
+    return new GenerationWorker(
+      generationService,
+      jobRepository,
+      {
+        concurrency: parseNumber(
+          env.GENERATION_WORKER_CONCURRENCY,
+          DEFAULT_OPTIONS.concurrency
+        ),
+        pollIntervalMs: parseNumber(
+          env.GENERATION_WORKER_POLL_MS,
+          DEFAULT_OPTIONS.pollIntervalMs
+        ),
+        stuckJobTimeoutMinutes: parseNumber(
+          env.GENERATION_STUCK_JOB_MINUTES,
+          DEFAULT_OPTIONS.stuckJobTimeoutMinutes
+        ),
+        retryBaseDelayMs: parseNumber(
+          env.GENERATION_RETRY_BASE_DELAY_MS,
+          DEFAULT_OPTIONS.retryBaseDelayMs
+        ),
+        retryWindowMinutes: parseNumber(
+          env.GENERATION_RETRY_WINDOW_MINUTES,
+          DEFAULT_OPTIONS.retryWindowMinutes
+        ),
+        maintenanceIntervalMs: parseNumber(
+          env.GENERATION_WORKER_MAINTENANCE_MS,
+          DEFAULT_OPTIONS.maintenanceIntervalMs
+        ),
+      },
+      responseCache
+    );
+  }
+}
+
+function parseNumber(value: string | undefined, fallback: number): number {
+  if (!value) return fallback;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+}
@@ -19,3 +19,11 @@ export async function requireAuth(request?: NextRequest) {
   }
   return user;
 }
+
+export async function getAdminUser(request?: NextRequest) {
+  const user = await getAuthUser(request);
+  if (!user || (user as { role?: string }).role !== 'ADMIN') {
+    return null;
+  }
+  return user;
+}
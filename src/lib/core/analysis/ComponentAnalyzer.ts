@@ -0,0 +1,265 @@
+import * as ts from 'typescript';
+import {
+  ArrowFunction,
+  CallExpression,
+  FunctionDeclaration,
+  FunctionExpression,
+  Node,
+  Project,
+  SourceFile,
+  SyntaxKind,
+  TypeNode,
+} from 'ts-morph';
+import {
+  COMPONENT_METRIC_NAMES,
+  ComponentAnalysis,
+  ComponentMetadata,
+  ComponentMetricName,
+  ComponentMetrics,
+} from '@/types';
+
+type ComponentFunction =
+  | FunctionDeclaration
+  | ArrowFunction
+  | FunctionExpression;
+
+// A metric at or above its level makes the component at least that complex
+const COMPLEXITY_LEVELS: Record<
+  ComponentMetricName,
+  { medium: number; complex: number }
+> = {
+  cyclomaticComplexity: { medium: 5, complex: 15 },
+  jsxDepth: { medium: 5, complex: 9 },
+  hookCount: { medium: 2, complex: 7 },
+  propCount: { medium: 5, complex: 12 },
+  importCount: { medium: 4, complex: 8 },
+};
+
+const BRANCH_KINDS = new Set([
+  SyntaxKind.IfStatement,
+  SyntaxKind.ConditionalExpression,
+  SyntaxKind.CaseClause,
+  SyntaxKind.ForStatement,
+  SyntaxKind.ForInStatement,
+  SyntaxKind.ForOfStatement,
+  SyntaxKind.WhileStatement,
+  SyntaxKind.DoStatement,
+  SyntaxKind.CatchClause,
+]);
+
+const LOGICAL_OPERATORS = new Set([
+  SyntaxKind.AmpersandAmpersandToken,
+  SyntaxKind.BarBarToken,
+  SyntaxKind.QuestionQuestionToken,
+  SyntaxKind.AmpersandAmpersandEqualsToken,
+  SyntaxKind.BarBarEqualsToken,
+  SyntaxKind.QuestionQuestionEqualsToken,
+]);
+
+const HOOK_NAME = /^use[A-Z0-9]/;
+const COMPONENT_NAME = /^[A-Z]/;
+
+// Parsing only: no type checking, so no lib files are loaded
+const project = new Project({
+  useInMemoryFileSystem: true,
+  compilerOptions: { jsx: ts.JsxEmit.Preserve },
+});
+
+/**
+ * Measures a component from its syntax tree, so words inside strings and
+ * comments don't count as logic. Code that fails to parse is measured as
+ * far as the parser recovers.
+ */
+export function analyzeComponent(code: string): ComponentAnalysis {
+  const sourceFile = project.createSourceFile('component.tsx', code, {
+    overwrite: true,
+  });
+
+  try {
+    const metrics: ComponentMetrics = {
+      cyclomaticComplexity: 1,
+      jsxDepth: 0,
+      hookCount: 0,
+      propCount: countProps(sourceFile),
+      importCount: new Set(
+        sourceFile
+          .getImportDeclarations()
+          .map(declaration => declaration.getModuleSpecifierValue())
+      ).size,
+    };
+
+    sourceFile.forEachDescendant(node => {
+      if (BRANCH_KINDS.has(node.getKind())) {
+        metrics.cyclomaticComplexity++;
+      } else if (
+        Node.isBinaryExpression(node) &&
+        LOGICAL_OPERATORS.has(node.getOperatorToken().getKind())
+      ) {
+        metrics.cyclomaticComplexity++;
+      } else if (Node.isCallExpression(node) && isHookCall(node)) {
+        metrics.hookCount++;
+      } else if (isJsx(node)) {
+        metrics.jsxDepth = Math.max(metrics.jsxDepth, jsxDepthOf(node));
+      }
+    });
+
+    return { complexity: complexityFromMetrics(metrics), metrics };
+  } finally {
+    project.removeSourceFile(sourceFile);
+  }
+}
+
+// 'complex' takes the cyclomatic level or any two metrics at their level
+export function complexityFromMetrics(
+  metrics: ComponentMetrics
+): ComponentMetadata['complexity'] {
+  const reached = (level: 'medium' | 'complex') =>
+    COMPONENT_METRIC_NAMES.filter(
+      name => metrics[name] >= COMPLEXITY_LEVELS[name][level]
+    );
+
+  const complex = reached('complex');
+  if (complex.includes('cyclomaticComplexity') || complex.length >= 2) {
+    return 'complex';
+  }
+  return reached('medium').length > 0 ? 'medium' : 'simple';
+}
+
+function isHookCall(node: CallExpression): boolean {
+  const callee = node.getExpression();
+  const name = Node.isPropertyAccessExpression(callee)
+    ? callee.getName() // React.useState
+    : callee.getText();
+  return HOOK_NAME.test(name);
+}
+
+function isJsx(node: Node): boolean {
+  return (
+    Node.isJsxElement(node) ||
+    Node.isJsxSelfClosingElement(node) ||
+    Node.isJsxFragment(node)
+  );
+}
+
+// Levels of JSX from the node up to its outermost JSX ancestor
+function jsxDepthOf(node: Node): number {
+  return node.getAncestors().filter(isJsx).length + 1;
+}
+
+function countProps(sourceFile: SourceFile): number {
+  const component = findComponent(sourceFile);
+  if (!component) return 0;
+
+  const [props] = component.fn.getParameters();
+  if (props) {
+    const name = props.getNameNode();
+    if (Node.isObjectBindingPattern(name)) {
+      return name.getElements().length;
+    }
+    const typeNode = props.getTypeNode();
+    if (typeNode) {
+      return countTypeMembers(sourceFile, typeNode);
+    }
+  }
+
+  // const Button: React.FC<ButtonProps> = ...
+  const [propsType] =
+    component.declaredType
+      ?.asKind(SyntaxKind.TypeReference)
+      ?.getTypeArguments() ?? [];
+  return propsType ? countTypeMembers(sourceFile, propsType) : 0;
+}
+
+function countTypeMembers(sourceFile: SourceFile, typeNode: TypeNode): number {
+  if (Node.isTypeLiteral(typeNode)) {
+    return typeNode.getMembers().length;
+  }
+  if (Node.isIntersectionTypeNode(typeNode)) {
+    return typeNode
+      .getTypeNodes()
+      .reduce((sum, part) => sum + countTypeMembers(sourceFile, part), 0);
+  }
+  if (Node.isTypeReference(typeNode)) {
+    // Only types declared in the component's own file can be counted
+    const name = typeNode.getTypeName().getText();
+    const declaredInterface = sourceFile.getInterface(name);
+    if (declaredInterface) {
+      return declaredInterface.getMembers().length;
+    }
+    const alias = sourceFile.getTypeAlias(name)?.getTypeNode();
+    if (alias) {
+      return countTypeMembers(sourceFile, alias);
+    }
+  }
+  return 0;
+}
+
+/**
+ * The component a file defines: its default export when that is a
+ * capitalized function, else the first exported one, else the first one.
+ */
+function findComponent(
+  sourceFile: SourceFile
+): { fn: ComponentFunction; declaredType?: TypeNode } | undefined {
+  const candidates: Array<{
+    name: string;
+    fn: ComponentFunction;
+    declaredType?: TypeNode;
+    exported: boolean;
+    isDefault: boolean;
+  }> = [];
+
+  for (const declaration of sourceFile.getFunctions()) {
+    const name = declaration.getName();
+    if (name && COMPONENT_NAME.test(name)) {
+      candidates.push({
+        name,
+        fn: declaration,
+        exported: declaration.isExported(),
+        isDefault: declaration.isDefaultExport(),
+      });
+    }
+  }
+
+  for (const declaration of sourceFile.getVariableDeclarations()) {
+    const name = declaration.getName();
+    const fn = unwrapFunction(declaration.getInitializer());
+    if (fn && COMPONENT_NAME.test(name)) {
+      candidates.push({
+        name,
+        fn,
+        declaredType: declaration.getTypeNode(),
+        exported: declaration.isExported(),
+        isDefault: declaration.isDefaultExport(),
+      });
+    }
+  }
+
+  // export default Button;
+  const defaultName = sourceFile
+    .getExportAssignment(assignment => !assignment.isExportEquals())
+    ?.getExpression()
+    .getText();
+
+  return (
+    candidates.find(
+      candidate => candidate.isDefault || candidate.name === defaultName
+    ) ??
+    candidates.find(candidate => candidate.exported) ??
+    candidates[0]
+  );
+}
+
+// The function itself, or the one wrapped by memo(...) / forwardRef(...)
+function unwrapFunction(node: Node | undefined): ComponentFunction | undefined {
+  if (Node.isArrowFunction(node) || Node.isFunctionExpression(node)) {
+    return node;
+  }
+  if (Node.isCallExpression(node)) {
+    for (const argument of node.getArguments()) {
+      const fn = unwrapFunction(argument);
+      if (fn) return fn;
+    }
+  }
+  return undefined;
+}
@@ -0,0 +1,63 @@
+import YAML from 'yaml';
+import { BatchSpec } from '@/types';
+
+export type BatchSpecFormat = 'json' | 'yaml';
+
+export class BatchSpecError extends Error {
+  constructor(
+    message: string,
+    // One entry per problem, prefixed with its path in the spec
+    public readonly issues: string[] = []
+  ) {
+    super(message);
+    this.name = 'BatchSpecError';
+  }
+}
+
+/**
+ * Parses and validates a batch spec file. Component names must be unique
+ * within the spec, since they name the saved components.
+ */
+export function parseBatchSpec(
+  text: string,
+  format: BatchSpecFormat
+): BatchSpec {
+  let raw: unknown;
+  try {
+    raw = format === 'json' ? JSON.parse(text) : YAML.parse(text);
+  } catch (error) {
+    throw new BatchSpecError(
+      `Spec is not valid ${format.toUpperCase()}: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+  }
+
+  const parsed = BatchSpec.safeParse(raw);
+  if (!parsed.success) {
+    throw new BatchSpecError(
+      'Spec does not match the batch format',
+      parsed.error.errors.map(
+        issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`
+      )
+    );
+  }
+
+  const seen = new Set<string>();
+  const duplicates = parsed.data.components
+    .map(component => component.name)
+    .filter(name => seen.has(name) || !seen.add(name));
+  if (duplicates.length > 0) {
+    throw new BatchSpecError(
+      'Component names must be unique',
+      Array.from(new Set(duplicates)).map(name => `duplicate name: ${name}`)
+    );
+  }
+
+  return parsed.data;
+}
+
+// yaml for YAML content types (application/yaml, text/yaml, ...), else json
+export function batchSpecFormat(contentType: string | null): BatchSpecFormat {
+  return contentType && /\byaml\b/i.test(contentType) ? 'yaml' : 'json';
+}
@@ -0,0 +1,230 @@
+import { IIntentClassifier } from '../../domain/services/ComponentGenerationService';
+import { IComponentRepository } from '../../domain/repositories/IComponentRepository';
+import { ComponentCandidate, ComponentType } from '@/types';
+import { INTENT_LEXICONS } from './lexicons';
+import { LabeledDocument, TfIdfModel, tokenize } from './TfIdfModel';
+
+// When the LLM analysis is asked to refine the local ranking
+export type IntentRefinementMode = 'never' | 'low-confidence' | 'always';
+
+export interface IntentClassifierOptions {
+  refinement?: IntentRefinementMode;
+  // Top-candidate confidence below which 'low-confidence' refines
+  refinementThreshold?: number;
+  // Saved components the TF-IDF model is trained on
+  trainingSetSize?: number;
+  // How long a trained model is reused before the library is re-read
+  modelTtlMs?: number;
+  maxCandidates?: number;
+}
+
+interface LexiconEntry {
+  type: ComponentType;
+  term: string;
+  tokens: string[];
+  weight: number;
+}
+
+const STRONG_WEIGHT = 2;
+const STRONG_PHRASE_WEIGHT = 3;
+const WEAK_WEIGHT = 0.75;
+const WEAK_PHRASE_WEIGHT = 1;
+// A perfect TF-IDF match counts as much as one and a half strong terms
+const SIMILARITY_WEIGHT = 3;
+
+/**
+ * Ranks component types for a prompt without calling an LLM: keyword
+ * lexicons give every deployment a baseline, and a TF-IDF model trained on
+ * the saved component library adapts it to the vocabulary users actually
+ * use. The model is trained lazily and a failed training run falls back to
+ * the lexicons alone.
+ */
+export class IntentClassifier implements IIntentClassifier {
+  private entries: LexiconEntry[];
+  private refinement: IntentRefinementMode;
+  private refinementThreshold: number;
+  private trainingSetSize: number;
+  private modelTtlMs: number;
+  private maxCandidates: number;
+  private model: TfIdfModel<ComponentType> | null = null;
+  private trainedAt = 0;
+  private training: Promise<TfIdfModel<ComponentType> | null> | null = null;
+
+  constructor(
+    private componentRepository?: IComponentRepository,
+    options: IntentClassifierOptions = {}
+  ) {
+    this.refinement = options.refinement ?? 'low-confidence';
+    this.refinementThreshold = options.refinementThreshold ?? 0.6;
+    this.trainingSetSize = options.trainingSetSize ?? 500;
+    this.modelTtlMs = options.modelTtlMs ?? 10 * 60 * 1000;
+    this.maxCandidates = options.maxCandidates ?? 5;
+    this.entries = this.compileLexicons();
+  }
+
+  async classify(prompt: string): Promise<ComponentCandidate[]> {
+    const tokens = tokenize(prompt);
+    const matches = new Map<ComponentType, string[]>();
+    const raw = new Map<ComponentType, number>();
+
+    for (const entry of this.entries) {
+      if (!this.containsPhrase(tokens, entry.tokens)) continue;
+      raw.set(entry.type, (raw.get(entry.type) ?? 0) + entry.weight);
+      matches.set(entry.type, [...(matches.get(entry.type) ?? []), entry.term]);
+    }
+
+    const model = await this.getModel();
+    const similarities = model?.similarities(prompt) ?? new Map();
+    similarities.forEach((similarity, type) => {
+      raw.set(type, (raw.get(type) ?? 0) + SIMILARITY_WEIGHT * similarity);
+    });
+
+    const total = Array.from(raw.values()).reduce((sum, x) => sum + x, 0);
+    if (total === 0) return [];
+
+    return Array.from(raw.entries())
+      .sort(([, a], [, b]) => b - a)
+      .slice(0, this.maxCandidates)
+      .map(([type, value]) => {
+        const score = value / (value + 1);
+        return {
+          type,
+          score: round(score),
+          // Share of the total evidence, discounted when the evidence is thin
+          confidence: round((value / total) * score),
+          reason: this.explain(
+            matches.get(type),
+            similarities.get(type),
+            model?.documentCount(type) ?? 0
+          ),
+        };
+      });
+  }
+
+  needsRefinement(candidates: ComponentCandidate[]): boolean {
+    if (this.refinement === 'always') return true;
+    if (this.refinement === 'never') return false;
+    return (candidates[0]?.confidence ?? 0) < this.refinementThreshold;
+  }
+
+  // Drop the trained model so the next prompt retrains on the current library
+  public invalidate(): void {
+    this.model = null;
+    this.trainedAt = 0;
+  }
+
+  private async getModel(): Promise<TfIdfModel<ComponentType> | null> {
+    if (!this.componentRepository) return null;
+    if (this.model && Date.now() - this.trainedAt < this.modelTtlMs) {
+      return this.model;
+    }
+
+    if (!this.training) {
+      this.training = this.train().finally(() => {
+        this.training = null;
+      });
+    }
+    return this.training;
+  }
+
+  private async train(): Promise<TfIdfModel<ComponentType> | null> {
+    try {
+      const components = await this.componentRepository!.getMostUsed(
+        this.trainingSetSize
+      );
+      const documents: LabeledDocument<ComponentType>[] = components
+        .filter(component => component.type !== ComponentType.Custom)
+        .map(component => ({
+          label: component.type,
+          text: [
+            component.name,
+            component.description || '',
+            ...component.tags,
+            ...(component.metadata?.keywords || []),
+          ].join(' '),
+        }));
+
+      this.model = new TfIdfModel(documents);
+      this.trainedAt = Date.now();
+    } catch (error) {
+      // Keep serving the previous model (or lexicons only) until the next try
+      console.error('IntentClassifier: Failed to train on library:', error);
+      this.trainedAt = Date.now();
+    }
+
+    return this.model;
+  }
+
+  private compileLexicons(): LexiconEntry[] {
+    const entries: LexiconEntry[] = [];
+
+    for (const [type, lexicon] of Object.entries(INTENT_LEXICONS)) {
+      // Singular and plural entries stem to the same tokens; count them once
+      const seen = new Set<string>();
+      const add = (term: string, single: number, phrase: number) => {
+        const tokens = tokenize(term);
+        if (seen.has(tokens.join(' '))) return;
+        seen.add(tokens.join(' '));
+        entries.push({
+          type: type as ComponentType,
+          term,
+          tokens,
+          weight: tokens.length > 1 ? phrase : single,
+        });
+      };
+
+      lexicon.strong.forEach(term =>
+        add(term, STRONG_WEIGHT, STRONG_PHRASE_WEIGHT)
+      );
+      lexicon.weak?.forEach(term => add(term, WEAK_WEIGHT, WEAK_PHRASE_WEIGHT));
+    }
+
+    return entries;
+  }
+
+  private containsPhrase(tokens: string[], phrase: string[]): boolean {
+    for (let start = 0; start + phrase.length <= tokens.length; start++) {
+      if (phrase.every((token, offset) => tokens[start + offset] === token)) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  private explain(
+    terms: string[] | undefined,
+    similarity: number | undefined,
+    documentCount: number
+  ): string {
+    const reasons: string[] = [];
+    if (terms?.length) {
+      reasons.push(`Mentions ${terms.map(term => `"${term}"`).join(', ')}`);
+    }
+    if (similarity) {
+      reasons.push(
+        `resembles ${documentCount} saved component${documentCount === 1 ? '' : 's'} of this type (similarity ${round(similarity)})`
+      );
+    }
+    return reasons.join('; ');
+  }
+
+  public static fromEnvironment(
+    componentRepository?: IComponentRepository,
+    env: NodeJS.ProcessEnv = process.env
+  ): IntentClassifier {
+    const mode = env.INTENT_LLM_REFINEMENT;
+    const threshold = parseFloat(env.INTENT_REFINEMENT_THRESHOLD || '');
+
+    return new IntentClassifier(componentRepository, {
+      refinement:
+        mode === 'never' || mode === 'always' || mode === 'low-confidence'
+          ? mode
+          : undefined,
+      refinementThreshold: Number.isFinite(threshold) ? threshold : undefined,
+    });
+  }
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
@@ -0,0 +1,158 @@
+export interface LabeledDocument<L extends string = string> {
+  label: L;
+  text: string;
+}
+
+type Vector = Map<string, number>;
+
+const STOP_WORDS = new Set([
+  'a',
+  'an',
+  'the',
+  'and',
+  'or',
+  'with',
+  'for',
+  'to',
+  'of',
+  'in',
+  'on',
+  'that',
+  'this',
+  'is',
+  'are',
+  'be',
+  'it',
+  'me',
+  'my',
+  'i',
+  'we',
+  'our',
+  'create',
+  'make',
+  'build',
+  'need',
+  'want',
+  'component',
+  'mui',
+  'react',
+]);
+
+/**
+ * Lowercased, lightly stemmed words of `text`. PascalCase names are split
+ * first so "UserProfileCard" yields "user profile card".
+ */
+export function tokenize(text: string): string[] {
+  return text
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean)
+    .map(stem);
+}
+
+function stem(word: string): string {
+  if (word.length > 4 && word.endsWith('ies')) {
+    return `${word.slice(0, -3)}y`;
+  }
+  if (word.length > 3 && word.endsWith('s') && !word.endsWith('ss')) {
+    return word.slice(0, -1);
+  }
+  return word;
+}
+
+/**
+ * TF-IDF bag-of-words model with one centroid per label. A text is scored by
+ * its cosine similarity to each label's centroid, so labels backed by many
+ * similar documents are not favoured over labels with a single good match.
+ */
+export class TfIdfModel<L extends string = string> {
+  private idf: Map<string, number> = new Map();
+  private centroids: Map<L, Vector> = new Map();
+  private documentCounts: Map<L, number> = new Map();
+
+  constructor(documents: LabeledDocument<L>[]) {
+    const termLists = documents.map(document => this.terms(document.text));
+
+    const documentFrequency = new Map<string, number>();
+    termLists.forEach(terms =>
+      new Set(terms).forEach(term =>
+        documentFrequency.set(term, (documentFrequency.get(term) ?? 0) + 1)
+      )
+    );
+    documentFrequency.forEach((frequency, term) =>
+      this.idf.set(term, Math.log((documents.length + 1) / (frequency + 1)) + 1)
+    );
+
+    documents.forEach((document, index) => {
+      const vector = this.vectorize(termLists[index]);
+      if (vector.size === 0) return;
+
+      const centroid = this.centroids.get(document.label) ?? new Map();
+      vector.forEach((weight, term) =>
+        centroid.set(term, (centroid.get(term) ?? 0) + weight)
+      );
+      this.centroids.set(document.label, centroid);
+      this.documentCounts.set(
+        document.label,
+        (this.documentCounts.get(document.label) ?? 0) + 1
+      );
+    });
+
+    this.centroids.forEach(normalize);
+  }
+
+  public get labels(): L[] {
+    return Array.from(this.centroids.keys());
+  }
+
+  public documentCount(label: L): number {
+    return this.documentCounts.get(label) ?? 0;
+  }
+
+  // Cosine similarity (0..1) of `text` to every label that has documents
+  public similarities(text: string): Map<L, number> {
+    const vector = this.vectorize(this.terms(text));
+    const scores = new Map<L, number>();
+    if (vector.size === 0) return scores;
+
+    this.centroids.forEach((centroid, label) => {
+      let dot = 0;
+      vector.forEach((weight, term) => {
+        dot += weight * (centroid.get(term) ?? 0);
+      });
+      if (dot > 0) scores.set(label, dot);
+    });
+
+    return scores;
+  }
+
+  private terms(text: string): string[] {
+    return tokenize(text).filter(
+      term => term.length > 1 && !STOP_WORDS.has(term)
+    );
+  }
+
+  // Normalized TF-IDF vector; terms unseen during training are ignored
+  private vectorize(terms: string[]): Vector {
+    const vector: Vector = new Map();
+    terms.forEach(term => {
+      const idf = this.idf.get(term);
+      if (idf !== undefined) {
+        vector.set(term, (vector.get(term) ?? 0) + idf);
+      }
+    });
+    normalize(vector);
+    return vector;
+  }
+}
+
+function normalize(vector: Vector): void {
+  let norm = 0;
+  vector.forEach(weight => {
+    norm += weight * weight;
+  });
+  norm = Math.sqrt(norm);
+  if (norm === 0) return;
+  vector.forEach((weight, term) => vector.set(term, weight / norm));
+}
@@ -0,0 +1,278 @@
+import { ComponentType } from '@/types';
+
+export interface LabeledPrompt {
+  prompt: string;
+  expected: ComponentType;
+}
+
+/**
+ * Plain-English prompts with the component type a reviewer expects for
+ * each. Used to measure intent mapping accuracy; phrasing is deliberately
+ * varied and often avoids the MUI component name.
+ */
+export const INTENT_EVALUATION_CORPUS: LabeledPrompt[] = [
+  {
+    prompt: 'A sortable table of employees with name, role and salary',
+    expected: ComponentType.MUITable,
+  },
+  {
+    prompt: 'Show orders in rows and columns with pagination',
+    expected: ComponentType.MUITable,
+  },
+  {
+    prompt: 'Spreadsheet-like view of inventory records',
+    expected: ComponentType.MUITable,
+  },
+  {
+    prompt: 'A primary call to action that says Get Started',
+    expected: ComponentType.MUIButton,
+  },
+  {
+    prompt: 'Outlined button with a download icon',
+    expected: ComponentType.MUIButton,
+  },
+  {
+    prompt: 'Login screen with email and password fields',
+    expected: ComponentType.MUIForm,
+  },
+  {
+    prompt: 'Contact us form with name, message and a submit button',
+    expected: ComponentType.MUIForm,
+  },
+  {
+    prompt: 'User registration with validation for every input',
+    expected: ComponentType.MUIForm,
+  },
+  {
+    prompt: 'Modal asking the user to confirm deleting their account',
+    expected: ComponentType.MUIDialog,
+  },
+  {
+    prompt: 'A popup window that shows terms and conditions',
+    expected: ComponentType.MUIDialog,
+  },
+  {
+    prompt: 'Product card with image, title, price and add to cart',
+    expected: ComponentType.MUICard,
+  },
+  {
+    prompt: 'Team member tile with photo, name and short bio',
+    expected: ComponentType.MUICard,
+  },
+  {
+    prompt: 'Settings page split into tabs for profile, security and billing',
+    expected: ComponentType.MUITabs,
+  },
+  {
+    prompt: 'Tabbed panel switching between overview and details',
+    expected: ComponentType.MUITabs,
+  },
+  {
+    prompt: 'A to do list where items can be checked off',
+    expected: ComponentType.MUIList,
+  },
+  {
+    prompt: 'List of contacts with avatars and secondary text',
+    expected: ComponentType.MUIList,
+  },
+  {
+    prompt: 'Deletable chips showing the selected filters',
+    expected: ComponentType.MUIChip,
+  },
+  {
+    prompt: 'Small pill labels for article categories',
+    expected: ComponentType.MUIChip,
+  },
+  {
+    prompt: 'Circular profile picture with initials fallback',
+    expected: ComponentType.MUIAvatar,
+  },
+  {
+    prompt: 'Stacked avatars for a group of users',
+    expected: ComponentType.MUIAvatar,
+  },
+  {
+    prompt: 'Mail icon with an unread count in the corner',
+    expected: ComponentType.MUIBadge,
+  },
+  {
+    prompt: 'Notification bell with a red badge',
+    expected: ComponentType.MUIBadge,
+  },
+  {
+    prompt: 'Show helpful text on hover over the info icon',
+    expected: ComponentType.MUITooltip,
+  },
+  {
+    prompt: 'Tooltip explaining what the export action does',
+    expected: ComponentType.MUITooltip,
+  },
+  {
+    prompt: 'Dropdown menu with edit, duplicate and delete options',
+    expected: ComponentType.MUIMenu,
+  },
+  {
+    prompt: 'Three dot kebab menu for each row action',
+    expected: ComponentType.MUIMenu,
+  },
+  {
+    prompt: 'Collapsible sidebar with navigation links',
+    expected: ComponentType.MUIDrawer,
+  },
+  {
+    prompt: 'A drawer that slides in from the left with filters',
+    expected: ComponentType.MUIDrawer,
+  },
+  {
+    prompt: 'Top navbar with logo, links and a login button',
+    expected: ComponentType.MUIAppBar,
+  },
+  {
+    prompt: 'Site header with a search field and user menu',
+    expected: ComponentType.MUIAppBar,
+  },
+  {
+    prompt: 'Mobile bottom navigation with home, search and profile',
+    expected: ComponentType.MUIBottomNavigation,
+  },
+  {
+    prompt: 'Tab bar pinned to the bottom of a phone screen',
+    expected: ComponentType.MUIBottomNavigation,
+  },
+  {
+    prompt: 'Breadcrumb trail showing Home / Products / Shoes',
+    expected: ComponentType.MUIBreadcrumbs,
+  },
+  {
+    prompt: 'Show the page hierarchy above the title',
+    expected: ComponentType.MUIBreadcrumbs,
+  },
+  {
+    prompt: 'Floating action button to add a new note',
+    expected: ComponentType.MUIFab,
+  },
+  {
+    prompt: 'Round plus button floating in the bottom right corner',
+    expected: ComponentType.MUIFab,
+  },
+  {
+    prompt: 'Speed dial with share, print and copy actions',
+    expected: ComponentType.MUISpeedDial,
+  },
+  {
+    prompt: 'Floating button that expands into several quick actions',
+    expected: ComponentType.MUISpeedDial,
+  },
+  {
+    prompt: 'Multi-step checkout with shipping, payment and review',
+    expected: ComponentType.MUIStepper,
+  },
+  {
+    prompt: 'Onboarding wizard with next and back buttons',
+    expected: ComponentType.MUIStepper,
+  },
+  {
+    prompt: 'Timeline of order status updates',
+    expected: ComponentType.MUITimeline,
+  },
+  {
+    prompt: 'Chronological history of project milestones',
+    expected: ComponentType.MUITimeline,
+  },
+  {
+    prompt: 'Warning message telling the user their trial ends soon',
+    expected: ComponentType.MUIAlert,
+  },
+  {
+    prompt: 'Success alert with a close icon',
+    expected: ComponentType.MUIAlert,
+  },
+  {
+    prompt: 'Toast that says Saved with an undo action',
+    expected: ComponentType.MUISnackbar,
+  },
+  {
+    prompt: 'Snackbar that hides itself after three seconds',
+    expected: ComponentType.MUISnackbar,
+  },
+  {
+    prompt: 'Dim the background with a spinner while saving',
+    expected: ComponentType.MUIBackdrop,
+  },
+  {
+    prompt: 'Full screen loader overlay blocking the page',
+    expected: ComponentType.MUIBackdrop,
+  },
+  {
+    prompt: 'Skeleton placeholders while the article loads',
+    expected: ComponentType.MUISkeleton,
+  },
+  {
+    prompt: 'Shimmer loading state for a list of cards',
+    expected: ComponentType.MUISkeleton,
+  },
+  {
+    prompt: 'File upload progress bar with percentage',
+    expected: ComponentType.MUIProgress,
+  },
+  {
+    prompt: 'Circular loading indicator in the center',
+    expected: ComponentType.MUIProgress,
+  },
+  {
+    prompt: 'Five star rating for product reviews',
+    expected: ComponentType.MUIRating,
+  },
+  {
+    prompt: 'Let users rate the recipe from one to five',
+    expected: ComponentType.MUIRating,
+  },
+  {
+    prompt: 'Price range slider with min and max values',
+    expected: ComponentType.MUISlider,
+  },
+  {
+    prompt: 'Volume control with a draggable handle',
+    expected: ComponentType.MUISlider,
+  },
+  {
+    prompt: 'Dark mode switch in the settings',
+    expected: ComponentType.MUISwitch,
+  },
+  {
+    prompt: 'On/off setting to enable email notifications',
+    expected: ComponentType.MUISwitch,
+  },
+  {
+    prompt: 'Text alignment toggle buttons for left, center and right',
+    expected: ComponentType.MUIToggleButton,
+  },
+  {
+    prompt: 'Segmented control to switch between grid and list view mode',
+    expected: ComponentType.MUIToggleButton,
+  },
+  {
+    prompt: 'Country selector with search suggestions as you type',
+    expected: ComponentType.MUIAutocomplete,
+  },
+  {
+    prompt: 'Typeahead input for picking a GitHub repository',
+    expected: ComponentType.MUIAutocomplete,
+  },
+  {
+    prompt: 'Birthday date picker with a calendar popup',
+    expected: ComponentType.MUIDatePicker,
+  },
+  {
+    prompt: 'Choose a check-in and check-out date range',
+    expected: ComponentType.MUIDatePicker,
+  },
+  {
+    prompt: 'Time picker for scheduling a meeting',
+    expected: ComponentType.MUITimePicker,
+  },
+  {
+    prompt: 'Pick a time slot for the delivery window',
+    expected: ComponentType.MUITimePicker,
+  },
+];
@@ -0,0 +1,76 @@
+import {
+  IIntentClassifier,
+  ILLMProvider,
+} from '../../domain/services/ComponentGenerationService';
+import { ComponentType } from '@/types';
+import { LabeledPrompt } from './corpus';
+
+// Core requirement: plain-English prompts map to the right component ≥80% of the time
+export const INTENT_ACCURACY_TARGET = 0.8;
+
+export interface IntentAccuracyReport {
+  total: number;
+  // Expected type ranked first
+  top1Accuracy: number;
+  // Expected type among the first three suggestions
+  top3Accuracy: number;
+  target: number;
+  meetsTarget: boolean;
+  perType: Partial<Record<ComponentType, { total: number; correct: number }>>;
+  misses: Array<{
+    prompt: string;
+    expected: ComponentType;
+    predicted: ComponentType | null;
+  }>;
+}
+
+// Scores the provider's analyzePrompt on its own, without the local ranking
+export function llmIntentClassifier(provider: ILLMProvider): IIntentClassifier {
+  return {
+    classify: prompt => provider.analyzePrompt(prompt),
+    needsRefinement: () => false,
+  };
+}
+
+export async function evaluateIntentAccuracy(
+  classifier: IIntentClassifier,
+  corpus: LabeledPrompt[],
+  target: number = INTENT_ACCURACY_TARGET
+): Promise<IntentAccuracyReport> {
+  let top1 = 0;
+  let top3 = 0;
+  const perType: IntentAccuracyReport['perType'] = {};
+  const misses: IntentAccuracyReport['misses'] = [];
+
+  for (const { prompt, expected } of corpus) {
+    const candidates = await classifier.classify(prompt);
+    const ranked = candidates.map(candidate => candidate.type);
+    const stats = perType[expected] ?? { total: 0, correct: 0 };
+    stats.total++;
+
+    if (ranked[0] === expected) {
+      top1++;
+      stats.correct++;
+    } else {
+      misses.push({ prompt, expected, predicted: ranked[0] ?? null });
+    }
+    if (ranked.slice(0, 3).includes(expected)) {
+      top3++;
+    }
+
+    perType[expected] = stats;
+  }
+
+  const total = corpus.length;
+  const top1Accuracy = total ? top1 / total : 0;
+
+  return {
+    total,
+    top1Accuracy,
+    top3Accuracy: total ? top3 / total : 0,
+    target,
+    meetsTarget: top1Accuracy >= target,
+    perType,
+    misses,
+  };
+}
@@ -0,0 +1,265 @@
+import { ComponentType } from '@/types';
+
+export interface IntentLexicon {
+  // Terms that on their own name the component
+  strong: string[];
+  // Terms that only hint at it
+  weak?: string[];
+}
+
+/**
+ * Hand-written vocabulary per component type. Entries are matched as whole
+ * (stemmed) words; multi-word entries must appear contiguously and count for
+ * more than single words, so "toggle button" outranks "button".
+ */
+export const INTENT_LEXICONS: Partial<Record<ComponentType, IntentLexicon>> = {
+  [ComponentType.MUITable]: {
+    strong: [
+      'table',
+      'data grid',
+      'datagrid',
+      'grid of data',
+      'spreadsheet',
+      'rows and columns',
+      'sortable columns',
+    ],
+    weak: [
+      'column',
+      'row',
+      'sort',
+      'sortable',
+      'paginate',
+      'records',
+      'tabular',
+    ],
+  },
+  [ComponentType.MUIButton]: {
+    strong: ['button', 'cta', 'call to action', 'icon button', 'button group'],
+    weak: ['click', 'clickable', 'link'],
+  },
+  [ComponentType.MUIForm]: {
+    strong: [
+      'form',
+      'sign up',
+      'signup',
+      'sign in',
+      'login',
+      'log in',
+      'registration',
+      'register',
+      'input fields',
+      'text field',
+      'text fields',
+    ],
+    weak: ['input', 'field', 'validation', 'submit', 'email', 'password'],
+  },
+  [ComponentType.MUIDialog]: {
+    strong: [
+      'dialog',
+      'modal',
+      'popup',
+      'pop up',
+      'lightbox',
+      'confirmation dialog',
+    ],
+    weak: ['confirm', 'confirmation', 'cancel'],
+  },
+  [ComponentType.MUICard]: {
+    strong: ['card', 'tile', 'profile card', 'product card', 'pricing card'],
+    weak: ['image', 'thumbnail', 'summary', 'price', 'product'],
+  },
+  [ComponentType.MUITabs]: {
+    strong: ['tab', 'tabbed', 'tab panel'],
+    weak: ['section', 'panel', 'switch between'],
+  },
+  [ComponentType.MUIList]: {
+    strong: ['list', 'listing', 'todo list', 'to do list', 'list item'],
+    weak: ['item', 'feed', 'entries', 'todo'],
+  },
+  [ComponentType.MUIChip]: {
+    strong: ['chip', 'pill', 'tag input'],
+    weak: ['tag', 'label', 'filter', 'deletable'],
+  },
+  [ComponentType.MUIAvatar]: {
+    strong: [
+      'avatar',
+      'profile picture',
+      'profile photo',
+      'user icon',
+      'initials',
+    ],
+    weak: ['photo', 'picture', 'user', 'group of users'],
+  },
+  [ComponentType.MUIBadge]: {
+    strong: ['badge', 'notification count', 'unread count', 'counter'],
+    weak: ['notification', 'count', 'unread', 'dot'],
+  },
+  [ComponentType.MUITooltip]: {
+    strong: ['tooltip', 'tool tip', 'hover text', 'on hover'],
+    weak: ['hover', 'hint', 'explanation'],
+  },
+  [ComponentType.MUIMenu]: {
+    strong: [
+      'menu',
+      'dropdown menu',
+      'context menu',
+      'kebab menu',
+      'overflow menu',
+      'more options',
+    ],
+    weak: ['dropdown', 'option', 'action'],
+  },
+  [ComponentType.MUIDrawer]: {
+    strong: [
+      'drawer',
+      'sidebar',
+      'side bar',
+      'side nav',
+      'side navigation',
+      'sidenav',
+      'off canvas',
+    ],
+    weak: ['side', 'navigation', 'collapsible', 'slide'],
+  },
+  [ComponentType.MUIAppBar]: {
+    strong: [
+      'app bar',
+      'appbar',
+      'navbar',
+      'nav bar',
+      'top bar',
+      'toolbar',
+      'header',
+      'navigation bar',
+    ],
+    weak: ['logo', 'top', 'site'],
+  },
+  [ComponentType.MUIBottomNavigation]: {
+    strong: [
+      'bottom navigation',
+      'bottom nav',
+      'bottom bar',
+      'bottom tab',
+      'tab bar',
+    ],
+    weak: ['mobile', 'bottom'],
+  },
+  [ComponentType.MUIBreadcrumbs]: {
+    strong: ['breadcrumb', 'breadcrumbs', 'page hierarchy'],
+    weak: ['path', 'hierarchy', 'trail', 'current page'],
+  },
+  [ComponentType.MUIFab]: {
+    strong: ['fab', 'floating action button', 'floating button'],
+    weak: ['floating', 'corner'],
+  },
+  [ComponentType.MUISpeedDial]: {
+    strong: ['speed dial', 'speeddial', 'expanding actions'],
+    weak: ['fan out', 'expand'],
+  },
+  [ComponentType.MUIStepper]: {
+    strong: [
+      'stepper',
+      'wizard',
+      'multi step',
+      'multistep',
+      'step by step',
+      'onboarding flow',
+      'progress steps',
+    ],
+    weak: ['step', 'onboarding', 'next and back', 'checkout'],
+  },
+  [ComponentType.MUITimeline]: {
+    strong: ['timeline', 'chronological', 'activity log', 'order history'],
+    weak: ['history', 'event', 'milestone', 'chronology'],
+  },
+  [ComponentType.MUIAlert]: {
+    strong: [
+      'alert',
+      'banner',
+      'callout',
+      'warning message',
+      'error message',
+      'success message',
+    ],
+    weak: ['warning', 'error', 'info', 'severity'],
+  },
+  [ComponentType.MUISnackbar]: {
+    strong: ['snackbar', 'snack bar', 'toast', 'temporary message'],
+    weak: ['notify', 'transient', 'auto hide', 'undo'],
+  },
+  [ComponentType.MUIBackdrop]: {
+    strong: [
+      'backdrop',
+      'loading overlay',
+      'dim the background',
+      'dimmed background',
+      'full screen loader',
+    ],
+    weak: ['overlay', 'dim', 'block'],
+  },
+  [ComponentType.MUISkeleton]: {
+    strong: ['skeleton', 'shimmer', 'loading placeholder', 'placeholder'],
+    weak: ['content loading', 'ghost'],
+  },
+  [ComponentType.MUIProgress]: {
+    strong: [
+      'progress bar',
+      'progress indicator',
+      'spinner',
+      'loading indicator',
+      'circular progress',
+      'loader',
+      'progress',
+    ],
+    weak: ['loading', 'percent', 'percentage', 'upload'],
+  },
+  [ComponentType.MUIRating]: {
+    strong: ['rating', 'star rating', 'rate', 'stars'],
+    weak: ['review', 'feedback', 'score'],
+  },
+  [ComponentType.MUISlider]: {
+    strong: ['slider', 'range slider', 'range selector', 'volume control'],
+    weak: ['range', 'volume', 'min and max', 'drag'],
+  },
+  [ComponentType.MUISwitch]: {
+    strong: ['switch', 'toggle switch', 'on off', 'on and off'],
+    weak: ['toggle', 'enable', 'disable', 'dark mode', 'setting'],
+  },
+  [ComponentType.MUIToggleButton]: {
+    strong: [
+      'toggle button',
+      'toggle buttons',
+      'segmented control',
+      'segmented button',
+      'button toggle',
+    ],
+    weak: ['segmented', 'alignment', 'view mode', 'exclusive'],
+  },
+  [ComponentType.MUIAutocomplete]: {
+    strong: [
+      'autocomplete',
+      'auto complete',
+      'typeahead',
+      'type ahead',
+      'combo box',
+      'combobox',
+      'search suggestions',
+      'searchable select',
+    ],
+    weak: ['search', 'suggestion', 'select', 'country'],
+  },
+  [ComponentType.MUIDatePicker]: {
+    strong: [
+      'date picker',
+      'datepicker',
+      'calendar',
+      'date range',
+      'pick a date',
+    ],
+    weak: ['date', 'birthday', 'day', 'month', 'year'],
+  },
+  [ComponentType.MUITimePicker]: {
+    strong: ['time picker', 'timepicker', 'pick a time', 'time slot'],
+    weak: ['time', 'clock', 'hour', 'minute'],
+  },
+};
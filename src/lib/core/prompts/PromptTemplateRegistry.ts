@@ -0,0 +1,139 @@
+import { createHash } from 'crypto';
+
+export interface PromptTemplate {
+  name: string;
+  version: string;
+  description?: string;
+  // Prompt text with `{{variable}}` placeholders
+  template: string;
+  // Values used for placeholders the caller does not supply (e.g. few-shot examples)
+  defaults?: Record<string, string>;
+}
+
+export interface RenderedPrompt {
+  text: string;
+  version: string;
+}
+
+// Relative traffic weight per template version, e.g. { v1: 50, v2: 50 }
+export type PromptVersionWeights = Record<string, number>;
+
+/**
+ * Named, versioned prompt templates shared by every LLM backend. The first
+ * registered version of a template is its default unless another one is
+ * registered as the default.
+ */
+export class PromptTemplateRegistry {
+  private templates: Map<string, Map<string, PromptTemplate>> = new Map();
+  private defaults: Map<string, string> = new Map();
+
+  public register(template: PromptTemplate, isDefault: boolean = false): this {
+    let versions = this.templates.get(template.name);
+    if (!versions) {
+      versions = new Map();
+      this.templates.set(template.name, versions);
+    }
+
+    versions.set(template.version, template);
+
+    if (isDefault || !this.defaults.has(template.name)) {
+      this.defaults.set(template.name, template.version);
+    }
+
+    return this;
+  }
+
+  public setDefaultVersion(name: string, version: string): this {
+    this.get(name, version);
+    this.defaults.set(name, version);
+    return this;
+  }
+
+  public getTemplateNames(): string[] {
+    return Array.from(this.templates.keys());
+  }
+
+  public getVersions(name: string): string[] {
+    return Array.from(this.templates.get(name)?.keys() ?? []);
+  }
+
+  public getDefaultVersion(name: string): string {
+    const version = this.defaults.get(name);
+    if (!version) {
+      throw new Error(`Prompt template "${name}" is not registered`);
+    }
+    return version;
+  }
+
+  public has(name: string, version: string): boolean {
+    return this.templates.get(name)?.has(version) ?? false;
+  }
+
+  public get(name: string, version?: string): PromptTemplate {
+    const resolvedVersion = version || this.getDefaultVersion(name);
+    const template = this.templates.get(name)?.get(resolvedVersion);
+
+    if (!template) {
+      throw new Error(
+        `Prompt template "${name}" has no version "${resolvedVersion}"`
+      );
+    }
+
+    return template;
+  }
+
+  public render(
+    name: string,
+    variables: Record<string, string>,
+    version?: string
+  ): RenderedPrompt {
+    const template = this.get(name, version);
+    const values = { ...template.defaults, ...variables };
+
+    // Single pass, so placeholders inside substituted values are left alone
+    const text = template.template.replace(
+      /\{\{(\w+)\}\}/g,
+      (_, key: string) => values[key] ?? ''
+    );
+
+    return { text, version: template.version };
+  }
+
+  /**
+   * Picks a version by weight, deterministically for a given key so the same
+   * job always lands on the same version. Unknown or zero-weight versions are
+   * ignored; without usable weights the default version is returned.
+   */
+  public selectVersion(
+    name: string,
+    key: string,
+    weights?: PromptVersionWeights
+  ): string {
+    const candidates = Object.entries(weights ?? {}).filter(
+      ([version, weight]) => weight > 0 && this.has(name, version)
+    );
+    const total = candidates.reduce((sum, [, weight]) => sum + weight, 0);
+
+    if (total === 0) {
+      return this.getDefaultVersion(name);
+    }
+
+    const bucket =
+      (parseInt(
+        createHash('sha256').update(`${name}:${key}`).digest('hex').slice(0, 8),
+        16
+      ) /
+        0x100000000) *
+      total;
+
+    let cumulative = 0;
+    for (const [version, weight] of candidates) {
+      cumulative += weight;
+      if (bucket < cumulative) {
+        return version;
+      }
+    }
+
+    return candidates[candidates.length - 1][0];
+  }
+}
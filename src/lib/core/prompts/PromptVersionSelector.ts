@@ -0,0 +1,55 @@
+import { IPromptVersionSelector } from '../../domain/services/ComponentGenerationService';
+import {
+  IPromptSplitRepository,
+  PromptSplit,
+} from '../../domain/repositories/IPromptSplitRepository';
+import { PromptTemplateRegistry } from './PromptTemplateRegistry';
+
+/**
+ * Chooses the template versions for each job from the admin-configured
+ * traffic splits. Splits are cached briefly so every job does not hit the
+ * database; templates without a split use their default version.
+ */
+export class PromptVersionSelector implements IPromptVersionSelector {
+  private cachedSplits: PromptSplit[] | null = null;
+  private cachedAt = 0;
+
+  constructor(
+    private registry: PromptTemplateRegistry,
+    private splitRepository: IPromptSplitRepository,
+    private cacheTtlMs: number = 30000
+  ) {}
+
+  async selectVersions(jobId: string): Promise<Record<string, string>> {
+    const splits = await this.getSplits();
+    const versions: Record<string, string> = {};
+
+    for (const name of this.registry.getTemplateNames()) {
+      const split = splits.find(candidate => candidate.templateName === name);
+      versions[name] = this.registry.selectVersion(name, jobId, split?.weights);
+    }
+
+    return versions;
+  }
+
+  public invalidate(): void {
+    this.cachedSplits = null;
+  }
+
+  private async getSplits(): Promise<PromptSplit[]> {
+    if (this.cachedSplits && Date.now() - this.cachedAt < this.cacheTtlMs) {
+      return this.cachedSplits;
+    }
+
+    try {
+      this.cachedSplits = await this.splitRepository.findAll();
+      this.cachedAt = Date.now();
+    } catch (error) {
+      // A broken split table must never block generation
+      console.error('PromptVersionSelector: Failed to load splits:', error);
+      return this.cachedSplits ?? [];
+    }
+
+    return this.cachedSplits;
+  }
+}
@@ -0,0 +1,265 @@
+import {
+  PromptTemplate,
+  PromptTemplateRegistry,
+} from './PromptTemplateRegistry';
+
+const GENERATION_SCHEMA = `You are a React component generator. You MUST return ONLY valid JSON matching this exact schema:
+
+{
+  "componentType": "string (one of: {{componentTypes}})",
+  "componentName": "string (PascalCase, starts with uppercase)",
+  "propsSchema": {
+    "props": [
+      {
+        "name": "string",
+        "type": "string (TypeScript type)",
+        "required": "boolean",
+        "description": "string (optional)"
+      }
+    ]
+  },
+  "code": "string (complete React TypeScript component)",
+  "previewContent": "string (complete HTML with inline JavaScript for iframe preview)",
+  "variants": ["string array (optional)"],
+  "description": "string (optional)",
+  "examples": ["string array (optional)"]
+}`;
+
+const GENERATION_RULES = `CRITICAL RULES:
+1. Output ONLY valid JSON - no text before or after
+2. Generate TWO versions:
+   - "code": Full TypeScript React component for download/editing
+   - "previewContent": Complete HTML page with inline JavaScript for iframe preview
+3. The previewContent must be a complete HTML document that renders the component using vanilla JavaScript and React from CDN
+4. Use ONLY these imports in code: @mui/material, @mui/x-data-grid (tables only), react-hook-form (forms only)
+5. Component name must be PascalCase and descriptive
+6. NO dangerouslySetInnerHTML, window, document.cookie, or external network calls
+7. Include proper accessibility attributes (aria-label, role, etc.)
+8. IMPORTANT: Component should be fully functional with default props for preview purposes
+9. For tables: provide default sample data (users, products, etc.)
+10. For forms: provide default values and handlers that show alerts
+11. For buttons: provide default onClick handlers
+
+PREVIEW CONTENT REQUIREMENTS:
+- Complete HTML document with DOCTYPE, head, body
+- Load React, ReactDOM, and MUI from CDN (esm.sh)
+- Use vanilla JavaScript with React.createElement
+- Include proper error handling
+- Component should render immediately without external dependencies
+- Use string concatenation instead of template literals
+- All event handlers should work (alerts, console.log, etc.)`;
+
+const INTENT_FIRST_RULES = `INTENT FIRST:
+Before writing any code, decide which single UI element the user is primarily asking for.
+- "componentType" must be the MUI component that IS that element, not one that merely contains it
+- Prefer the preferred component type when one is given, unless it clearly contradicts the request
+- Every prop must serve something the user asked for; do not add unrelated features`;
+
+const FEW_SHOT_EXAMPLES = `
+Example 1:
+Input: "simple button with click handler"
+Output: {
+  "componentType": "MUIButton",
+  "componentName": "ActionButton",
+  "propsSchema": {
+    "props": [
+      {"name": "label", "type": "string", "required": false},
+      {"name": "onClick", "type": "() => void", "required": false},
+      {"name": "variant", "type": "'contained' | 'outlined' | 'text'", "required": false}
+    ]
+  },
+  "code": "import React from 'react';\\nimport { Button } from '@mui/material';\\n\\ninterface ActionButtonProps {\\n  label?: string;\\n  onClick?: () => void;\\n  variant?: 'contained' | 'outlined' | 'text';\\n}\\n\\nconst ActionButton: React.FC<ActionButtonProps> = ({ \\n  label = 'Click Me', \\n  onClick = () => alert('Button clicked!'), \\n  variant = 'contained' \\n}) => {\\n  return (\\n    <Button \\n      variant={variant} \\n      onClick={onClick}\\n      sx={{ m: 2 }}\\n    >\\n      {label}\\n    </Button>\\n  );\\n};\\n\\nexport default ActionButton;",
+  "previewContent": "<!DOCTYPE html>\\n<html lang=\\"en\\">\\n<head>\\n  <meta charset=\\"UTF-8\\">\\n  <meta name=\\"viewport\\" content=\\"width=device-width, initial-scale=1.0\\">\\n  <title>ActionButton Preview</title>\\n  <link rel=\\"stylesheet\\" href=\\"https://fonts.googleapis.com/css?family=Roboto:300,400,500,700&display=swap\\">\\n  <style>\\n    body { margin: 0; padding: 16px; font-family: 'Roboto', sans-serif; background-color: #fafafa; }\\n  </style>\\n</head>\\n<body>\\n  <div id=\\"root\\"></div>\\n  <script type=\\"module\\">\\n    import React from 'https://esm.sh/react@18';\\n    import { createRoot } from 'https://esm.sh/react-dom@18/client';\\n    import { Button } from 'https://esm.sh/@mui/material@5.15.0';\\n\\n    const ActionButton = () => {\\n      const handleClick = () => alert('Button clicked!');\\n      return React.createElement(Button, {\\n        variant: 'contained',\\n        onClick: handleClick,\\n        sx: { m: 2 }\\n      }, 'Click Me');\\n    };\\n\\n    const root = createRoot(document.getElementById('root'));\\n    root.render(React.createElement(ActionButton));\\n  </script>\\n</body>\\n</html>"
+}
+
+Example 2:
+Input: "card with title and description"
+Output: {
+  "componentType": "MUICard",
+  "componentName": "InfoCard",
+  "propsSchema": {
+    "props": [
+      {"name": "title", "type": "string", "required": false},
+      {"name": "description", "type": "string", "required": false}
+    ]
+  },
+  "code": "import React from 'react';\\nimport { Card, CardContent, Typography } from '@mui/material';\\n\\ninterface InfoCardProps {\\n  title?: string;\\n  description?: string;\\n}\\n\\nconst InfoCard: React.FC<InfoCardProps> = ({ \\n  title = 'Sample Title', \\n  description = 'This is a sample description for the card component.' \\n}) => {\\n  return (\\n    <Card sx={{ maxWidth: 400, m: 2 }}>\\n      <CardContent>\\n        <Typography variant=\\"h5\\" component=\\"h2\\" gutterBottom>\\n          {title}\\n        </Typography>\\n        <Typography variant=\\"body2\\" color=\\"text.secondary\\">\\n          {description}\\n        </Typography>\\n      </CardContent>\\n    </Card>\\n  );\\n};\\n\\nexport default InfoCard;",
+  "previewContent": "<!DOCTYPE html>\\n<html lang=\\"en\\">\\n<head>\\n  <meta charset=\\"UTF-8\\">\\n  <meta name=\\"viewport\\" content=\\"width=device-width, initial-scale=1.0\\">\\n  <title>InfoCard Preview</title>\\n  <link rel=\\"stylesheet\\" href=\\"https://fonts.googleapis.com/css?family=Roboto:300,400,500,700&display=swap\\">\\n  <style>\\n    body { margin: 0; padding: 16px; font-family: 'Roboto', sans-serif; background-color: #fafafa; }\\n  </style>\\n</head>\\n<body>\\n  <div id=\\"root\\"></div>\\n  <script type=\\"module\\">\\n    import React from 'https://esm.sh/react@18';\\n    import { createRoot } from 'https://esm.sh/react-dom@18/client';\\n    import { Card, CardContent, Typography } from 'https://esm.sh/@mui/material@5.15.0';\\n\\n    const InfoCard = () => {\\n      return React.createElement(Card, { sx: { maxWidth: 400, m: 2 } },\\n        React.createElement(CardContent, null,\\n          React.createElement(Typography, { variant: 'h5', component: 'h2', gutterBottom: true }, 'Sample Title'),\\n          React.createElement(Typography, { variant: 'body2', color: 'text.secondary' }, 'This is a sample description for the card component.')\\n        )\\n      );\\n    };\\n\\n    const root = createRoot(document.getElementById('root'));\\n    root.render(React.createElement(InfoCard));\\n  </script>\\n</body>\\n</html>"
+}`;
+
+/**
+ * Original generation prompt: schema, rules, then the request.
+ */
+export const generationV1: PromptTemplate = {
+  name: 'generation',
+  version: 'v1',
+  description: 'Schema and rules first, user request last',
+  template: `${GENERATION_SCHEMA}
+
+${GENERATION_RULES}
+
+{{context}}
+{{options}}
+{{preferredType}}
+
+Examples:
+{{examples}}
+
+User Request: "{{prompt}}"
+
+Generate the component as JSON:`,
+  defaults: { examples: FEW_SHOT_EXAMPLES },
+};
+
+/**
+ * Asks the model to settle on the intended component type before generating,
+ * and repeats the request ahead of the examples.
+ */
+export const generationV2: PromptTemplate = {
+  name: 'generation',
+  version: 'v2',
+  description: 'Intent-first: pick the component type before writing code',
+  template: `User Request: "{{prompt}}"
+
+${GENERATION_SCHEMA}
+
+${INTENT_FIRST_RULES}
+
+${GENERATION_RULES}
+
+{{context}}
+{{options}}
+{{preferredType}}
+
+Examples:
+{{examples}}
+
+User Request (repeated): "{{prompt}}"
+
+Generate the component as JSON:`,
+  defaults: { examples: FEW_SHOT_EXAMPLES },
+};
+
+/**
+ * Follow-up instruction against an existing component; the model returns
+ * the whole revised component in the generation schema.
+ */
+export const refinementV1: PromptTemplate = {
+  name: 'refinement',
+  version: 'v1',
+  description: 'Revise an existing component from a follow-up instruction',
+  template: `You are revising an existing React component. Apply the latest instruction to the current code.
+
+${GENERATION_SCHEMA}
+
+${GENERATION_RULES}
+
+REVISION RULES:
+- Start from the current code and keep everything the instruction does not ask to change
+- Keep componentName and componentType unless the instruction asks otherwise
+- Return the complete revised component, not a patch, and regenerate previewContent to match
+- Earlier instructions have already been applied; do not undo them
+
+Current component ({{componentType}} "{{componentName}}"):
+{{code}}
+
+Earlier instructions (oldest first):
+{{history}}
+
+Latest instruction: "{{prompt}}"
+
+Return the revised component as JSON:`,
+};
+
+/**
+ * Generated code failed validation; the model gets the numbered code and
+ * the validator's diagnostics and returns the corrected component.
+ */
+export const codeRepairV1: PromptTemplate = {
+  name: 'code-repair',
+  version: 'v1',
+  description: 'Fix TypeScript and safety diagnostics in generated code',
+  template: `You generated a React component that failed validation. Fix every problem listed below.
+
+${GENERATION_SCHEMA}
+
+${GENERATION_RULES}
+
+REPAIR RULES:
+- Diagnostics are "line:column [source] message"; lines refer to the numbered code below
+- Change only what is needed to fix the diagnostics; keep the component's behaviour, name and type
+- Do not work around safety diagnostics with other forbidden APIs; remove the unsafe code instead
+- Return the complete corrected component, not a patch, and keep previewContent consistent with it
+
+Original request: "{{prompt}}"
+
+Code ({{componentType}} "{{componentName}}"):
+{{code}}
+
+Diagnostics (repair round {{round}}):
+{{diagnostics}}
+
+Return the corrected component as JSON:`,
+};
+
+export const analysisV1: PromptTemplate = {
+  name: 'analysis',
+  version: 'v1',
+  description: 'Rank candidate component types for a request',
+  template: `Analyze this component request and return JSON with possible component types ranked by relevance:
+
+{
+  "candidates": [
+    {
+      "type": "ComponentType",
+      "score": 0.95,
+      "reason": "explanation",
+      "confidence": 0.9
+    }
+  ]
+}
+
+Available types: {{componentTypes}}
+
+User request: "{{prompt}}"
+
+Return analysis as JSON:`,
+};
+
+export const repairV1: PromptTemplate = {
+  name: 'repair',
+  version: 'v1',
+  description: 'Re-prompt after a response failed schema validation',
+  template: `{{originalPrompt}}
+
+Your previous response was rejected because it did not match the required JSON schema.
+
+Validation errors:
+{{errors}}
+
+Previous response:
+{{previousResponse}}
+
+Return ONLY the corrected JSON object. Fix every error listed above and keep everything that was already valid unchanged.`,
+};
+
+export const BUILT_IN_PROMPT_TEMPLATES: PromptTemplate[] = [
+  generationV1,
+  generationV2,
+  refinementV1,
+  codeRepairV1,
+  analysisV1,
+  repairV1,
+];
+
+/**
+ * Registry with every built-in template; the first version of each is the
+ * default until an admin splits traffic.
+ */
+export function createPromptTemplateRegistry(): PromptTemplateRegistry {
+  const registry = new PromptTemplateRegistry();
+  BUILT_IN_PROMPT_TEMPLATES.forEach(template => registry.register(template));
+  return registry;
+}
+
+export const defaultPromptTemplates = createPromptTemplateRegistry();
@@ -0,0 +1,99 @@
+import {
+  IPromptScreener,
+  PromptScreeningDecision,
+  PromptScreeningFinding,
+} from '../../domain/services/ComponentGenerationService';
+import {
+  DISALLOWED_RULES,
+  INJECTION_RULES,
+  SECRET_RULES,
+  ScreeningRule,
+  SecretRule,
+} from './rules';
+
+// 'monitor' records what enforcement would reject but lets it through
+export type PromptScreeningMode = 'enforce' | 'monitor';
+
+export interface PromptScreenerOptions {
+  mode?: PromptScreeningMode;
+  rules?: ScreeningRule[];
+  secretRules?: SecretRule[];
+}
+
+const MAX_EXCERPT_LENGTH = 80;
+
+/**
+ * Screens prompts before they are stored or reach a provider. Injection
+ * attempts and disallowed requests reject the prompt; secrets are replaced
+ * with `[REDACTED:<rule>]` placeholders and the prompt goes ahead. Secrets
+ * are redacted first so rule excerpts never quote them.
+ */
+export class PromptScreener implements IPromptScreener {
+  private mode: PromptScreeningMode;
+  private rules: ScreeningRule[];
+  private secretRules: SecretRule[];
+
+  constructor(options: PromptScreenerOptions = {}) {
+    this.mode = options.mode ?? 'enforce';
+    this.rules = options.rules ?? [...INJECTION_RULES, ...DISALLOWED_RULES];
+    this.secretRules = options.secretRules ?? SECRET_RULES;
+  }
+
+  screen(prompt: string): PromptScreeningDecision {
+    const findings: PromptScreeningFinding[] = [];
+
+    let redacted = prompt;
+    for (const rule of this.secretRules) {
+      redacted = redacted.replace(rule.pattern, (match, ...groups) => {
+        const secret = rule.group ? groups[rule.group - 1] : match;
+        // Already replaced by a more specific rule
+        if (typeof secret !== 'string' || secret.startsWith('[REDACTED:')) {
+          return match;
+        }
+
+        findings.push({ category: 'secret', rule: rule.id, action: 'redact' });
+
+        const at = match.lastIndexOf(secret);
+        return (
+          match.slice(0, at) +
+          `[REDACTED:${rule.id}]` +
+          match.slice(at + secret.length)
+        );
+      });
+    }
+
+    for (const rule of this.rules) {
+      const match = redacted.match(rule.pattern);
+      if (!match) continue;
+
+      findings.push({
+        category: rule.category,
+        rule: rule.id,
+        action: 'reject',
+        reason: rule.reason,
+        excerpt: match[0].trim().slice(0, MAX_EXCERPT_LENGTH),
+      });
+    }
+
+    const rejected =
+      this.mode === 'enforce' &&
+      findings.some(finding => finding.action === 'reject');
+
+    return {
+      action: rejected ? 'reject' : redacted !== prompt ? 'redact' : 'allow',
+      prompt: redacted,
+      findings,
+      screenedAt: new Date().toISOString(),
+    };
+  }
+
+  public static fromEnvironment(
+    env: NodeJS.ProcessEnv = process.env
+  ): PromptScreener {
+    const mode = env.PROMPT_SCREENING_MODE;
+
+    return new PromptScreener({
+      mode: mode === 'enforce' || mode === 'monitor' ? mode : undefined,
+    });
+  }
+}
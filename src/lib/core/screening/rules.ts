@@ -0,0 +1,129 @@
+import { PromptScreeningCategory } from '../../domain/services/ComponentGenerationService';
+
+export interface ScreeningRule {
+  id: string;
+  category: PromptScreeningCategory;
+  pattern: RegExp;
+  // Shown to the user when the rule rejects a prompt
+  reason: string;
+}
+
+export interface SecretRule {
+  id: string;
+  pattern: RegExp;
+  // Capture group holding the secret; the whole match when unset
+  group?: number;
+}
+
+/**
+ * Attempts to steer the model away from the generation prompt: overriding
+ * or revealing its instructions, role hijacking and fake role markers.
+ */
+export const INJECTION_RULES: ScreeningRule[] = [
+  {
+    id: 'ignore-instructions',
+    category: 'injection',
+    // Only instructions that belong to the model: "ignore your/previous/
+    // system instructions", not "override all validation rules"
+    pattern:
+      /\b(ignore|disregard|forget|override|bypass)\b[^.\n]{0,30}(\b(your|previous|prior|above|earlier|preceding|system|initial|original|developer)\s+(\w+\s+)?(instructions?|prompts?|rules|directions|guidelines|constraints)\b|\b(instructions?|prompts?|rules|directions|guidelines)\s+(above|you were given|you have been given)\b)/i,
+    reason: 'Prompts may not override the generator instructions',
+  },
+  {
+    id: 'reveal-instructions',
+    category: 'injection',
+    pattern:
+      /\b(reveal|print|show|repeat|output|leak|dump|display)\b[^.\n]{0,30}\b(your\s+((system|hidden|initial|original)\s+)?(prompt|instructions?|message)|(system|hidden|initial|original|developer)\s+(prompt|instructions?))\b/i,
+    reason: 'Prompts may not ask for the generator instructions',
+  },
+  {
+    id: 'role-hijack',
+    category: 'injection',
+    pattern:
+      /\b(you are now|you are no longer|from now on,? you|act as an? (unrestricted|unfiltered|jailbroken)|jailbreak|DAN mode)\b/i,
+    reason: 'Prompts may not redefine the generator role',
+  },
+  {
+    id: 'role-marker',
+    category: 'injection',
+    pattern:
+      /(^\s*(system|assistant|developer)\s*:|<\/?(system|instructions?|im_start|im_end)>|\[\/?INST\])/im,
+    reason: 'Prompts may not contain chat role markers',
+  },
+];
+
+/**
+ * Requests for code the generated components must not contain. These
+ * mirror the validator's forbidden APIs, so asking for them can only
+ * produce a component that fails validation or something worse.
+ */
+export const DISALLOWED_RULES: ScreeningRule[] = [
+  {
+    id: 'forbidden-api',
+    category: 'disallowed',
+    // Code, not the plain verb: "fetch(" or "fetch calls", never "a button
+    // that can fetch the next page"
+    pattern:
+      /\b(emit|add|include|insert|inject|embed|call|use|make|send|write)(s|d|ed)?\b[^.\n]{0,40}(\bfetch\s*\(|\bfetch\s+(calls?|requests?|api)\b|\bnetwork\s+(calls?|requests?)\b|\bXMLHttpRequest\b|\bWebSocket\b|\beval\b|\bnew Function\b|document\.cookie|\blocalStorage\b|\bsessionStorage\b|\bpostMessage\b|dangerouslySetInnerHTML|<script)/i,
+    reason:
+      'Generated components may not make network calls, run dynamic code or touch browser storage',
+  },
+  {
+    id: 'credential-theft',
+    category: 'disallowed',
+    pattern:
+      /\b(steal|harvest|exfiltrate|capture|grab|phish)\w*\b[^.\n]{0,40}\b(passwords?|credentials?|cookies?|tokens?|sessions?|logins?|credit cards?)\b/i,
+    reason: 'Prompts may not request credential theft',
+  },
+  {
+    id: 'malware',
+    category: 'disallowed',
+    pattern:
+      /\b(keylogger|key logger|cryptominer|crypto miner|ransomware|malware|backdoor|botnet|clickjack\w*)\b/i,
+    reason: 'Prompts may not request malicious software',
+  },
+  {
+    id: 'phishing-page',
+    category: 'disallowed',
+    pattern:
+      /\b(fake|spoofed?|clone[ds]?|copy of|imitat\w*)\b[^.\n]{0,30}\b(login|sign[- ]?in|bank\w*|paypal|google|microsoft|apple)\b[^.\n]{0,30}\b(page|form|screen|portal)\b/i,
+    reason: 'Prompts may not request impersonation of other services',
+  },
+];
+
+/**
+ * Credentials pasted into prompts. Matches are replaced before the prompt
+ * is stored, cached or sent to a provider.
+ */
+export const SECRET_RULES: SecretRule[] = [
+  {
+    id: 'private-key',
+    pattern:
+      /-----BEGIN [A-Z ]*PRIVATE KEY-----[\s\S]*?(-----END [A-Z ]*PRIVATE KEY-----|$)/g,
+  },
+  { id: 'aws-access-key', pattern: /\b(AKIA|ASIA)[0-9A-Z]{16}\b/g },
+  {
+    id: 'github-token',
+    pattern: /\b(gh[pousr]_[A-Za-z0-9]{36,}|github_pat_[A-Za-z0-9_]{22,})\b/g,
+  },
+  { id: 'openai-key', pattern: /\bsk-(proj-)?[A-Za-z0-9_-]{20,}/g },
+  { id: 'stripe-key', pattern: /\b(sk|rk|pk)_(live|test)_[A-Za-z0-9]{16,}\b/g },
+  { id: 'google-api-key', pattern: /\bAIza[0-9A-Za-z_-]{35}\b/g },
+  { id: 'slack-token', pattern: /\bxox[abprs]-[A-Za-z0-9-]{10,}\b/g },
+  {
+    id: 'jwt',
+    pattern:
+      /\beyJ[A-Za-z0-9_-]{10,}\.eyJ[A-Za-z0-9_-]{10,}\.[A-Za-z0-9_-]{10,}/g,
+  },
+  {
+    id: 'connection-string',
+    pattern: /\b[a-z][a-z0-9+.-]*:\/\/[^\s:@/]+:([^\s@/]+)@/gi,
+    group: 1,
+  },
+  {
+    id: 'assigned-secret',
+    pattern:
+      /\b(password|passwd|pwd|secret|api[_-]?key|access[_-]?token|auth[_-]?token|client[_-]?secret|private[_-]?key)\b["']?\s*[:=]\s*["']?([^\s"',;]{8,})/gi,
+    group: 2,
+  },
+];
@@ -71,6 +71,40 @@ export class Component {
     }
   }
 
+  // Copy with revised code and the patch version bumped (e.g. after a refinement)
+  public revise(changes: {
+    code: string;
+    propsSchema?: PropsSchema;
+    description?: string;
+    // e.g. complexity and metrics measured on the new code
+    metadata?: Partial<ComponentMetadata>;
+  }): Component {
+    const [major = 1, minor = 0, patch = 0] = this.version.split('.').map(part => parseInt(part, 10) || 0);
+
+    return new Component(
+      this.id,
+      this.name,
+      this.type,
+      changes.code,
+      changes.propsSchema ?? this.propsSchema,
+      changes.description ?? this.description,
+      this.examples,
+      [...this.tags],
+      this.metadata && {
+        ...this.metadata,
+        ...changes.metadata,
+        estimatedLines: changes.code.split('\n').length,
+        lastModified: new Date(),
+      },
+      `${major}.${minor}.${patch + 1}`,
+      this.ownerId,
+      this.createdAt,
+      new Date(),
+      this.usageCount,
+      this.lastUsedAt
+    );
+  }
+
   public isOwnedBy(userId: string): boolean {
     return this.ownerId === userId;
   }
@@ -1,11 +1,26 @@
 import {
+  GenerationProgressEvent,
   GenerationRequest,
   GenerationResponse,
   GenerationStatus,
+  LLMExchange,
 } from '@/types';
 
+export const DEFAULT_MAX_RETRIES = 2;
+
+// Raw prompts and responses are kept up to this many characters each
+const MAX_EXCHANGE_TEXT_LENGTH = 50000;
+
 export class GenerationJob {
   public componentId?: string;
+  // Owner of the job; components it saves belong to this user
+  public userId?: string;
+  // Batch the job was submitted with, if any
+  public batchId?: string;
+  // Repeated requests with this key (per user) get this job back
+  public idempotencyKey?: string;
+  // Backend calls made for the job, oldest first, across retries
+  public llmExchanges: LLMExchange[] = [];
 
   constructor(
     public readonly id: string,
@@ -17,7 +32,7 @@ export class GenerationJob {
     public startedAt?: Date,
     public completedAt?: Date,
     public retryCount: number = 0,
-    public readonly maxRetries: number = 2,
+    public readonly maxRetries: number = DEFAULT_MAX_RETRIES,
     public metadata?: Record<string, any>
   ) {
     this.validateRequest(request);
@@ -68,29 +83,44 @@ export class GenerationJob {
     this.completedAt = new Date();
   }
 
-  public timeout(): void {
+  public timeout(error: Error = new Error('Generation job timed out')): void {
     if (this.status !== GenerationStatus.PROCESSING) {
       throw new Error(`Cannot timeout job in ${this.status} status`);
     }
     this.status = GenerationStatus.TIMEOUT;
-    this.error = new Error('Generation job timed out');
+    this.error = error;
     this.completedAt = new Date();
   }
 
-  public rateLimit(): void {
+  // Allowed until the job has finished; a cancelled job saves nothing
+  public cancel(): void {
+    if (this.isCompleted()) {
+      throw new Error(`Cannot cancel job in ${this.status} status`);
+    }
+    this.status = GenerationStatus.CANCELLED;
+    this.completedAt = new Date();
+  }
+
+  public rateLimit(error: Error = new Error('Rate limit exceeded')): void {
     this.status = GenerationStatus.RATE_LIMITED;
-    this.error = new Error('Rate limit exceeded');
+    this.error = error;
     this.completedAt = new Date();
   }
 
   public canRetry(): boolean {
     return (
       this.retryCount < this.maxRetries &&
+      this.getMetadata('retryable') !== false &&
       (this.status === GenerationStatus.FAILED ||
         this.status === GenerationStatus.TIMEOUT)
     );
   }
 
+  // Failures that would fail the same way again (rejected prompt, aborted stage)
+  public markNonRetryable(): void {
+    this.addMetadata('retryable', false);
+  }
+
   public retry(): void {
     if (!this.canRetry()) {
       throw new Error(
@@ -117,6 +147,7 @@ export class GenerationJob {
       GenerationStatus.PARTIAL,
       GenerationStatus.TIMEOUT,
       GenerationStatus.RATE_LIMITED,
+      GenerationStatus.CANCELLED,
     ].includes(this.status);
   }
 
@@ -135,19 +166,52 @@ export class GenerationJob {
       case GenerationStatus.PENDING:
         return 0;
       case GenerationStatus.PROCESSING:
-        return 50;
+        return this.getProgressEvents().at(-1)?.percent ?? 5;
       case GenerationStatus.SUCCESS:
       case GenerationStatus.PARTIAL:
         return 100;
       case GenerationStatus.FAILED:
       case GenerationStatus.TIMEOUT:
       case GenerationStatus.RATE_LIMITED:
+      case GenerationStatus.CANCELLED:
         return 0;
       default:
         return 0;
     }
   }
 
+  // Kept in metadata under `progress`, oldest first
+  public recordProgress(
+    event: Omit<GenerationProgressEvent, 'at'>
+  ): GenerationProgressEvent {
+    const recorded = { ...event, at: new Date().toISOString() };
+    this.addMetadata('progress', [...this.getProgressEvents(), recorded]);
+    return recorded;
+  }
+
+  public getProgressEvents(): GenerationProgressEvent[] {
+    return this.getMetadata('progress') ?? [];
+  }
+
+  public recordLLMExchange(exchange: LLMExchange): void {
+    const cut = (text?: string) =>
+      text && text.length > MAX_EXCHANGE_TEXT_LENGTH
+        ? text.substring(0, MAX_EXCHANGE_TEXT_LENGTH)
+        : text;
+    const prompt = cut(exchange.prompt)!;
+    const response = cut(exchange.response);
+
+    this.llmExchanges.push({
+      ...exchange,
+      prompt,
+      response,
+      truncated:
+        prompt !== exchange.prompt || response !== exchange.response
+          ? true
+          : exchange.truncated,
+    });
+  }
+
   public addMetadata(key: string, value: any): void {
     if (!this.metadata) {
       this.metadata = {};
@@ -177,6 +241,10 @@ export class GenerationJob {
       completedAt: this.completedAt?.toISOString(),
       retryCount: this.retryCount,
       maxRetries: this.maxRetries,
+      userId: this.userId,
+      batchId: this.batchId,
+      idempotencyKey: this.idempotencyKey,
+      llmExchanges: this.llmExchanges,
       metadata: this.metadata,
     };
   }
@@ -192,10 +260,15 @@ export class GenerationJob {
       data.startedAt ? new Date(data.startedAt) : undefined,
       data.completedAt ? new Date(data.completedAt) : undefined,
       data.retryCount || 0,
-      data.maxRetries || 2,
+      data.maxRetries || DEFAULT_MAX_RETRIES,
       data.metadata
     );
 
+    job.userId = data.userId;
+    job.batchId = data.batchId;
+    job.idempotencyKey = data.idempotencyKey;
+    job.llmExchanges = data.llmExchanges ?? [];
+
     // Restore error stack if available
     if (data.error && job.error) {
       job.error.name = data.error.name;
@@ -0,0 +1,20 @@
+import { BatchSpec } from '@/types';
+
+export interface GenerationBatch {
+  id: string;
+  name?: string;
+  userId?: string;
+  spec: BatchSpec;
+  createdAt: Date;
+  // Set once every job of the batch has finished
+  completedAt?: Date;
+}
+
+export interface IGenerationBatchRepository {
+  create(
+    batch: Omit<GenerationBatch, 'id' | 'createdAt' | 'completedAt'>
+  ): Promise<GenerationBatch>;
+  findById(id: string): Promise<GenerationBatch | null>;
+  // null clears it, when a retried job reopens the batch
+  setCompletedAt(id: string, completedAt: Date | null): Promise<void>;
+}
@@ -0,0 +1,45 @@
+import { ComponentType, GenerationFeedbackIssue } from '@/types';
+
+export interface GenerationFeedback {
+  id: string;
+  jobId: string;
+  // Component the job saved, when it saved one
+  componentId?: string;
+  userId: string;
+  rating: 'up' | 'down';
+  issues: GenerationFeedbackIssue[];
+  // With a wrong_type issue: the type the user wanted instead
+  expectedType?: ComponentType;
+  comment?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// A "wrong component type" rating that names the expected type
+export interface WrongTypeLabel {
+  jobId: string;
+  prompt: string;
+  expected: ComponentType;
+  // Type the job generated
+  generated?: ComponentType;
+  labeledAt: Date;
+}
+
+export interface IGenerationFeedbackRepository {
+  // One per user and job; rating the job again replaces it
+  save(
+    feedback: Omit<GenerationFeedback, 'id' | 'createdAt' | 'updatedAt'>
+  ): Promise<GenerationFeedback>;
+  findByJobAndUser(
+    jobId: string,
+    userId: string
+  ): Promise<GenerationFeedback | null>;
+
+  // Share of thumbs up among the component's ratings
+  getComponentRating(
+    componentId: string
+  ): Promise<{ averageRating: number; ratings: number }>;
+
+  // Newest first, one per prompt
+  findWrongTypeLabels(limit?: number): Promise<WrongTypeLabel[]>;
+}
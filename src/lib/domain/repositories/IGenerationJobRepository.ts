@@ -1,20 +1,52 @@
 import { GenerationJob } from '../entities/GenerationJob';
-import { GenerationStatus } from '@/types';
+import { GenerationMetrics, GenerationStatus } from '@/types';
+
+// create found another job of the same user holding the idempotency key
+export class DuplicateIdempotencyKeyError extends Error {
+  constructor(
+    public readonly userId: string,
+    public readonly idempotencyKey: string
+  ) {
+    super(`Idempotency key "${idempotencyKey}" is already in use`);
+    this.name = 'DuplicateIdempotencyKeyError';
+  }
+}
+
+// Filters for a user's job history; all optional
+export interface GenerationJobQuery {
+  limit?: number;
+  offset?: number;
+  statuses?: GenerationStatus[];
+  // Stored type: the generated one, else the preferred one or 'auto'
+  componentType?: string;
+  // Case-insensitive match anywhere in the prompt
+  search?: string;
+  createdAfter?: Date;
+  createdBefore?: Date;
+  // Generation prompt template version
+  promptVersion?: string;
+}
 
 export interface IGenerationJobRepository {
   // Basic CRUD operations
   create(job: GenerationJob): Promise<GenerationJob>;
   findById(id: string): Promise<GenerationJob | null>;
+  // Just the stored status, for cheap polling (e.g. for cancellation)
+  findStatusById(id: string): Promise<GenerationStatus | null>;
   update(job: GenerationJob): Promise<GenerationJob>;
+  // Like update, but only while the stored job is still in `status`;
+  // resolves null when it has moved on (e.g. was cancelled)
+  updateIfStatus(
+    job: GenerationJob,
+    status: GenerationStatus
+  ): Promise<GenerationJob | null>;
   delete(id: string): Promise<void>;
 
-  // Query operations
-  findAll(options?: {
-    limit?: number;
-    offset?: number;
-    sortBy?: string;
-    sortOrder?: 'asc' | 'desc';
-  }): Promise<{
+  // Query operations. Listed jobs come without their LLM exchanges; load
+  // a job by id for its full audit trail.
+
+  // Newest first, across users unless a userId is given
+  findAll(options?: GenerationJobQuery & { userId?: string }): Promise<{
     jobs: GenerationJob[];
     total: number;
   }>;
@@ -30,31 +62,46 @@ export interface IGenerationJobRepository {
     total: number;
   }>;
 
+  // Newest first
   findByUserId(
     userId: string,
-    options?: {
-      limit?: number;
-      offset?: number;
-    }
+    options?: GenerationJobQuery
   ): Promise<{
     jobs: GenerationJob[];
     total: number;
   }>;
 
+  // The user's job holding the key, however old
+  findByIdempotencyKey(
+    userId: string,
+    idempotencyKey: string
+  ): Promise<GenerationJob | null>;
+
+  // Jobs of a batch, in submission order
+  findByBatchId(batchId: string): Promise<GenerationJob[]>;
+
   findPendingJobs(limit?: number): Promise<GenerationJob[]>;
   findProcessingJobs(): Promise<GenerationJob[]>;
-  findRetryableJobs(limit?: number): Promise<GenerationJob[]>;
+  // Failed or timed out jobs that may run again, oldest failure first
+  findRetryableJobs(
+    limit?: number,
+    completedAfter?: Date
+  ): Promise<GenerationJob[]>;
 
-  // Queue operations
+  // Queue operations. Claims are atomic: of several workers racing for the
+  // same job exactly one gets it, already moved to PROCESSING.
   getNextPendingJob(): Promise<GenerationJob | null>;
-  markAsProcessing(id: string): Promise<void>;
+  // Resolves false when the job was no longer pending
+  markAsProcessing(id: string): Promise<boolean>;
   markAsCompleted(id: string, result: any): Promise<void>;
   markAsFailed(id: string, error: Error): Promise<void>;
+  // Resolves false when the job had already finished
+  markAsCancelled(id: string): Promise<boolean>;
 
   // Cleanup operations
   deleteCompletedJobs(olderThanDays: number): Promise<number>;
   deleteFailedJobs(olderThanDays: number): Promise<number>;
-  
+
   // Statistics
   getJobStats(): Promise<{
     total: number;
@@ -65,18 +112,31 @@ export interface IGenerationJobRepository {
     retryable: number;
   }>;
 
-  getJobMetrics(fromDate?: Date, toDate?: Date): Promise<{
-    totalJobs: number;
-    successfulJobs: number;
-    failedJobs: number;
-    averageProcessingTime: number;
-    successRate: number;
-  }>;
+  // Aggregates over the finished jobs created in the range
+  getJobMetrics(fromDate?: Date, toDate?: Date): Promise<GenerationMetrics>;
+
+  // Outcomes grouped by the generation prompt template version
+  getPromptVersionStats(
+    fromDate?: Date,
+    toDate?: Date
+  ): Promise<
+    Array<{
+      promptVersion: string;
+      totalJobs: number;
+      successfulJobs: number;
+      successRate: number;
+      averageIntentMatch: number;
+      validationPassRate: number;
+    }>
+  >;
 
   // Monitoring
+  // Marks a PROCESSING job as still being worked on
+  recordHeartbeat(id: string): Promise<void>;
+  // PROCESSING jobs without a heartbeat for `timeoutMinutes`
   findStuckJobs(timeoutMinutes: number): Promise<GenerationJob[]>;
   findJobsOlderThan(hours: number): Promise<GenerationJob[]>;
-  
+
   // Bulk operations
   deleteMany(ids: string[]): Promise<void>;
   updateStatus(ids: string[], status: GenerationStatus): Promise<void>;
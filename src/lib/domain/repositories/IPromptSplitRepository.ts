@@ -0,0 +1,18 @@
+export interface PromptSplit {
+  templateName: string;
+  // Relative traffic weight per template version
+  weights: Record<string, number>;
+  updatedAt: Date;
+  updatedBy?: string;
+}
+
+export interface IPromptSplitRepository {
+  findAll(): Promise<PromptSplit[]>;
+  findByTemplateName(templateName: string): Promise<PromptSplit | null>;
+  save(
+    templateName: string,
+    weights: Record<string, number>,
+    updatedBy?: string
+  ): Promise<PromptSplit>;
+  delete(templateName: string): Promise<void>;
+}
@@ -0,0 +1,43 @@
+import { Component } from '../entities/Component';
+
+// Another refinement of the component was saved while this one ran
+export class RefinementConflictError extends Error {
+  constructor(public readonly componentId: string) {
+    super(`Component ${componentId} was refined concurrently; try again`);
+    this.name = 'RefinementConflictError';
+  }
+}
+
+export interface RefinementTurn {
+  id: string;
+  componentId: string;
+  userId?: string;
+  // 1-based position in the component's refinement thread
+  turn: number;
+  instruction: string;
+  previousCode: string;
+  code: string;
+  // Component version after this turn
+  version: string;
+  llmProvider?: string;
+  llmModel?: string;
+  promptTokens: number;
+  completionTokens: number;
+  createdAt: Date;
+}
+
+export interface IRefinementTurnRepository {
+  /**
+   * Saves the revised component and appends the next turn of its thread in
+   * one transaction. Throws RefinementConflictError when the stored
+   * component is no longer at `previousVersion`.
+   */
+  createWithComponent(
+    component: Component,
+    previousVersion: string,
+    turn: Omit<RefinementTurn, 'id' | 'createdAt' | 'turn' | 'code' | 'version'>
+  ): Promise<{ component: Component; turn: RefinementTurn }>;
+
+  // Every turn for the component, oldest first
+  findByComponentId(componentId: string): Promise<RefinementTurn[]>;
+}
@@ -0,0 +1,16 @@
+export interface TokenUsageEntry {
+  userId: string;
+  jobId?: string;
+  provider: string;
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+  estimated: boolean;
+}
+
+export interface ITokenUsageRepository {
+  record(entry: TokenUsageEntry): Promise<void>;
+
+  // Total tokens (prompt + completion) used by a user since the given date
+  getTotalForUser(userId: string, since: Date): Promise<number>;
+}
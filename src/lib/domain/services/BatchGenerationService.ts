@@ -0,0 +1,254 @@
+import { GenerationJob } from '../entities/GenerationJob';
+import {
+  GenerationBatch,
+  IGenerationBatchRepository,
+} from '../repositories/IGenerationBatchRepository';
+import { IGenerationJobRepository } from '../repositories/IGenerationJobRepository';
+import {
+  ComponentGenerationService,
+  GenerationQueueMode,
+} from './ComponentGenerationService';
+import { BatchSpec, GenerationRequest, GenerationStatus } from '@/types';
+
+// Jobs of one batch generated at the same time in inline mode
+const DEFAULT_BATCH_CONCURRENCY = 2;
+
+export interface BatchItemReport {
+  // Position of the component in the spec
+  index: number;
+  name: string;
+  // Missing when the job could not be created
+  jobId?: string;
+  status: GenerationStatus;
+  progress: number;
+  // Saved component, for jobs that succeeded
+  componentId?: string;
+  error?: string;
+}
+
+export interface BatchReport {
+  id: string;
+  name?: string;
+  userId?: string;
+  createdAt: Date;
+  completedAt?: Date;
+  // PENDING or PROCESSING while jobs run; then SUCCESS, PARTIAL (some jobs
+  // succeeded), FAILED or CANCELLED
+  status: GenerationStatus;
+  finished: boolean;
+  // Average over the jobs, finished ones counting as 100
+  progress: number;
+  counts: {
+    total: number;
+    succeeded: number;
+    failed: number;
+    cancelled: number;
+    pending: number;
+    processing: number;
+  };
+  items: BatchItemReport[];
+}
+
+/**
+ * Generates every component of a batch spec as its own job, linked to one
+ * parent batch. A failing component does not stop the others; the report
+ * lists what succeeded once all jobs have finished.
+ */
+export class BatchGenerationService {
+  constructor(
+    private batchRepository: IGenerationBatchRepository,
+    private jobRepository: IGenerationJobRepository,
+    private generationService: ComponentGenerationService,
+    private queueMode: GenerationQueueMode = 'inline',
+    private concurrency: number = DEFAULT_BATCH_CONCURRENCY
+  ) {
+    if (this.concurrency < 1) {
+      throw new Error('Batch concurrency must be at least 1');
+    }
+  }
+
+  public async submitBatch(
+    spec: BatchSpec,
+    userId?: string
+  ): Promise<BatchReport> {
+    const batch = await this.batchRepository.create({
+      name: spec.name,
+      userId,
+      spec,
+    });
+
+    console.log(
+      `BatchGenerationService: batch ${batch.id} with ${spec.components.length} components`
+    );
+
+    const jobIds: string[] = [];
+    for (const [index, component] of spec.components.entries()) {
+      const request: GenerationRequest = {
+        prompt: component.prompt,
+        preferredType: component.preferredType,
+        name: component.name,
+        tags: component.tags,
+        context: spec.context,
+        llm: spec.llm,
+      };
+
+      try {
+        const job = await this.generationService.createJob(request, userId, {
+          batch: { batchId: batch.id, index },
+        });
+        jobIds.push(job.id);
+      } catch (error) {
+        // Rejected prompts are stored as failed jobs; either way the rest of
+        // the batch goes ahead and the report shows this component as failed
+        console.error(
+          `BatchGenerationService: component "${component.name}" of batch ${batch.id} not queued:`,
+          error
+        );
+      }
+    }
+
+    // In worker mode the jobs stay PENDING for a GenerationWorker
+    if (this.queueMode === 'inline') {
+      this.runJobs(batch.id, jobIds, userId).catch(error => {
+        console.error(`Batch ${batch.id} processing failed:`, error);
+      });
+    }
+
+    return this.summarize(
+      batch,
+      await this.jobRepository.findByBatchId(batch.id)
+    );
+  }
+
+  // Resolves null when the batch doesn't exist
+  public async getReport(batchId: string): Promise<BatchReport | null> {
+    const batch = await this.batchRepository.findById(batchId);
+    if (!batch) {
+      return null;
+    }
+
+    const jobs = await this.jobRepository.findByBatchId(batchId);
+    const report = this.summarize(batch, jobs);
+
+    // Stamped when first seen finished; cleared if a retried job reopens it
+    if (report.finished !== Boolean(batch.completedAt)) {
+      const completedAt = report.finished ? lastCompletedAt(jobs) : null;
+      await this.batchRepository.setCompletedAt(batch.id, completedAt);
+      report.completedAt = completedAt ?? undefined;
+    }
+
+    return report;
+  }
+
+  // Runs the batch's jobs a few at a time, in spec order
+  private async runJobs(
+    batchId: string,
+    jobIds: string[],
+    userId?: string
+  ): Promise<void> {
+    let next = 0;
+    const runNext = async () => {
+      while (next < jobIds.length) {
+        const jobId = jobIds[next++];
+        try {
+          await this.generationService.processGenerationJob(jobId, userId);
+        } catch (error) {
+          // Recorded on the job; the batch carries on
+          console.error(`Batch job ${jobId} failed:`, error);
+        }
+      }
+    };
+
+    await Promise.all(
+      Array.from({ length: Math.min(this.concurrency, jobIds.length) }, runNext)
+    );
+
+    await this.getReport(batchId);
+  }
+
+  private summarize(
+    batch: GenerationBatch,
+    jobs: GenerationJob[]
+  ): BatchReport {
+    const jobsByIndex = new Map(
+      jobs.map(job => [job.getMetadata('batchIndex') as number, job])
+    );
+
+    const items = batch.spec.components.map(
+      (component, index): BatchItemReport => {
+        const job = jobsByIndex.get(index);
+        if (!job) {
+          return {
+            index,
+            name: component.name,
+            status: GenerationStatus.FAILED,
+            progress: 100,
+            error: 'Job could not be created',
+          };
+        }
+
+        const succeeded =
+          job.status === GenerationStatus.SUCCESS ||
+          job.status === GenerationStatus.PARTIAL;
+
+        return {
+          index,
+          name: component.name,
+          jobId: job.id,
+          status: job.status,
+          progress: job.isCompleted() ? 100 : job.getProgressPercentage(),
+          componentId: succeeded ? job.componentId : undefined,
+          error: job.error?.message,
+        };
+      }
+    );
+
+    const count = (status: GenerationStatus) =>
+      items.filter(item => item.status === status).length;
+    const total = items.length;
+    const succeeded = items.filter(item => item.componentId).length;
+    const cancelled = count(GenerationStatus.CANCELLED);
+    const pending = count(GenerationStatus.PENDING);
+    const processing = count(GenerationStatus.PROCESSING);
+    const failed = total - succeeded - cancelled - pending - processing;
+    const finished = pending === 0 && processing === 0;
+
+    let status: GenerationStatus;
+    if (!finished) {
+      status =
+        pending === total
+          ? GenerationStatus.PENDING
+          : GenerationStatus.PROCESSING;
+    } else if (succeeded === total) {
+      status = GenerationStatus.SUCCESS;
+    } else if (succeeded > 0) {
+      status = GenerationStatus.PARTIAL;
+    } else if (cancelled === total) {
+      status = GenerationStatus.CANCELLED;
+    } else {
+      status = GenerationStatus.FAILED;
+    }
+
+    return {
+      id: batch.id,
+      name: batch.name,
+      userId: batch.userId,
+      createdAt: batch.createdAt,
+      completedAt: batch.completedAt,
+      status,
+      finished,
+      progress: Math.round(
+        items.reduce((sum, item) => sum + item.progress, 0) / total
+      ),
+      counts: { total, succeeded, failed, cancelled, pending, processing },
+      items,
+    };
+  }
+}
+
+function lastCompletedAt(jobs: GenerationJob[]): Date {
+  const times = jobs
+    .map(job => job.completedAt?.getTime())
+    .filter((time): time is number => time !== undefined);
+  return times.length > 0 ? new Date(Math.max(...times)) : new Date();
+}
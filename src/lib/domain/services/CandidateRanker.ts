@@ -0,0 +1,109 @@
+import { ComponentCandidate, GenerationVariant } from '@/types';
+import { ICodeValidator } from './ComponentGenerationService';
+
+export interface GeneratedVariant {
+  component: GenerationVariant['component'];
+  temperature?: number;
+}
+
+// Share of the total score per criterion
+const SCORE_WEIGHTS = {
+  typescript: 0.3,
+  safety: 0.25,
+  accessibility: 0.15,
+  intent: 0.3,
+};
+
+// Score lost per reported problem
+const PENALTY_PER_ISSUE = 0.1;
+
+/**
+ * Validates generated variants and orders them best first. Each criterion
+ * is scored 0..1: TypeScript validity, safety (hard violations and
+ * forbidden imports score zero), accessibility warnings, and how strongly
+ * prompt analysis favoured the variant's component type.
+ */
+export class CandidateRanker {
+  constructor(private codeValidator: ICodeValidator) {}
+
+  public async rank(
+    variants: GeneratedVariant[],
+    candidates: ComponentCandidate[]
+  ): Promise<GenerationVariant[]> {
+    const scored = await Promise.all(
+      variants.map(variant => this.score(variant, candidates))
+    );
+
+    return scored
+      .sort((a, b) => b.scores.total - a.scores.total)
+      .map((variant, index) => ({ ...variant, rank: index + 1 }));
+  }
+
+  private async score(
+    variant: GeneratedVariant,
+    candidates: ComponentCandidate[]
+  ): Promise<GenerationVariant> {
+    const code = variant.component.code;
+    const [tsResult, safetyResult, importsResult, a11yResult] =
+      await Promise.all([
+        this.codeValidator.validateTypeScript(code),
+        this.codeValidator.validateSafety(code),
+        this.codeValidator.validateImports(code),
+        this.codeValidator.validateAccessibility(code),
+      ]);
+
+    const safetyErrors = safetyResult.violations.filter(
+      violation => violation.severity === 'error'
+    );
+    const safetyWarnings = safetyResult.violations.length - safetyErrors.length;
+
+    const typescript = tsResult.isValid
+      ? 1
+      : this.penalize(tsResult.errors.length);
+    const safety =
+      safetyErrors.length > 0 || !importsResult.isValid
+        ? 0
+        : this.penalize(safetyWarnings);
+    const accessibility = this.penalize(a11yResult.warnings.length);
+    const intent =
+      candidates.find(
+        candidate => candidate.type === variant.component.componentType
+      )?.score ?? 0;
+
+    const total =
+      typescript * SCORE_WEIGHTS.typescript +
+      safety * SCORE_WEIGHTS.safety +
+      accessibility * SCORE_WEIGHTS.accessibility +
+      intent * SCORE_WEIGHTS.intent;
+
+    return {
+      rank: 0,
+      component: variant.component,
+      temperature: variant.temperature,
+      scores: {
+        typescript,
+        safety,
+        accessibility,
+        intent,
+        total: Math.round(total * 1000) / 1000,
+      },
+      diagnostics: {
+        typescriptErrors: tsResult.errors.map(error =>
+          error.line
+            ? `${error.line}:${error.column ?? 0} ${error.message}`
+            : error.message
+        ),
+        safetyViolations: safetyResult.violations.map(
+          violation => violation.message
+        ),
+        forbiddenImports: importsResult.forbiddenImports,
+        accessibilityWarnings: a11yResult.warnings,
+      },
+      saved: false,
+    };
+  }
+
+  private penalize(issues: number): number {
+    return Math.max(0, 1 - issues * PENALTY_PER_ISSUE);
+  }
+}
@@ -0,0 +1,165 @@
+import { GenerationRequest, GenerationResponse } from '@/types';
+import {
+  CodeDiagnostic,
+  ICodeValidator,
+  ILLMProvider,
+  LLMCallOptions,
+  ValidationRound,
+} from './ComponentGenerationService';
+
+type GeneratedComponent = NonNullable<GenerationResponse['component']>;
+
+// LLM repair attempts before giving up on the generated code
+export const DEFAULT_REPAIR_ROUNDS = 2;
+// Diagnostics sent per repair prompt and kept per recorded round
+const MAX_REPAIR_DIAGNOSTICS = 20;
+export const MAX_RECORDED_DIAGNOSTICS = 50;
+
+export interface CodeValidationResult {
+  isValid: boolean;
+  diagnostics: CodeDiagnostic[];
+}
+
+export interface RepairOutcome extends CodeValidationResult {
+  // The last code produced, valid or not
+  component: GeneratedComponent;
+  rounds: ValidationRound[];
+}
+
+/**
+ * Validates generated code (TypeScript, safety errors, forbidden imports)
+ * and, while it fails, sends the diagnostics back to the LLM for up to
+ * `maxRounds` repairs. Shared by generation and refinement so neither can
+ * save code the other would reject.
+ */
+export class CodeRepairLoop {
+  constructor(
+    private codeValidator: ICodeValidator,
+    private llmProvider: ILLMProvider,
+    public readonly maxRounds: number = DEFAULT_REPAIR_ROUNDS
+  ) {}
+
+  public async validate(code: string): Promise<CodeValidationResult> {
+    const [tsResult, safetyResult, importsResult] = await Promise.all([
+      this.codeValidator.validateTypeScript(code),
+      this.codeValidator.validateSafety(code),
+      this.codeValidator.validateImports(code),
+    ]);
+
+    const diagnostics: CodeDiagnostic[] = [
+      ...tsResult.errors.map(error => ({
+        source: 'typescript' as const,
+        message: error.message,
+        line: error.line,
+        column: error.column,
+      })),
+      // Warnings don't block a component, so they aren't sent for repair
+      ...safetyResult.violations
+        .filter(violation => violation.severity === 'error')
+        .map(violation => ({
+          source: 'safety' as const,
+          message: violation.message,
+          line: violation.line,
+          column: violation.column,
+        })),
+      ...importsResult.forbiddenImports.map(name => ({
+        source: 'imports' as const,
+        message: `Forbidden import: ${name}`,
+      })),
+    ];
+
+    return {
+      isValid: diagnostics.length === 0,
+      diagnostics,
+    };
+  }
+
+  /**
+   * Repair calls go out with `request` as the original ask and without any
+   * refinement context, so the provider renders its repair prompt.
+   */
+  public async run(
+    request: GenerationRequest,
+    generated: GeneratedComponent,
+    options: LLMCallOptions,
+    onRepair?: (detail: string) => Promise<void>
+  ): Promise<RepairOutcome> {
+    const { refinement: _refinement, ...repairOptions } = options;
+    const rounds: ValidationRound[] = [];
+
+    let component = generated;
+    let startedAt = Date.now();
+    let result = await this.validate(component.code);
+    rounds.push({
+      round: 0,
+      source: 'llm',
+      valid: result.isValid,
+      diagnostics: result.diagnostics.slice(0, MAX_RECORDED_DIAGNOSTICS),
+      durationMs: Date.now() - startedAt,
+    });
+
+    for (let round = 1; !result.isValid && round <= this.maxRounds; round++) {
+      console.log(
+        `CodeRepairLoop: Repair round ${round} for ${result.diagnostics.length} diagnostic(s)`
+      );
+      startedAt = Date.now();
+      await onRepair?.(
+        `Round ${round} of ${this.maxRounds}: ${result.diagnostics.length} problem(s)`
+      );
+
+      // Streamed clients replace the rejected code with the repair
+      options.onChunk?.({ raw: '', code: '', reset: true });
+      const response = await this.llmProvider
+        .generateComponent(request, {
+          ...repairOptions,
+          codeRepair: {
+            current: {
+              ...component,
+              propsSchema: component.propsSchema ?? { props: [] },
+            },
+            diagnostics: result.diagnostics.slice(0, MAX_REPAIR_DIAGNOSTICS),
+            round,
+          },
+        })
+        .catch(
+          (error): GenerationResponse => ({
+            success: false,
+            metadata: {
+              processingTime: 0,
+              confidence: 0,
+              intentMatch: 0,
+              complexity: 'simple',
+            },
+            error: {
+              type: 'generation',
+              message: error instanceof Error ? error.message : String(error),
+            },
+          })
+        );
+
+      if (!response.success || !response.component) {
+        rounds.push({
+          round,
+          source: 'repair',
+          valid: false,
+          diagnostics: [],
+          durationMs: Date.now() - startedAt,
+          error: response.error?.message || 'Repair failed',
+        });
+        continue;
+      }
+
+      component = response.component;
+      result = await this.validate(component.code);
+      rounds.push({
+        round,
+        source: 'repair',
+        valid: result.isValid,
+        diagnostics: result.diagnostics.slice(0, MAX_RECORDED_DIAGNOSTICS),
+        durationMs: Date.now() - startedAt,
+      });
+    }
+
+    return { component, rounds, ...result };
+  }
+}
@@ -1,7 +1,33 @@
 import { Component } from '../entities/Component';
 import { GenerationJob } from '../entities/GenerationJob';
 import { IComponentRepository } from '../repositories/IComponentRepository';
-import { IGenerationJobRepository } from '../repositories/IGenerationJobRepository';
+import {
+  DuplicateIdempotencyKeyError,
+  GenerationJobQuery,
+  IGenerationJobRepository,
+} from '../repositories/IGenerationJobRepository';
+import { FewShotExampleSelector } from './FewShotExampleSelector';
+import { CandidateRanker } from './CandidateRanker';
+import {
+  CodeRepairLoop,
+  DEFAULT_REPAIR_ROUNDS,
+  MAX_RECORDED_DIAGNOSTICS,
+} from './CodeRepairLoop';
+import {
+  GenerationCancelledError,
+  GenerationContext,
+  GenerationPipeline,
+  GenerationStage,
+  PipelineListener,
+  StageAbortedError,
+  StageOutcome,
+  StagePlacement,
+  StageResult,
+} from './GenerationPipeline';
+import {
+  TokenBudgetExceededError,
+  TokenBudgetService,
+} from './TokenBudgetService';
 import {
   GenerationRequest,
   GenerationResponse,
@@ -9,15 +35,217 @@ import {
   ComponentCandidate,
   ComponentType,
   GenerationStatus,
+  GenerationVariant,
+  GenerationProgressEvent,
+  LLMExchange,
+  LLMSelection,
+  ComponentAnalysis,
 } from '@/types';
 import { v4 as uuidv4 } from 'uuid';
 
+export interface LLMStreamChunk {
+  // Raw text delta as produced by the model
+  raw: string;
+  // Newly decoded characters of the component's `code` field, if any
+  code: string;
+  // Discard everything received so far; the answer starts over (failover)
+  reset?: boolean;
+}
+
+export interface LLMCallOptions {
+  onChunk?: (chunk: LLMStreamChunk) => void;
+  // Prompt template version to render, by template name; defaults otherwise
+  promptVersions?: Record<string, string>;
+  // Replace the template's built-in few-shot examples when non-empty
+  fewShotExamples?: FewShotExample[];
+  // Called once per backend call, including schema repair re-prompts
+  onUsage?: (usage: LLMTokenUsage) => void;
+  // Called once per backend try (retries included) with the raw exchange
+  onExchange?: (exchange: LLMExchange) => void;
+  // Skip cached responses and call the backend (the fresh answer is cached)
+  bypassCache?: boolean;
+  // Revise an existing component instead of generating from scratch
+  refinement?: RefinementContext;
+  // Sampling temperature; the backend's default when unset
+  temperature?: number;
+  // Fix validation problems in previously generated code
+  codeRepair?: CodeRepairContext;
+  // Aborts in-flight backend calls; providers answer with a 'cancelled' error
+  signal?: AbortSignal;
+  // Provider and model for calls that carry no GenerationRequest
+  // (analyzePrompt); the configured default when unset
+  llm?: LLMSelection;
+}
+
+// Where a job sits in a batch submitted from a spec file
+export interface BatchMembership {
+  batchId: string;
+  // Position of the component in the spec
+  index: number;
+}
+
+export interface JobCreationOptions {
+  batch?: BatchMembership;
+  // Client-supplied key; generateComponent returns the job already holding it
+  idempotencyKey?: string;
+  // Job whose request this one re-runs
+  rerunOf?: string;
+  // Store the job already PROCESSING, so no worker can claim it before the
+  // caller runs it with processClaimedJob
+  claimed?: boolean;
+}
+
+// Changes to a past request for rerunJob; context and options merge field
+// by field
+export type GenerationRequestEdits = Omit<
+  Partial<GenerationRequest>,
+  'context' | 'options'
+> & {
+  context?: Partial<NonNullable<GenerationRequest['context']>>;
+  options?: Partial<NonNullable<GenerationRequest['options']>>;
+};
+
+export interface GenerationRunOptions extends LLMCallOptions {
+  // Called with each progress event as it is recorded on the job
+  onProgress?: (event: GenerationProgressEvent) => void;
+}
+
+export interface CodeDiagnostic {
+  source: 'typescript' | 'safety' | 'imports';
+  message: string;
+  // 1-based position in the component code, when known
+  line?: number;
+  column?: number;
+}
+
+export interface CodeRepairContext {
+  // The component whose code failed validation
+  current: ComponentGeneration;
+  diagnostics: CodeDiagnostic[];
+  // 1 for the first repair attempt
+  round: number;
+}
+
+export interface ValidationRound {
+  // 0 validates the generated code; later rounds validate repairs
+  round: number;
+  source: 'llm' | 'repair' | 'template';
+  valid: boolean;
+  diagnostics: CodeDiagnostic[];
+  durationMs: number;
+  // The repair call itself failed
+  error?: string;
+}
+
+export interface RefinementContext {
+  // The component as it stands before this instruction
+  current: ComponentGeneration;
+  // Earlier instructions in the thread, oldest first
+  history: string[];
+}
+
+export interface LLMTokenUsage {
+  provider: string;
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+  // Backend reported no usage; counts were estimated from text length
+  estimated?: boolean;
+}
+
+export interface FewShotExample {
+  // Saved component the example was taken from
+  componentId?: string;
+  // Request the example answers
+  input: string;
+  output: ComponentGeneration;
+}
+
 export interface ILLMProvider {
-  generateComponent(request: GenerationRequest): Promise<GenerationResponse>;
-  analyzePrompt(prompt: string): Promise<ComponentCandidate[]>;
+  generateComponent(
+    request: GenerationRequest,
+    options?: LLMCallOptions
+  ): Promise<GenerationResponse>;
+  analyzePrompt(
+    prompt: string,
+    options?: LLMCallOptions
+  ): Promise<ComponentCandidate[]>;
   validateApiKey(): Promise<boolean>;
 }
 
+export interface IPromptVersionSelector {
+  // Prompt template version to use for a job, by template name
+  selectVersions(jobId: string): Promise<Record<string, string>>;
+}
+
+export interface IIntentClassifier {
+  // Ranked candidate types computed without an LLM call
+  classify(prompt: string): Promise<ComponentCandidate[]>;
+  // Whether LLM analysis should refine the local ranking
+  needsRefinement(candidates: ComponentCandidate[]): boolean;
+}
+
+export type PromptScreeningCategory = 'injection' | 'disallowed' | 'secret';
+
+export interface PromptScreeningFinding {
+  category: PromptScreeningCategory;
+  // Rule that matched, e.g. 'ignore-instructions' or 'aws-access-key'
+  rule: string;
+  action: 'reject' | 'redact';
+  // User-facing explanation for rejections
+  reason?: string;
+  // Matched text; never set for secrets so they don't reach the audit trail
+  excerpt?: string;
+}
+
+export interface PromptScreeningDecision {
+  // 'reject' wins over 'redact'; 'allow' when nothing matched
+  action: 'allow' | 'redact' | 'reject';
+  // The prompt with secrets replaced by placeholders
+  prompt: string;
+  findings: PromptScreeningFinding[];
+  screenedAt: string;
+}
+
+export interface IPromptScreener {
+  screen(prompt: string): PromptScreeningDecision;
+}
+
+/**
+ * The prompt screener refused a prompt (injection attempt or disallowed
+ * content). Not retried; the decision explains which rules matched.
+ */
+export class PromptRejectedError extends Error {
+  constructor(
+    message: string,
+    public readonly decision: PromptScreeningDecision,
+    public readonly jobId?: string
+  ) {
+    super(message);
+    this.name = 'PromptRejectedError';
+  }
+}
+
+// How long an idempotency key keeps returning the job it created
+const DEFAULT_IDEMPOTENCY_WINDOW_MINUTES = 24 * 60;
+
+// Sampling temperatures for extra variants of the same component type
+const VARIANT_TEMPERATURES = [0.9, 0.4, 1.2, 0.6];
+
+/**
+ * The provider returned an unsuccessful response. `type` is the provider's
+ * error classification and decides the job's final status.
+ */
+export class LLMGenerationError extends Error {
+  constructor(
+    message: string,
+    public readonly type: NonNullable<GenerationResponse['error']>['type']
+  ) {
+    super(message);
+    this.name = 'LLMGenerationError';
+  }
+}
+
 export interface ICodeValidator {
   validateTypeScript(code: string): Promise<{
     isValid: boolean;
@@ -33,12 +261,20 @@ export interface ICodeValidator {
       type: string;
       message: string;
       severity: 'error' | 'warning';
+      line?: number;
+      column?: number;
     }>;
   }>;
   validateImports(code: string): Promise<{
     isValid: boolean;
     forbiddenImports: string[];
   }>;
+  validateAccessibility(code: string): Promise<{
+    isValid: boolean;
+    warnings: string[];
+  }>;
+  // Code metrics and the complexity level derived from them
+  analyzeComponent(code: string): Promise<ComponentAnalysis>;
 }
 
 export interface ITemplateEngine {
@@ -50,37 +286,117 @@ export interface ITemplateEngine {
   validateTemplate(componentType: ComponentType): Promise<boolean>;
 }
 
+// Progress step names of the built-in stages
+const STAGE_STEPS: Record<string, string> = {
+  analyze: 'analyzing',
+  generate: 'generating',
+  validate: 'validating',
+  name: 'naming',
+  save: 'saving',
+};
+
+const STAGE_OUTCOME_STATES: Record<
+  StageOutcome,
+  GenerationProgressEvent['state']
+> = {
+  completed: 'completed',
+  fallback: 'completed',
+  skipped: 'skipped',
+  aborted: 'failed',
+  failed: 'failed',
+  cancelled: 'cancelled',
+};
+
+// How often a running job checks whether it was cancelled elsewhere
+const CANCELLATION_POLL_MS = 2000;
+// How often a running job marks itself alive, well inside the worker's
+// stuck-job timeout
+const HEARTBEAT_MS = 60000;
+
+// Abort controllers of the jobs running in this process, by job ID
+const runningJobs = new Map<string, AbortController>();
+
 export class ComponentGenerationService {
+  private pipeline: GenerationPipeline;
+  private repairLoop: CodeRepairLoop;
+
   constructor(
     private componentRepository: IComponentRepository,
     private jobRepository: IGenerationJobRepository,
     private llmProvider: ILLMProvider,
     private codeValidator: ICodeValidator,
-    private templateEngine: ITemplateEngine
-  ) {}
+    private templateEngine: ITemplateEngine,
+    private promptVersionSelector?: IPromptVersionSelector,
+    private exampleSelector: FewShotExampleSelector = new FewShotExampleSelector(
+      componentRepository
+    ),
+    private tokenBudget?: TokenBudgetService,
+    private intentClassifier?: IIntentClassifier,
+    private promptScreener?: IPromptScreener,
+    private maxRepairRounds: number = DEFAULT_REPAIR_ROUNDS,
+    private candidateRanker: CandidateRanker = new CandidateRanker(
+      codeValidator
+    ),
+    private queueMode: GenerationQueueMode = 'inline',
+    private idempotencyWindowMinutes: number = DEFAULT_IDEMPOTENCY_WINDOW_MINUTES
+  ) {
+    this.repairLoop = new CodeRepairLoop(
+      codeValidator,
+      llmProvider,
+      maxRepairRounds
+    );
+    this.pipeline = new GenerationPipeline(this.createDefaultStages());
+  }
 
+  /**
+   * Creates a job and starts it (inline) or queues it (worker mode). With an
+   * idempotency key and a user, a job the user created with the same key
+   * within the idempotency window is returned instead of a new one.
+   */
   public async generateComponent(
     request: GenerationRequest,
-    userId?: string
+    userId?: string,
+    options: LLMCallOptions = {},
+    { idempotencyKey, ...creation }: Omit<JobCreationOptions, 'batch'> = {}
   ): Promise<GenerationJob> {
     try {
-      console.log('GenerationService: Creating job for request:', {
-        prompt: request.prompt?.substring(0, 100) + '...',
-        preferredType: request.preferredType,
-      });
-
-      // Create generation job
-      const job = new GenerationJob(uuidv4(), request);
-
-      console.log('GenerationService: Job created with ID:', job.id);
+      if (userId && idempotencyKey) {
+        const existing = await this.findIdempotentJob(userId, idempotencyKey);
+        if (existing) {
+          return existing;
+        }
+      }
 
-      // Save job to repository
-      await this.jobRepository.create(job);
+      let job: GenerationJob;
+      try {
+        job = await this.createJob(request, userId, {
+          ...creation,
+          idempotencyKey: userId ? idempotencyKey : undefined,
+        });
+      } catch (error) {
+        // A concurrent request with the same key created the job first
+        if (error instanceof DuplicateIdempotencyKeyError) {
+          const existing = await this.jobRepository.findByIdempotencyKey(
+            error.userId,
+            error.idempotencyKey
+          );
+          if (existing) {
+            return existing;
+          }
+        }
+        throw error;
+      }
 
-      console.log('GenerationService: Job saved to repository');
+      if (this.queueMode === 'worker') {
+        // Left PENDING for a GenerationWorker to claim
+        if (options.bypassCache) {
+          job.addMetadata('bypassCache', true);
+          await this.jobRepository.update(job);
+        }
+        return job;
+      }
 
-      // Start processing (could be async/queued)
-      this.processGenerationJob(job.id, userId).catch(error => {
+      this.processGenerationJob(job.id, userId, options).catch(error => {
         console.error('Generation job processing failed:', error);
       });
 
@@ -91,202 +407,893 @@ export class ComponentGenerationService {
     }
   }
 
+  // The job holding the key, unless it is older than the idempotency window;
+  // an expired key is released so it can be used again
+  private async findIdempotentJob(
+    userId: string,
+    idempotencyKey: string
+  ): Promise<GenerationJob | null> {
+    const existing = await this.jobRepository.findByIdempotencyKey(
+      userId,
+      idempotencyKey
+    );
+    if (!existing) {
+      return null;
+    }
+
+    const windowStart = Date.now() - this.idempotencyWindowMinutes * 60 * 1000;
+    if (existing.createdAt.getTime() >= windowStart) {
+      console.log(
+        `GenerationService: Idempotency key matched job ${existing.id}`
+      );
+      return existing;
+    }
+
+    existing.idempotencyKey = undefined;
+    await this.jobRepository.update(existing);
+    return null;
+  }
+
+  public async createJob(
+    request: GenerationRequest,
+    userId?: string,
+    { batch, idempotencyKey, rerunOf, claimed }: JobCreationOptions = {}
+  ): Promise<GenerationJob> {
+    console.log('GenerationService: Creating job for request:', {
+      prompt: request.prompt?.substring(0, 100) + '...',
+      preferredType: request.preferredType,
+    });
+
+    // Screen before the prompt is stored; only the redacted text is kept
+    const screening = this.promptScreener?.screen(request.prompt);
+
+    // Create generation job
+    const job = new GenerationJob(
+      uuidv4(),
+      screening ? { ...request, prompt: screening.prompt } : request
+    );
+    job.userId = userId;
+    job.idempotencyKey = idempotencyKey;
+    if (batch) {
+      job.batchId = batch.batchId;
+      job.addMetadata('batchIndex', batch.index);
+    }
+    if (rerunOf) {
+      job.addMetadata('rerunOf', rerunOf);
+    }
+    if (screening) {
+      job.addMetadata('screening', screening);
+    }
+    if (claimed) {
+      job.start();
+    }
+
+    console.log('GenerationService: Job created with ID:', job.id);
+
+    let rejection: PromptRejectedError | undefined;
+    if (screening?.action === 'reject') {
+      const reasons = screening.findings
+        .filter(finding => finding.action === 'reject')
+        .map(finding => finding.reason ?? finding.rule);
+      rejection = new PromptRejectedError(
+        `Prompt rejected: ${Array.from(new Set(reasons)).join('; ')}`,
+        screening,
+        job.id
+      );
+
+      console.log('GenerationService: Prompt rejected by screening:', {
+        jobId: job.id,
+        rules: screening.findings.map(finding => finding.rule),
+      });
+
+      // Stored already failed, so no worker ever claims it
+      if (job.status === GenerationStatus.PENDING) {
+        job.start();
+      }
+      job.fail(rejection);
+      job.markNonRetryable();
+    }
+
+    // Save job to repository
+    await this.jobRepository.create(job);
+
+    console.log('GenerationService: Job saved to repository');
+
+    if (rejection) {
+      throw rejection;
+    }
+
+    return job;
+  }
+
   public async processGenerationJob(
     jobId: string,
-    userId?: string
+    userId?: string,
+    options: GenerationRunOptions = {}
   ): Promise<void> {
+    // Claiming first means a worker and an inline run never both process it
+    if (!(await this.jobRepository.markAsProcessing(jobId))) {
+      const existing = await this.jobRepository.findById(jobId);
+      if (!existing) {
+        throw new Error(`Generation job ${jobId} not found`);
+      }
+      console.log(
+        `Generation job ${jobId} is ${existing.status}, not claiming it`
+      );
+      return;
+    }
+
     const job = await this.jobRepository.findById(jobId);
     if (!job) {
       throw new Error(`Generation job ${jobId} not found`);
     }
 
+    await this.runClaimedJob(job, userId ?? job.userId, options);
+  }
+
+  // Runs a job created with `claimed`
+  public async processClaimedJob(
+    job: GenerationJob,
+    userId?: string,
+    options: GenerationRunOptions = {}
+  ): Promise<void> {
+    if (job.status !== GenerationStatus.PROCESSING) {
+      throw new Error(`Generation job ${job.id} was not created claimed`);
+    }
+
+    await this.runClaimedJob(job, userId ?? job.userId, options);
+  }
+
+  /**
+   * Claims the oldest pending job and runs it. Resolves with the finished
+   * job, or null when nothing is pending.
+   */
+  public async processNextJob(): Promise<GenerationJob | null> {
+    const job = await this.jobRepository.getNextPendingJob();
+    if (!job) {
+      return null;
+    }
+
     try {
-      job.start();
-      await this.jobRepository.update(job);
+      await this.runClaimedJob(job, job.userId);
+    } catch (error) {
+      // Recorded on the job; the caller reads the outcome from there
+      console.error(`Generation job ${job.id} failed:`, error);
+    }
 
-      // Step 1: Analyze prompt and get candidates
-      const candidates = await this.analyzePrompt(job.request.prompt);
+    return (await this.jobRepository.findById(job.id)) ?? job;
+  }
 
-      // Step 2: Generate component using LLM
-      const llmResponse = await this.llmProvider.generateComponent(job.request);
+  // Runs a job already moved to PROCESSING by markAsProcessing or a claim
+  private async runClaimedJob(
+    job: GenerationJob,
+    userId?: string,
+    { onProgress, ...options }: GenerationRunOptions = {}
+  ): Promise<void> {
+    // Aborted by cancelJob in this process, by the caller's signal, or when
+    // the stored job is no longer PROCESSING (cancelled from another
+    // process, or timed out by a worker that took it for stuck)
+    const controller = new AbortController();
+    const abort = () => controller.abort();
+    if (options.signal?.aborted) abort();
+    options.signal?.addEventListener('abort', abort, { once: true });
+    runningJobs.set(job.id, controller);
+    let storedStatus: GenerationStatus | null = GenerationStatus.PROCESSING;
+    let lastHeartbeat = Date.now();
+    const watcher = setInterval(() => {
+      this.jobRepository
+        .findStatusById(job.id)
+        .then(async status => {
+          storedStatus = status;
+          if (status !== GenerationStatus.PROCESSING) {
+            abort();
+          } else if (Date.now() - lastHeartbeat >= HEARTBEAT_MS) {
+            lastHeartbeat = Date.now();
+            await this.jobRepository.recordHeartbeat(job.id);
+          }
+        })
+        .catch(error => {
+          console.error('Checking for job cancellation failed:', error);
+        });
+    }, CANCELLATION_POLL_MS);
 
-      if (!llmResponse.success || !llmResponse.component) {
-        throw new Error(llmResponse.error?.message || 'Generation failed');
+    try {
+      if (userId && this.tokenBudget) {
+        await this.tokenBudget.assertWithinBudget(userId);
       }
 
-      // Step 3: Validate generated code (temporarily disabled to use LLM code directly)
-      console.log(
-        'Using LLM-generated code directly (validation temporarily disabled)'
-      );
-      console.log('LLM Code length:', llmResponse.component.code.length);
-      console.log('LLM Code preview:', llmResponse.component.previewContent);
-
-      // TODO: Re-enable validation after fixing validation issues
-      // const validationResult = await this.validateGeneratedCode(
-      //   llmResponse.component.code
-      // );
-
-      // if (!validationResult.isValid) {
-      //   console.log('Validation errors:', validationResult.errors);
-      //   // Try to repair or use template fallback
-      //   const repairedCode = await this.attemptCodeRepair(
-      //     {
-      //       code: llmResponse.component.code,
-      //       componentType: llmResponse.component.componentType,
-      //       componentName: llmResponse.component.componentName,
-      //       propsSchema: llmResponse.component.propsSchema ?? { props: [] },
-      //       description: llmResponse.component.description,
-      //       examples: llmResponse.component.examples,
-      //       variants: llmResponse.component.variants,
-      //     },
-      //     validationResult.errors
-      //   );
-
-      //   if (repairedCode) {
-      //     llmResponse.component.code = repairedCode;
-      //   } else {
-      //     throw new Error(
-      //       `Code validation failed: ${validationResult.errors.join(', ')}`
-      //     );
-      //   }
-      // }
-
-      // Step 4: Create component entity with unique name
-      console.log(
-        'Original component name:',
-        llmResponse.component.componentName
-      );
-      const uniqueName = await this.generateUniqueName(
-        llmResponse.component.componentName
-      );
-      console.log('Generated unique name:', uniqueName);
-
-      const component = new Component(
-        uuidv4(),
-        uniqueName,
-        llmResponse.component.componentType,
-        llmResponse.component.code,
-        llmResponse.component.propsSchema,
-        llmResponse.component.description,
-        llmResponse.component.examples,
-        [], // tags
+      const context = await this.pipeline.run(
         {
-          version: '1.0.0',
-          complexity: this.determineComplexity(llmResponse.component.code),
-          estimatedLines: llmResponse.component.code.split('\n').length,
-          dependencies: this.extractDependencies(llmResponse.component.code),
-          keywords: this.extractKeywords(job.request.prompt),
-          category: this.categorizeComponent(
-            llmResponse.component.componentType
-          ),
-          lastModified: new Date(),
+          job,
+          userId,
+          llmOptions: {
+            ...options,
+            llm: job.request.llm,
+            signal: controller.signal,
+            bypassCache: options.bypassCache ?? job.getMetadata('bypassCache'),
+            promptVersions: await this.selectPromptVersions(job),
+            fewShotExamples: await this.selectFewShotExamples(job, userId),
+            onUsage: usage => this.trackTokenUsage(job, usage, userId),
+            onExchange: exchange => job.recordLLMExchange(exchange),
+          },
+          candidates: [],
+          reportProgress: (step, detail) =>
+            this.reportProgress(
+              job,
+              {
+                step,
+                state: 'started',
+                percent: job.getProgressPercentage(),
+                detail,
+              },
+              onProgress
+            ),
         },
-        '1.0.0',
-        userId
+        this.progressListener(job, onProgress)
       );
 
-      // Add previewContent if available
-      if (llmResponse.component.previewContent) {
-        (component as any).previewContent =
-          llmResponse.component.previewContent;
+      const { llmResponse, generated, saved } = context;
+      if (!llmResponse || !generated || !saved) {
+        throw new Error(
+          `Pipeline finished without a saved component (stages: ${this.pipeline.stageNames.join(', ')})`
+        );
       }
 
-      // Step 5: Save component to database
-      console.log('Saving component to database...');
-      const savedComponent = await this.componentRepository.create(component);
-      console.log('Component saved with ID:', savedComponent.id);
-
-      // Step 6: Complete job with component ID
+      // Complete job with component ID
+      const tokenUsage = job.getMetadata('tokenUsage');
       const response: GenerationResponse = {
         success: true,
-        component: llmResponse.component,
-        candidates,
+        component: generated,
+        candidates: context.candidates,
+        variants: context.variants,
         metadata: {
           processingTime: job.getDuration() || 0,
-          tokensUsed: llmResponse.metadata?.tokensUsed,
+          // Whole job, including prompt analysis and schema repairs
+          tokensUsed: tokenUsage
+            ? tokenUsage.promptTokens + tokenUsage.completionTokens
+            : llmResponse.metadata?.tokensUsed,
+          tokenUsage,
           confidence: llmResponse.metadata?.confidence || 0.8,
           intentMatch: this.calculateIntentMatch(
             job.request.prompt,
-            candidates
+            context.candidates
           ),
-          complexity: component.getComplexity(),
+          complexity: saved.getComplexity(),
         },
       };
 
       // Set the component ID in the job
-      job.componentId = savedComponent.id;
+      job.componentId = saved.id;
       job.complete(response);
+
+      // A cancel or timeout that landed while saving wins; the component
+      // goes with it
+      if (
+        !(await this.jobRepository.updateIfStatus(
+          job,
+          GenerationStatus.PROCESSING
+        ))
+      ) {
+        await this.componentRepository.delete(saved.id);
+        const status = await this.jobRepository.findStatusById(job.id);
+        console.log(
+          `Job ${job.id} is no longer processing (${status}); removed its component`
+        );
+        return;
+      }
       console.log('Job completed with componentId:', job.componentId);
-      await this.jobRepository.update(job);
     } catch (error) {
       const err = error instanceof Error ? error : new Error(String(error));
 
-      if (job.canRetry()) {
-        job.retry();
+      // Taken over elsewhere (e.g. timed out and re-queued): the stored job
+      // belongs to whoever changed it, so leave it alone
+      if (
+        err instanceof GenerationCancelledError &&
+        storedStatus !== GenerationStatus.PROCESSING &&
+        storedStatus !== GenerationStatus.CANCELLED
+      ) {
+        console.log(
+          `Job ${job.id} is no longer processing (${storedStatus}); stopped`
+        );
+        return;
+      }
+
+      if (err instanceof GenerationCancelledError) {
+        job.cancel();
+        await this.jobRepository.update(job);
+        console.log(`Job ${job.id} cancelled`);
+        return;
+      }
+
+      if (
+        err instanceof TokenBudgetExceededError ||
+        (err instanceof LLMGenerationError && err.type === 'rate_limit')
+      ) {
+        job.rateLimit(err);
+      } else if (err instanceof LLMGenerationError && err.type === 'timeout') {
+        job.timeout(err);
       } else {
         job.fail(err);
       }
 
-      await this.jobRepository.update(job);
+      // Failed and timed out jobs are re-queued by the GenerationWorker
+      if (err instanceof StageAbortedError) {
+        job.markNonRetryable();
+      }
+
+      // Leaves a job cancelled meanwhile as it is
+      await this.jobRepository.updateIfStatus(job, GenerationStatus.PROCESSING);
       throw err;
+    } finally {
+      clearInterval(watcher);
+      options.signal?.removeEventListener('abort', abort);
+      runningJobs.delete(job.id);
     }
   }
 
-  private async analyzePrompt(prompt: string): Promise<ComponentCandidate[]> {
-    return this.llmProvider.analyzePrompt(prompt);
+  // Turns stage starts and ends into progress events
+  private progressListener(
+    job: GenerationJob,
+    onProgress?: GenerationRunOptions['onProgress']
+  ): PipelineListener {
+    const step = (stage: string) => STAGE_STEPS[stage] ?? stage;
+    const percent = (done: number, total: number) =>
+      Math.round((done / total) * 100);
+
+    return {
+      stageStarted: (stage, index, total) =>
+        this.reportProgress(
+          job,
+          {
+            step: step(stage),
+            state: 'started',
+            percent: percent(index, total),
+          },
+          onProgress
+        ),
+      stageFinished: (record, index, total) =>
+        this.reportProgress(
+          job,
+          {
+            step: step(record.name),
+            state: STAGE_OUTCOME_STATES[record.outcome],
+            percent: percent(index + 1, total),
+            detail: record.error ?? record.detail,
+          },
+          onProgress
+        ),
+    };
+  }
+
+  private async reportProgress(
+    job: GenerationJob,
+    event: Omit<GenerationProgressEvent, 'at'>,
+    onProgress?: GenerationRunOptions['onProgress']
+  ): Promise<void> {
+    const recorded = job.recordProgress(event);
+    onProgress?.(recorded);
+
+    // Saved as it happens so pollers see it; a cancelled job is left as is
+    await this.jobRepository
+      .updateIfStatus(job, GenerationStatus.PROCESSING)
+      .catch(error => {
+        console.error('Saving job progress failed:', error);
+      });
   }
 
-  private async validateGeneratedCode(code: string): Promise<{
-    isValid: boolean;
-    errors: string[];
-  }> {
-    const results = await Promise.all([
-      this.codeValidator.validateTypeScript(code),
-      this.codeValidator.validateSafety(code),
-      this.codeValidator.validateImports(code),
-    ]);
+  public registerStage(
+    stage: GenerationStage,
+    placement?: StagePlacement
+  ): this {
+    this.pipeline.register(stage, placement);
+    return this;
+  }
+
+  /**
+   * Built-in stages: analyze, generate, validate, name, save. Registered
+   * stages slot in around them by name.
+   */
+  private createDefaultStages(): GenerationStage[] {
+    return [
+      {
+        name: 'analyze',
+        run: async context => {
+          context.candidates = await this.analyzePrompt(
+            context.job,
+            context.job.request.prompt,
+            context.llmOptions
+          );
+        },
+      },
+      {
+        name: 'generate',
+        run: async context => this.generate(context),
+      },
+      {
+        name: 'validate',
+        run: async context => {
+          context.generated = await this.validateWithRepair(
+            context.job,
+            context.generated!,
+            context.llmOptions,
+            async detail => {
+              await context.reportProgress?.('repairing', detail);
+            }
+          );
+          return { detail: context.job.getMetadata('validation')?.outcome };
+        },
+      },
+      {
+        name: 'name',
+        run: async context => {
+          context.componentName = await this.generateUniqueName(
+            context.job.request.name ?? context.generated!.componentName
+          );
+          return { detail: context.componentName };
+        },
+      },
+      {
+        name: 'save',
+        run: async context => {
+          context.saved = await this.saveComponent(context);
+          return { detail: context.saved.id };
+        },
+      },
+    ];
+  }
+
+  // Generates the component, ranking variants if more than one was asked for
+  private async generate(context: GenerationContext): Promise<StageResult> {
+    const { job, candidates, llmOptions } = context;
+    const candidateCount = job.request.options?.candidateCount ?? 1;
+    const { llmResponse, variants } =
+      candidateCount > 1
+        ? await this.generateVariants(
+            job,
+            candidates,
+            candidateCount,
+            llmOptions
+          )
+        : {
+            llmResponse: await this.llmProvider.generateComponent(
+              job.request,
+              llmOptions
+            ),
+            variants: undefined,
+          };
 
-    const [tsResult, safetyResult, importsResult] = results;
+    if (llmResponse.metadata?.promptVersions) {
+      job.addMetadata('promptVersions', {
+        ...job.getMetadata('promptVersions'),
+        ...llmResponse.metadata.promptVersions,
+      });
+    }
 
-    const errors: string[] = [];
+    if (llmResponse.metadata?.cached) {
+      job.addMetadata('cacheHit', true);
+    }
 
-    if (!tsResult.isValid) {
-      errors.push(...tsResult.errors.map(e => e.message));
+    if (llmResponse.metadata?.schemaAttempts) {
+      job.addMetadata('schemaAttempts', llmResponse.metadata.schemaAttempts);
     }
 
-    if (!safetyResult.isValid) {
-      errors.push(...safetyResult.violations.map(v => v.message));
+    if (llmResponse.metadata?.failover) {
+      job.addMetadata('failover', llmResponse.metadata.failover);
     }
 
-    if (!importsResult.isValid) {
-      errors.push(
-        `Forbidden imports: ${importsResult.forbiddenImports.join(', ')}`
+    if (!llmResponse.success || !llmResponse.component) {
+      throw new LLMGenerationError(
+        llmResponse.error?.message || 'Generation failed',
+        llmResponse.error?.type ?? 'generation'
       );
     }
 
+    context.llmResponse = llmResponse;
+    context.generated = llmResponse.component;
+    context.variants = variants;
+
+    return {
+      detail: `${llmResponse.component.componentType}${variants ? ` (best of ${variants.length})` : ''}`,
+    };
+  }
+
+  private async saveComponent(context: GenerationContext): Promise<Component> {
+    const { job, userId } = context;
+    const generated = context.generated!;
+    const { complexity, metrics } = await this.codeValidator.analyzeComponent(
+      generated.code
+    );
+
+    const component = new Component(
+      uuidv4(),
+      context.componentName ?? generated.componentName,
+      generated.componentType,
+      generated.code,
+      generated.propsSchema,
+      generated.description,
+      generated.examples,
+      job.request.tags ?? [],
+      {
+        version: '1.0.0',
+        complexity,
+        metrics,
+        estimatedLines: generated.code.split('\n').length,
+        dependencies: this.extractDependencies(generated.code),
+        keywords: this.extractKeywords(job.request.prompt),
+        category: this.categorizeComponent(generated.componentType),
+        lastModified: new Date(),
+      },
+      '1.0.0',
+      userId
+    );
+
+    // Add previewContent if available
+    if (generated.previewContent) {
+      (component as any).previewContent = generated.previewContent;
+    }
+
+    // Last chance to notice a cancel from another process before saving
+    const current = await this.jobRepository.findById(job.id);
+    if (current?.status === GenerationStatus.CANCELLED) {
+      throw new GenerationCancelledError();
+    }
+
+    console.log('Saving component to database...');
+    const savedComponent = await this.componentRepository.create(component);
+    console.log('Component saved with ID:', savedComponent.id);
+
+    return savedComponent;
+  }
+
+  /**
+   * Generates `count` variants concurrently and ranks them. Without a
+   * preferred type, each top intent candidate gets one variant; remaining
+   * slots re-sample the leading type at different temperatures. The best
+   * ranked variant's response is returned as the job's response.
+   */
+  private async generateVariants(
+    job: GenerationJob,
+    candidates: ComponentCandidate[],
+    count: number,
+    options: LLMCallOptions
+  ): Promise<{
+    llmResponse: GenerationResponse;
+    variants?: GenerationVariant[];
+  }> {
+    const plans = this.planVariants(job.request, candidates, count);
+    console.log(
+      `GenerationService: Generating ${plans.length} variants:`,
+      plans.map(plan => `${plan.type}@${plan.temperature ?? 'default'}`)
+    );
+
+    const responses = await Promise.all(
+      plans.map((plan, index) =>
+        this.llmProvider
+          .generateComponent(
+            { ...job.request, preferredType: plan.type },
+            {
+              ...options,
+              temperature: plan.temperature,
+              // Only the first variant is streamed to the client
+              onChunk: index === 0 ? options.onChunk : undefined,
+            }
+          )
+          .catch(
+            (error): GenerationResponse => ({
+              success: false,
+              metadata: {
+                processingTime: 0,
+                confidence: 0,
+                intentMatch: 0,
+                complexity: 'simple',
+              },
+              error: {
+                type: 'generation',
+                message: error instanceof Error ? error.message : String(error),
+              },
+            })
+          )
+      )
+    );
+
+    const generated = responses.flatMap((response, index) =>
+      response.success && response.component
+        ? [{ response, temperature: plans[index].temperature }]
+        : []
+    );
+    job.addMetadata('variantCount', {
+      requested: plans.length,
+      generated: generated.length,
+    });
+
+    if (generated.length === 0) {
+      // Surface the first failure through the normal error path
+      return { llmResponse: responses[0] };
+    }
+
+    const ranked = await this.candidateRanker.rank(
+      generated.map(({ response, temperature }) => ({
+        component: response.component!,
+        temperature,
+      })),
+      candidates
+    );
+
+    const best = generated.find(
+      ({ response }) => response.component === ranked[0].component
+    )!;
+
     return {
-      isValid: errors.length === 0,
-      errors,
+      llmResponse: best.response,
+      variants: ranked.map(variant => ({
+        ...variant,
+        saved: variant.rank === 1,
+      })),
     };
   }
 
-  private async attemptCodeRepair(
-    component: ComponentGeneration,
-    errors: string[]
+  private planVariants(
+    request: GenerationRequest,
+    candidates: ComponentCandidate[],
+    count: number
+  ): Array<{ type?: ComponentType; temperature?: number }> {
+    const types: Array<ComponentType | undefined> = request.preferredType
+      ? [request.preferredType]
+      : candidates
+          .filter(candidate => candidate.score > 0)
+          .map(candidate => candidate.type)
+          .slice(0, count);
+    if (types.length === 0) {
+      types.push(undefined);
+    }
+
+    const plans: Array<{ type?: ComponentType; temperature?: number }> =
+      types.map(type => ({ type }));
+    for (let i = 0; plans.length < count; i++) {
+      plans.push({
+        type: types[0],
+        temperature: VARIANT_TEMPERATURES[i % VARIANT_TEMPERATURES.length],
+      });
+    }
+
+    return plans;
+  }
+
+  /**
+   * Local classification first; the LLM analysis only runs when the
+   * classifier asks for refinement, and its ranking is blended with the
+   * local one rather than replacing it.
+   */
+  private async analyzePrompt(
+    job: GenerationJob,
+    prompt: string,
+    options?: LLMCallOptions
+  ): Promise<ComponentCandidate[]> {
+    if (!this.intentClassifier) {
+      job.addMetadata('intentSource', 'llm');
+      return this.llmProvider.analyzePrompt(prompt, options);
+    }
+
+    const local = await this.intentClassifier.classify(prompt);
+    if (!this.intentClassifier.needsRefinement(local)) {
+      job.addMetadata('intentSource', 'local');
+      return local;
+    }
+
+    const refined = await this.llmProvider.analyzePrompt(prompt, options);
+    if (refined.length === 0) {
+      // Analysis failed or had no opinion; the local ranking stands
+      job.addMetadata('intentSource', 'local');
+      return local;
+    }
+
+    job.addMetadata('intentSource', 'local+llm');
+    return this.mergeCandidates(local, refined);
+  }
+
+  private mergeCandidates(
+    local: ComponentCandidate[],
+    refined: ComponentCandidate[]
+  ): ComponentCandidate[] {
+    const merged = new Map<ComponentType, ComponentCandidate>();
+
+    for (const candidate of [...local, ...refined]) {
+      const existing = merged.get(candidate.type);
+      merged.set(
+        candidate.type,
+        existing
+          ? {
+              type: candidate.type,
+              score: Math.min(1, existing.score + candidate.score / 2),
+              confidence: Math.min(
+                1,
+                existing.confidence + candidate.confidence / 2
+              ),
+              reason: `${existing.reason}; ${candidate.reason}`,
+            }
+          : {
+              ...candidate,
+              score: candidate.score / 2,
+              confidence: candidate.confidence / 2,
+            }
+      );
+    }
+
+    return Array.from(merged.values()).sort((a, b) => b.score - a.score);
+  }
+
+  private trackTokenUsage(
+    job: GenerationJob,
+    usage: LLMTokenUsage,
+    userId?: string
+  ): void {
+    const totals = job.getMetadata('tokenUsage') || {
+      promptTokens: 0,
+      completionTokens: 0,
+    };
+
+    job.addMetadata('tokenUsage', {
+      promptTokens: totals.promptTokens + usage.promptTokens,
+      completionTokens: totals.completionTokens + usage.completionTokens,
+      estimated: totals.estimated || usage.estimated || undefined,
+    });
+    // The backend that actually answered, which differs from the request's
+    // after a failover
+    job.addMetadata('llmBackend', {
+      provider: usage.provider,
+      model: usage.model,
+    });
+
+    if (userId && this.tokenBudget) {
+      this.tokenBudget
+        .recordUsage({
+          userId,
+          jobId: job.id,
+          provider: usage.provider,
+          model: usage.model,
+          promptTokens: usage.promptTokens,
+          completionTokens: usage.completionTokens,
+          estimated: usage.estimated ?? false,
+        })
+        .catch(error => {
+          console.error('Failed to record token usage:', error);
+        });
+    }
+  }
+
+  private async selectFewShotExamples(
+    job: GenerationJob,
+    userId?: string
+  ): Promise<FewShotExample[]> {
+    try {
+      const examples = await this.exampleSelector.selectExamples(
+        job.request,
+        userId
+      );
+
+      job.addMetadata(
+        'fewShotExampleIds',
+        examples.map(example => example.componentId)
+      );
+      return examples;
+    } catch (error) {
+      // Fall back to the template's built-in examples
+      console.error('Failed to select few-shot examples:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Prompt template versions for the job. Retries keep the versions chosen
+   * on the first attempt so a job is only ever measured against one version.
+   */
+  private async selectPromptVersions(
+    job: GenerationJob
+  ): Promise<Record<string, string> | undefined> {
+    const existing = job.getMetadata('promptVersions');
+    if (existing) {
+      return existing;
+    }
+
+    if (!this.promptVersionSelector) {
+      return undefined;
+    }
+
+    const versions = await this.promptVersionSelector.selectVersions(job.id);
+    job.addMetadata('promptVersions', versions);
+    return versions;
+  }
+
+  /**
+   * Validates the generated component and, while it fails, sends the
+   * diagnostics back to the LLM for up to `maxRepairRounds` repairs. A
+   * template for the component type is the last resort. Every round is
+   * recorded on the job under `validation`.
+   */
+  private async validateWithRepair(
+    job: GenerationJob,
+    generated: NonNullable<GenerationResponse['component']>,
+    options: LLMCallOptions,
+    onRepair?: (detail: string) => Promise<void>
+  ): Promise<NonNullable<GenerationResponse['component']>> {
+    const { component, rounds, ...result } = await this.repairLoop.run(
+      job.request,
+      generated,
+      options,
+      onRepair
+    );
+    const record = (outcome: 'valid' | 'repaired' | 'template' | 'failed') =>
+      job.addMetadata('validation', { outcome, rounds });
+
+    if (result.isValid) {
+      record(rounds.length > 1 ? 'repaired' : 'valid');
+      return component;
+    }
+
+    const startedAt = Date.now();
+    await onRepair?.('Falling back to a template');
+    const templateCode = await this.attemptTemplateFallback(component);
+    if (templateCode) {
+      const templateResult = await this.repairLoop.validate(templateCode);
+      rounds.push({
+        round: rounds.length,
+        source: 'template',
+        valid: templateResult.isValid,
+        diagnostics: templateResult.diagnostics.slice(
+          0,
+          MAX_RECORDED_DIAGNOSTICS
+        ),
+        durationMs: Date.now() - startedAt,
+      });
+
+      if (templateResult.isValid) {
+        record('template');
+        options.onChunk?.({ raw: '', code: templateCode, reset: true });
+        return { ...component, code: templateCode };
+      }
+    }
+
+    record('failed');
+    throw new LLMGenerationError(
+      `Code validation failed after ${this.maxRepairRounds} repair round(s): ${result.diagnostics
+        .slice(0, 3)
+        .map(diagnostic => diagnostic.message)
+        .join('; ')}`,
+      'validation'
+    );
+  }
+
+  private async attemptTemplateFallback(
+    component: NonNullable<GenerationResponse['component']>
   ): Promise<string | null> {
-    // Try template-based generation as fallback
     try {
       if (
         this.templateEngine
           .getAvailableTemplates()
           .includes(component.componentType)
       ) {
+        const props: Array<{
+          name: string;
+          type: string;
+          required: boolean;
+          defaultValue?: any;
+        }> = component.propsSchema?.props ?? [];
+
+        // Shape of the template engine's TemplateContext
         return await this.templateEngine.generateFromTemplate(
           component.componentType,
           {
             componentName: component.componentName,
-            propsSchema: component.propsSchema,
-            description: component.description,
+            props: props.map(prop => ({
+              name: prop.name,
+              type: prop.type,
+              required: prop.required,
+              defaultValue: prop.defaultValue,
+            })),
+            imports: [],
+            interfaces: [],
+            methods: [],
+            examples: component.examples,
           }
         );
       }
@@ -297,21 +1304,6 @@ export class ComponentGenerationService {
     return null;
   }
 
-  private determineComplexity(code: string): 'simple' | 'medium' | 'complex' {
-    const lines = code.split('\n').length;
-    const hasHooks = /use[A-Z]/.test(code);
-    const hasEffects = /useEffect|useCallback|useMemo/.test(code);
-    const hasComplexLogic = /if|switch|for|while|map|filter|reduce/.test(code);
-
-    if (lines > 200 || (hasEffects && hasComplexLogic)) {
-      return 'complex';
-    } else if (lines > 50 || hasHooks || hasComplexLogic) {
-      return 'medium';
-    } else {
-      return 'simple';
-    }
-  }
-
   private extractDependencies(code: string): string[] {
     const importRegex = /import.*from\s+['"]([^'"]+)['"]/g;
     const dependencies: string[] = [];
@@ -427,12 +1419,43 @@ export class ComponentGenerationService {
     return `${cleanName}${Date.now()}`;
   }
 
-  public async cancelJob(jobId: string): Promise<void> {
-    const job = await this.jobRepository.findById(jobId);
-    if (job && !job.isCompleted()) {
-      job.fail(new Error('Job cancelled by user'));
-      await this.jobRepository.update(job);
+  /**
+   * Cancels a pending or running job. A job running in this process is
+   * aborted at once; elsewhere its runner notices within a few seconds.
+   * Resolves with the job as stored afterwards (null when it doesn't exist).
+   */
+  public async cancelJob(jobId: string): Promise<GenerationJob | null> {
+    if (await this.jobRepository.markAsCancelled(jobId)) {
+      runningJobs.get(jobId)?.abort();
     }
+    return this.jobRepository.findById(jobId);
+  }
+
+  /**
+   * Starts a new job from a past job's request with `edits` applied. The
+   * past job is left as it is; the new one records it as `rerunOf`.
+   */
+  public async rerunJob(
+    original: GenerationJob,
+    edits: GenerationRequestEdits,
+    userId?: string,
+    options: LLMCallOptions = {}
+  ): Promise<GenerationJob> {
+    const { context, options: requestOptions, ...fields } = edits;
+    const request = GenerationRequest.parse({
+      ...original.request,
+      ...withoutUndefined(fields),
+      context: context
+        ? { ...original.request.context, ...withoutUndefined(context) }
+        : original.request.context,
+      options: requestOptions
+        ? { ...original.request.options, ...withoutUndefined(requestOptions) }
+        : original.request.options,
+    });
+
+    return this.generateComponent(request, userId, options, {
+      rerunOf: original.id,
+    });
   }
 
   public async retryJob(jobId: string): Promise<void> {
@@ -441,14 +1464,64 @@ export class ComponentGenerationService {
       job.retry();
       await this.jobRepository.update(job);
 
-      // Restart processing
-      this.processGenerationJob(jobId).catch(error => {
-        console.error('Job retry failed:', error);
-      });
+      // Restart processing; in worker mode the queue picks it up
+      if (this.queueMode === 'inline') {
+        this.processGenerationJob(jobId).catch(error => {
+          console.error('Job retry failed:', error);
+        });
+      }
     }
   }
 
   public async getJobStatus(jobId: string): Promise<GenerationJob | null> {
     return this.jobRepository.findById(jobId);
   }
+
+  // The user's jobs, newest first
+  public async getJobHistory(
+    userId: string,
+    query: GenerationJobQuery = {}
+  ): Promise<{ jobs: GenerationJob[]; total: number }> {
+    return this.jobRepository.findByUserId(userId, query);
+  }
+}
+
+// Where accepted jobs run: in the request process, or picked up by a worker
+export type GenerationQueueMode = 'inline' | 'worker';
+
+// GENERATION_QUEUE_MODE, defaulting to inline processing
+export function queueModeFromEnvironment(
+  env: NodeJS.ProcessEnv = process.env
+): GenerationQueueMode {
+  const mode = env.GENERATION_QUEUE_MODE || 'inline';
+  if (mode !== 'inline' && mode !== 'worker') {
+    throw new Error(`Invalid GENERATION_QUEUE_MODE "${mode}"`);
+  }
+  return mode;
+}
+
+// GENERATION_IDEMPOTENCY_WINDOW_MINUTES, or the default when unset or invalid
+export function idempotencyWindowFromEnvironment(
+  env: NodeJS.ProcessEnv = process.env
+): number {
+  const minutes = parseInt(env.GENERATION_IDEMPOTENCY_WINDOW_MINUTES || '', 10);
+  return Number.isFinite(minutes) && minutes > 0
+    ? minutes
+    : DEFAULT_IDEMPOTENCY_WINDOW_MINUTES;
+}
+
+// LLM_REPAIR_ROUNDS, or the default when unset or invalid; 0 skips straight to templates
+export function repairRoundsFromEnvironment(
+  env: NodeJS.ProcessEnv = process.env
+): number {
+  const rounds = parseInt(env.LLM_REPAIR_ROUNDS || '', 10);
+  return Number.isFinite(rounds) && rounds >= 0
+    ? rounds
+    : DEFAULT_REPAIR_ROUNDS;
+}
+
+function withoutUndefined<T extends object>(value: T): Partial<T> {
+  return Object.fromEntries(
+    Object.entries(value).filter(([, field]) => field !== undefined)
+  ) as Partial<T>;
 }
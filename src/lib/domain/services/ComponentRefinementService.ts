@@ -0,0 +1,180 @@
+import { Component } from '../entities/Component';
+import {
+  IRefinementTurnRepository,
+  RefinementTurn,
+} from '../repositories/IRefinementTurnRepository';
+import {
+  ICodeValidator,
+  ILLMProvider,
+  IPromptScreener,
+  LLMCallOptions,
+  LLMGenerationError,
+  LLMTokenUsage,
+  PromptRejectedError,
+} from './ComponentGenerationService';
+import { CodeRepairLoop, DEFAULT_REPAIR_ROUNDS } from './CodeRepairLoop';
+import { TokenBudgetService } from './TokenBudgetService';
+
+export interface RefinementResult {
+  component: Component;
+  turn: RefinementTurn;
+}
+
+/**
+ * Applies follow-up instructions ("add pagination", "make the header
+ * sticky") to a saved component. The provider sees the current code and
+ * every earlier instruction; each turn is stored with the code before and
+ * after so the thread can be replayed and diffed. With a code validator the
+ * revised code goes through the same validation and repair rounds as
+ * generated code before it is saved.
+ */
+export class ComponentRefinementService {
+  private repairLoop?: CodeRepairLoop;
+
+  constructor(
+    private turnRepository: IRefinementTurnRepository,
+    private llmProvider: ILLMProvider,
+    private tokenBudget?: TokenBudgetService,
+    private promptScreener?: IPromptScreener,
+    private codeValidator?: ICodeValidator,
+    maxRepairRounds: number = DEFAULT_REPAIR_ROUNDS
+  ) {
+    if (codeValidator) {
+      this.repairLoop = new CodeRepairLoop(
+        codeValidator,
+        llmProvider,
+        maxRepairRounds
+      );
+    }
+  }
+
+  public async refine(
+    component: Component,
+    rawInstruction: string,
+    userId?: string,
+    options: Pick<LLMCallOptions, 'bypassCache'> = {}
+  ): Promise<RefinementResult> {
+    const instruction = this.screenInstruction(rawInstruction);
+
+    if (userId && this.tokenBudget) {
+      await this.tokenBudget.assertWithinBudget(userId);
+    }
+
+    const thread = await this.turnRepository.findByComponentId(component.id);
+    const usage = { promptTokens: 0, completionTokens: 0 };
+    let backend: Pick<LLMTokenUsage, 'provider' | 'model'> | undefined;
+
+    console.log(
+      `RefinementService: Turn ${thread.length + 1} for ${component.name}`
+    );
+
+    const request = { prompt: instruction, preferredType: component.type };
+    const callOptions: LLMCallOptions = {
+      ...options,
+      onUsage: callUsage => {
+        usage.promptTokens += callUsage.promptTokens;
+        usage.completionTokens += callUsage.completionTokens;
+        backend = { provider: callUsage.provider, model: callUsage.model };
+        this.recordUsage(callUsage, userId);
+      },
+    };
+
+    const response = await this.llmProvider.generateComponent(request, {
+      ...callOptions,
+      refinement: {
+        current: {
+          componentType: component.type,
+          componentName: component.name,
+          code: component.code,
+          propsSchema: component.propsSchema,
+          previewContent: (component as any).previewContent || '',
+          description: component.description,
+        },
+        history: thread.map(turn => turn.instruction),
+      },
+    });
+
+    if (!response.success || !response.component) {
+      throw new LLMGenerationError(
+        response.error?.message || 'Refinement failed',
+        response.error?.type ?? 'generation'
+      );
+    }
+
+    let refined = response.component;
+    if (this.repairLoop) {
+      const outcome = await this.repairLoop.run(request, refined, callOptions);
+      if (!outcome.isValid) {
+        throw new LLMGenerationError(
+          `Code validation failed after ${this.repairLoop.maxRounds} repair round(s): ${outcome.diagnostics
+            .slice(0, 3)
+            .map(diagnostic => diagnostic.message)
+            .join('; ')}`,
+          'validation'
+        );
+      }
+      refined = outcome.component;
+    }
+
+    // Name and type stay fixed; they identify the component in the library
+    const revised = component.revise({
+      code: refined.code,
+      propsSchema: refined.propsSchema,
+      metadata: await this.codeValidator?.analyzeComponent(refined.code),
+    });
+    if (refined.previewContent) {
+      (revised as any).previewContent = refined.previewContent;
+    }
+
+    // The turn number is assigned when the turn is stored
+    return this.turnRepository.createWithComponent(revised, component.version, {
+      componentId: component.id,
+      userId,
+      instruction,
+      previousCode: component.code,
+      llmProvider: backend?.provider,
+      llmModel: backend?.model,
+      promptTokens: usage.promptTokens,
+      completionTokens: usage.completionTokens,
+    });
+  }
+
+  // Instructions are screened like generation prompts; the redacted text is stored
+  private screenInstruction(instruction: string): string {
+    if (!this.promptScreener) return instruction;
+
+    const screening = this.promptScreener.screen(instruction);
+    if (screening.action === 'reject') {
+      const reasons = screening.findings
+        .filter(finding => finding.action === 'reject')
+        .map(finding => finding.reason ?? finding.rule);
+      throw new PromptRejectedError(
+        `Instruction rejected: ${Array.from(new Set(reasons)).join('; ')}`,
+        screening
+      );
+    }
+
+    return screening.prompt;
+  }
+
+  public async getThread(componentId: string): Promise<RefinementTurn[]> {
+    return this.turnRepository.findByComponentId(componentId);
+  }
+
+  private recordUsage(usage: LLMTokenUsage, userId?: string): void {
+    if (!userId || !this.tokenBudget) return;
+
+    this.tokenBudget
+      .recordUsage({
+        userId,
+        provider: usage.provider,
+        model: usage.model,
+        promptTokens: usage.promptTokens,
+        completionTokens: usage.completionTokens,
+        estimated: usage.estimated ?? false,
+      })
+      .catch(error => {
+        console.error('Failed to record token usage:', error);
+      });
+  }
+}
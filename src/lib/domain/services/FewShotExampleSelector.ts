@@ -0,0 +1,187 @@
+import { Component } from '../entities/Component';
+import { IComponentRepository } from '../repositories/IComponentRepository';
+import { GenerationRequest } from '@/types';
+import { FewShotExample } from './ComponentGenerationService';
+
+export interface FewShotExampleSelectorOptions {
+  // Examples injected per prompt; 0 disables retrieval
+  maxExamples?: number;
+  // Saved components considered per lookup
+  candidatePoolSize?: number;
+  // Skip components whose code and preview together exceed this many characters
+  maxExampleLength?: number;
+}
+
+const STOP_WORDS = new Set([
+  'the',
+  'and',
+  'with',
+  'for',
+  'that',
+  'this',
+  'are',
+  'was',
+  'will',
+  'can',
+  'has',
+  'have',
+  'create',
+  'make',
+  'component',
+]);
+
+/**
+ * Picks the saved components from a user's own library that best match a
+ * generation request, so the model follows the conventions already used
+ * there instead of only the built-in examples.
+ */
+export class FewShotExampleSelector {
+  private maxExamples: number;
+  private candidatePoolSize: number;
+  private maxExampleLength: number;
+
+  constructor(
+    private componentRepository: IComponentRepository,
+    options: FewShotExampleSelectorOptions = {}
+  ) {
+    this.maxExamples = Math.max(0, options.maxExamples ?? 2);
+    this.candidatePoolSize = options.candidatePoolSize ?? 50;
+    this.maxExampleLength = options.maxExampleLength ?? 12000;
+  }
+
+  public async selectExamples(
+    request: GenerationRequest,
+    userId?: string
+  ): Promise<FewShotExample[]> {
+    if (!userId || this.maxExamples === 0) {
+      return [];
+    }
+
+    const keywords = this.extractKeywords(request.prompt);
+    const candidates = await this.findCandidates(request, keywords, userId);
+
+    return candidates
+      .filter(component => this.isUsable(component))
+      .map(component => ({
+        component,
+        score: this.score(component, request, keywords),
+      }))
+      .filter(({ score }) => score > 0)
+      .sort(
+        (a, b) =>
+          b.score - a.score || b.component.usageCount - a.component.usageCount
+      )
+      .slice(0, this.maxExamples)
+      .map(({ component }) => this.toExample(component));
+  }
+
+  private async findCandidates(
+    request: GenerationRequest,
+    keywords: string[],
+    userId: string
+  ): Promise<Component[]> {
+    const lookups = [
+      this.componentRepository.search({
+        userId,
+        tags: keywords,
+        limit: this.candidatePoolSize,
+      }),
+      this.componentRepository.search({
+        userId,
+        limit: this.candidatePoolSize,
+        sortBy: 'usageCount',
+      }),
+    ];
+
+    if (request.preferredType) {
+      lookups.push(
+        this.componentRepository.search({
+          userId,
+          types: [request.preferredType],
+          limit: this.candidatePoolSize,
+        })
+      );
+    }
+
+    const results = await Promise.all(lookups);
+    const unique = new Map<string, Component>();
+    results.forEach(({ components }) =>
+      components.forEach(component => unique.set(component.id, component))
+    );
+
+    return Array.from(unique.values());
+  }
+
+  /**
+   * Type match dominates; tags, stored keywords and name/description words
+   * that overlap the prompt break ties.
+   */
+  private score(
+    component: Component,
+    request: GenerationRequest,
+    keywords: string[]
+  ): number {
+    let score = 0;
+
+    if (request.preferredType && component.type === request.preferredType) {
+      score += 3;
+    }
+
+    const tags = new Set(component.tags.map(tag => tag.toLowerCase()));
+    const storedKeywords = new Set(
+      (component.metadata?.keywords || []).map(keyword => keyword.toLowerCase())
+    );
+    const text = new Set(
+      this.extractKeywords(
+        `${this.splitPascalCase(component.name)} ${component.description || ''}`
+      )
+    );
+
+    for (const keyword of keywords) {
+      if (tags.has(keyword)) score += 1;
+      if (storedKeywords.has(keyword)) score += 0.5;
+      if (text.has(keyword)) score += 0.5;
+    }
+
+    return score;
+  }
+
+  private isUsable(component: Component): boolean {
+    const previewContent: string | undefined = (component as any)
+      .previewContent;
+
+    // Examples without a preview would teach the model to leave it out
+    return (
+      !!previewContent &&
+      component.code.length + previewContent.length <= this.maxExampleLength
+    );
+  }
+
+  private toExample(component: Component): FewShotExample {
+    return {
+      componentId: component.id,
+      input: component.description || this.splitPascalCase(component.name),
+      output: {
+        componentType: component.type,
+        componentName: component.name,
+        propsSchema: component.propsSchema,
+        code: component.code,
+        previewContent: (component as any).previewContent,
+      },
+    };
+  }
+
+  private extractKeywords(text: string): string[] {
+    const words = text
+      .toLowerCase()
+      .replace(/[^\w\s]/g, ' ')
+      .split(/\s+/)
+      .filter(word => word.length > 2 && !STOP_WORDS.has(word));
+
+    return Array.from(new Set(words));
+  }
+
+  private splitPascalCase(name: string): string {
+    return name.replace(/([a-z0-9])([A-Z])/g, '$1 $2');
+  }
+}
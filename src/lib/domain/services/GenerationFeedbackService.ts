@@ -0,0 +1,77 @@
+import { GenerationJob } from '../entities/GenerationJob';
+import { IComponentRepository } from '../repositories/IComponentRepository';
+import {
+  GenerationFeedback,
+  IGenerationFeedbackRepository,
+} from '../repositories/IGenerationFeedbackRepository';
+
+export type FeedbackInput = Pick<
+  GenerationFeedback,
+  'rating' | 'issues' | 'expectedType' | 'comment'
+>;
+
+// Only jobs that produced a component can be rated
+export class JobNotRateableError extends Error {
+  constructor(public readonly jobId: string) {
+    super(`Job ${jobId} has no generated component to rate`);
+    this.name = 'JobNotRateableError';
+  }
+}
+
+/**
+ * Stores user ratings of generated components and keeps the component's
+ * usageStats.avgRating (share of thumbs up) in step with them.
+ */
+export class GenerationFeedbackService {
+  constructor(
+    private feedbackRepository: IGenerationFeedbackRepository,
+    private componentRepository: IComponentRepository
+  ) {}
+
+  public async submitFeedback(
+    job: GenerationJob,
+    userId: string,
+    input: FeedbackInput
+  ): Promise<GenerationFeedback> {
+    if (!job.isSuccessful() && !job.hasPartialResult()) {
+      throw new JobNotRateableError(job.id);
+    }
+
+    const feedback = await this.feedbackRepository.save({
+      jobId: job.id,
+      componentId: job.componentId,
+      userId,
+      rating: input.rating,
+      issues: input.issues,
+      expectedType: input.issues.includes('wrong_type')
+        ? input.expectedType
+        : undefined,
+      comment: input.comment,
+    });
+
+    if (feedback.componentId) {
+      await this.refreshComponentRating(feedback.componentId);
+    }
+
+    return feedback;
+  }
+
+  private async refreshComponentRating(componentId: string): Promise<void> {
+    const component = await this.componentRepository.findById(componentId);
+    if (!component?.metadata) {
+      return;
+    }
+
+    const { averageRating } =
+      await this.feedbackRepository.getComponentRating(componentId);
+    component.updateMetadata({
+      usageStats: {
+        // A generated component starts from its own successful generation
+        totalGenerations: component.metadata.usageStats?.totalGenerations ?? 1,
+        successRate: component.metadata.usageStats?.successRate ?? 1,
+        avgRating: averageRating,
+      },
+    });
+    await this.componentRepository.update(component);
+  }
+}
@@ -0,0 +1,220 @@
+import { Component } from '../entities/Component';
+import { GenerationJob } from '../entities/GenerationJob';
+import {
+  ComponentCandidate,
+  GeneratedComponent,
+  GenerationResponse,
+  GenerationVariant,
+} from '@/types';
+import type { LLMCallOptions } from './ComponentGenerationService';
+
+/**
+ * State shared by the stages of one job run. Each stage reads what earlier
+ * stages produced and fills in its own part.
+ */
+export interface GenerationContext {
+  readonly job: GenerationJob;
+  readonly userId?: string;
+  // Options for every LLM call the job makes
+  readonly llmOptions: LLMCallOptions;
+  candidates: ComponentCandidate[];
+  // Provider response for the generated (or best ranked) component
+  llmResponse?: GenerationResponse;
+  // The component as it will be saved; later stages may rewrite its code
+  generated?: GeneratedComponent;
+  variants?: GenerationVariant[];
+  componentName?: string;
+  saved?: Component;
+  // Records a progress event for work within a stage (e.g. a repair round)
+  reportProgress?: (step: string, detail?: string) => Promise<void>;
+}
+
+export type StageOutcome =
+  | 'completed'
+  | 'skipped'
+  | 'fallback'
+  | 'aborted'
+  | 'cancelled'
+  | 'failed';
+
+export interface StageResult {
+  // 'completed' when a stage returns nothing
+  outcome?: 'completed' | 'skipped' | 'aborted';
+  // Why the stage skipped or aborted, or what it changed
+  detail?: string;
+}
+
+export interface GenerationStage {
+  readonly name: string;
+  run(context: GenerationContext): Promise<StageResult | void>;
+  /**
+   * Called when `run` throws. Resolving recovers the job (recorded as
+   * 'fallback'); stages without one fail the job with the original error.
+   */
+  fallback?(
+    context: GenerationContext,
+    error: Error
+  ): Promise<StageResult | void>;
+}
+
+export interface StageRecord {
+  name: string;
+  outcome: StageOutcome;
+  startedAt: string;
+  durationMs: number;
+  detail?: string;
+  error?: string;
+}
+
+// Told about each stage as it runs, e.g. to report progress
+export interface PipelineListener {
+  stageStarted?(stage: string, index: number, total: number): Promise<void>;
+  stageFinished?(
+    record: StageRecord,
+    index: number,
+    total: number
+  ): Promise<void>;
+}
+
+export interface StagePlacement {
+  before?: string;
+  after?: string;
+}
+
+/**
+ * A stage ended the run on purpose. The job fails without retrying.
+ */
+export class StageAbortedError extends Error {
+  constructor(
+    public readonly stage: string,
+    message: string
+  ) {
+    super(message);
+    this.name = 'StageAbortedError';
+  }
+}
+
+/**
+ * The job was cancelled; raised in place of whatever the stage was doing.
+ */
+export class GenerationCancelledError extends Error {
+  constructor(message: string = 'Generation job was cancelled') {
+    super(message);
+    this.name = 'GenerationCancelledError';
+  }
+}
+
+/**
+ * Runs named stages in order and records each one's outcome and duration
+ * on the job under `stages`, so a failed job shows where it stopped.
+ * Once `llmOptions.signal` is aborted no further stage starts, and the stage
+ * in progress ends as cancelled without its fallback.
+ */
+export class GenerationPipeline {
+  private stages: GenerationStage[] = [];
+
+  constructor(stages: GenerationStage[] = []) {
+    stages.forEach(stage => this.register(stage));
+  }
+
+  public get stageNames(): string[] {
+    return this.stages.map(stage => stage.name);
+  }
+
+  // Adds a stage at the end, or before/after an existing one
+  public register(
+    stage: GenerationStage,
+    placement: StagePlacement = {}
+  ): this {
+    if (this.stages.some(existing => existing.name === stage.name)) {
+      throw new Error(`Pipeline stage "${stage.name}" is already registered`);
+    }
+
+    const anchor = placement.before ?? placement.after;
+    if (!anchor) {
+      this.stages.push(stage);
+      return this;
+    }
+
+    const index = this.stages.findIndex(existing => existing.name === anchor);
+    if (index === -1) {
+      throw new Error(`Pipeline stage "${anchor}" does not exist`);
+    }
+
+    this.stages.splice(placement.before ? index : index + 1, 0, stage);
+    return this;
+  }
+
+  public async run(
+    context: GenerationContext,
+    listener: PipelineListener = {}
+  ): Promise<GenerationContext> {
+    const records: StageRecord[] = [];
+    const signal = context.llmOptions.signal;
+    const total = this.stages.length;
+    context.job.addMetadata('stages', records);
+
+    for (const [index, stage] of this.stages.entries()) {
+      if (signal?.aborted) {
+        throw new GenerationCancelledError();
+      }
+      await listener.stageStarted?.(stage.name, index, total);
+
+      const startedAt = new Date();
+      const record = async (
+        outcome: StageOutcome,
+        detail?: string,
+        error?: Error
+      ) => {
+        const stageRecord: StageRecord = {
+          name: stage.name,
+          outcome,
+          startedAt: startedAt.toISOString(),
+          durationMs: Date.now() - startedAt.getTime(),
+          detail,
+          error: error?.message,
+        };
+        records.push(stageRecord);
+        await listener.stageFinished?.(stageRecord, index, total);
+      };
+
+      let result: StageResult | void;
+      try {
+        result = await stage.run(context);
+      } catch (error) {
+        const err = error instanceof Error ? error : new Error(String(error));
+        if (signal?.aborted) {
+          await record('cancelled', undefined, err);
+          throw new GenerationCancelledError();
+        }
+
+        if (!stage.fallback) {
+          await record('failed', undefined, err);
+          throw err;
+        }
+
+        try {
+          result = await stage.fallback(context, err);
+        } catch (fallbackError) {
+          await record('failed', undefined, err);
+          throw fallbackError;
+        }
+
+        await record('fallback', result?.detail, err);
+        continue;
+      }
+
+      const outcome = result?.outcome ?? 'completed';
+      await record(outcome, result?.detail);
+
+      if (outcome === 'aborted') {
+        throw new StageAbortedError(
+          stage.name,
+          result?.detail || `Stage "${stage.name}" aborted the job`
+        );
+      }
+    }
+
+    return context;
+  }
+}
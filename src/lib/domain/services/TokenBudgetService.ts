@@ -0,0 +1,117 @@
+import {
+  ITokenUsageRepository,
+  TokenUsageEntry,
+} from '../repositories/ITokenUsageRepository';
+
+export type BudgetPeriod = 'daily' | 'monthly';
+
+export interface TokenBudgets {
+  // Tokens per user per UTC day / calendar month; unset means unlimited
+  daily?: number;
+  monthly?: number;
+}
+
+export interface BudgetStatus {
+  period: BudgetPeriod;
+  limit: number;
+  used: number;
+  remaining: number;
+  resetsAt: Date;
+}
+
+export class TokenBudgetExceededError extends Error {
+  constructor(public readonly budget: BudgetStatus) {
+    super(
+      `${budget.period === 'daily' ? 'Daily' : 'Monthly'} token budget exhausted (${budget.used}/${budget.limit} tokens used, resets ${budget.resetsAt.toISOString()})`
+    );
+    this.name = 'TokenBudgetExceededError';
+  }
+}
+
+/**
+ * Persists LLM token usage per user and enforces the configured budgets.
+ * Budgets are checked before a job starts, so a single job may overshoot
+ * the remaining allowance; the next one is then refused.
+ */
+export class TokenBudgetService {
+  constructor(
+    private usageRepository: ITokenUsageRepository,
+    private budgets: TokenBudgets = {}
+  ) {}
+
+  public async recordUsage(entry: TokenUsageEntry): Promise<void> {
+    await this.usageRepository.record(entry);
+  }
+
+  public async getBudgetStatus(
+    userId: string,
+    now: Date = new Date()
+  ): Promise<BudgetStatus[]> {
+    const periods = (['daily', 'monthly'] as BudgetPeriod[]).filter(
+      period => this.budgets[period] !== undefined
+    );
+
+    return Promise.all(
+      periods.map(async period => {
+        const limit = this.budgets[period] as number;
+        const used = await this.usageRepository.getTotalForUser(
+          userId,
+          this.getPeriodStart(period, now)
+        );
+
+        return {
+          period,
+          limit,
+          used,
+          remaining: Math.max(0, limit - used),
+          resetsAt: this.getPeriodEnd(period, now),
+        };
+      })
+    );
+  }
+
+  public async assertWithinBudget(userId: string): Promise<void> {
+    const statuses = await this.getBudgetStatus(userId);
+    const exhausted = statuses.find(status => status.remaining === 0);
+
+    if (exhausted) {
+      throw new TokenBudgetExceededError(exhausted);
+    }
+  }
+
+  private getPeriodStart(period: BudgetPeriod, now: Date): Date {
+    return period === 'daily'
+      ? new Date(
+          Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate())
+        )
+      : new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+  }
+
+  private getPeriodEnd(period: BudgetPeriod, now: Date): Date {
+    return period === 'daily'
+      ? new Date(
+          Date.UTC(
+            now.getUTCFullYear(),
+            now.getUTCMonth(),
+            now.getUTCDate() + 1
+          )
+        )
+      : new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1));
+  }
+
+  public static fromEnvironment(
+    usageRepository: ITokenUsageRepository,
+    env: NodeJS.ProcessEnv = process.env
+  ): TokenBudgetService {
+    return new TokenBudgetService(usageRepository, {
+      daily: parseBudget(env.LLM_DAILY_TOKEN_BUDGET),
+      monthly: parseBudget(env.LLM_MONTHLY_TOKEN_BUDGET),
+    });
+  }
+}
+
+function parseBudget(value?: string): number | undefined {
+  if (!value) return undefined;
+  const budget = parseInt(value, 10);
+  return Number.isFinite(budget) && budget >= 0 ? budget : undefined;
+}
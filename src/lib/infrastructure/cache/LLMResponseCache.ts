@@ -0,0 +1,75 @@
+export type LLMCacheKind = 'generateComponent' | 'analyzePrompt';
+
+export interface ILLMResponseCache {
+  get<T>(key: string): Promise<T | null>;
+  set<T>(
+    key: string,
+    kind: LLMCacheKind,
+    value: T,
+    ttlMs: number
+  ): Promise<void>;
+  delete(key: string): Promise<void>;
+  // Removes expired entries; returns how many were removed
+  purgeExpired(): Promise<number>;
+}
+
+interface MemoryEntry {
+  value: unknown;
+  expiresAt: number;
+}
+
+/**
+ * Per-process cache. Oldest entries are evicted first once `maxEntries` is
+ * reached; reads refresh an entry's position.
+ */
+export class InMemoryLLMResponseCache implements ILLMResponseCache {
+  private entries: Map<string, MemoryEntry> = new Map();
+
+  constructor(private maxEntries: number = 500) {}
+
+  async get<T>(key: string): Promise<T | null> {
+    const entry = this.entries.get(key);
+    if (!entry) return null;
+
+    this.entries.delete(key);
+    if (entry.expiresAt <= Date.now()) {
+      return null;
+    }
+
+    this.entries.set(key, entry);
+    return entry.value as T;
+  }
+
+  async set<T>(
+    key: string,
+    kind: LLMCacheKind,
+    value: T,
+    ttlMs: number
+  ): Promise<void> {
+    this.entries.delete(key);
+    this.entries.set(key, { value, expiresAt: Date.now() + ttlMs });
+
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  async purgeExpired(): Promise<number> {
+    const now = Date.now();
+    let removed = 0;
+
+    this.entries.forEach((entry, key) => {
+      if (entry.expiresAt <= now) {
+        this.entries.delete(key);
+        removed++;
+      }
+    });
+
+    return removed;
+  }
+}
@@ -0,0 +1,56 @@
+import { PrismaClient } from '@prisma/client';
+import { ILLMResponseCache, LLMCacheKind } from './LLMResponseCache';
+
+/**
+ * Cache shared by every server instance, stored in the
+ * `llm_response_cache` table. Expired rows are ignored on read and removed
+ * by `purgeExpired`.
+ */
+export class PrismaLLMResponseCache implements ILLMResponseCache {
+  constructor(private prisma: PrismaClient) {}
+
+  async get<T>(key: string): Promise<T | null> {
+    const record = await this.prisma.llmResponseCache.findUnique({
+      where: { key },
+    });
+
+    if (!record || record.expiresAt <= new Date()) {
+      return null;
+    }
+
+    return JSON.parse(record.value) as T;
+  }
+
+  async set<T>(
+    key: string,
+    kind: LLMCacheKind,
+    value: T,
+    ttlMs: number
+  ): Promise<void> {
+    const data = {
+      kind,
+      value: JSON.stringify(value),
+      expiresAt: new Date(Date.now() + ttlMs),
+    };
+
+    await this.prisma.llmResponseCache.upsert({
+      where: { key },
+      create: { key, ...data },
+      update: data,
+    });
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.prisma.llmResponseCache.deleteMany({
+      where: { key },
+    });
+  }
+
+  async purgeExpired(): Promise<number> {
+    const result = await this.prisma.llmResponseCache.deleteMany({
+      where: { expiresAt: { lte: new Date() } },
+    });
+
+    return result.count;
+  }
+}
@@ -0,0 +1,73 @@
+import { PrismaClient } from '@prisma/client';
+import {
+  ComponentGenerationService,
+  idempotencyWindowFromEnvironment,
+  queueModeFromEnvironment,
+  repairRoundsFromEnvironment,
+} from '@/lib/domain/services/ComponentGenerationService';
+import { CandidateRanker } from '@/lib/domain/services/CandidateRanker';
+import { FewShotExampleSelector } from '@/lib/domain/services/FewShotExampleSelector';
+import { TokenBudgetService } from '@/lib/domain/services/TokenBudgetService';
+import { IntentClassifier } from '@/lib/core/intent/IntentClassifier';
+import { PromptVersionSelector } from '@/lib/core/prompts/PromptVersionSelector';
+import { defaultPromptTemplates } from '@/lib/core/prompts/templates';
+import { PromptScreener } from '@/lib/core/screening/PromptScreener';
+import { TemplateEngine } from '@/lib/core/templates/TemplateEngine';
+import { LLMProviderRegistry } from '../llm/LLMProviderRegistry';
+import { stagesFromEnvironment } from '../pipeline/stagesFromEnvironment';
+import { PrismaComponentRepository } from '../repositories/PrismaComponentRepository';
+import { PrismaGenerationJobRepository } from '../repositories/PrismaGenerationJobRepository';
+import { PrismaPromptSplitRepository } from '../repositories/PrismaPromptSplitRepository';
+import { PrismaTokenUsageRepository } from '../repositories/PrismaTokenUsageRepository';
+import { CodeValidator } from '../validation/CodeValidator';
+
+export interface GenerationServices {
+  componentRepository: PrismaComponentRepository;
+  jobRepository: PrismaGenerationJobRepository;
+  llmProvider: LLMProviderRegistry;
+  generationService: ComponentGenerationService;
+}
+
+/**
+ * The generation service every route and the worker run, configured from
+ * the environment: LLM providers and response cache, prompt splits, token
+ * budgets, intent classification, prompt screening, repair rounds, queue
+ * mode, idempotency window and the optional GENERATION_STAGES.
+ */
+export function generationServiceFromEnvironment(
+  prisma: PrismaClient,
+  env: NodeJS.ProcessEnv = process.env
+): GenerationServices {
+  const componentRepository = new PrismaComponentRepository(prisma);
+  const jobRepository = new PrismaGenerationJobRepository(prisma);
+  const llmProvider = LLMProviderRegistry.fromEnvironment(env, { prisma });
+  const codeValidator = new CodeValidator();
+
+  const generationService = new ComponentGenerationService(
+    componentRepository,
+    jobRepository,
+    llmProvider,
+    codeValidator,
+    new TemplateEngine(),
+    new PromptVersionSelector(
+      defaultPromptTemplates,
+      new PrismaPromptSplitRepository(prisma)
+    ),
+    new FewShotExampleSelector(componentRepository),
+    TokenBudgetService.fromEnvironment(
+      new PrismaTokenUsageRepository(prisma),
+      env
+    ),
+    IntentClassifier.fromEnvironment(componentRepository, env),
+    PromptScreener.fromEnvironment(env),
+    repairRoundsFromEnvironment(env),
+    new CandidateRanker(codeValidator),
+    queueModeFromEnvironment(env),
+    idempotencyWindowFromEnvironment(env)
+  );
+  stagesFromEnvironment(env).forEach(stage =>
+    generationService.registerStage(stage, { before: 'save' })
+  );
+
+  return { componentRepository, jobRepository, llmProvider, generationService };
+}
@@ -0,0 +1,924 @@
+import { z } from 'zod';
+import {
+  GenerationRequest,
+  GenerationResponse,
+  ComponentCandidate,
+  ComponentType,
+  ComponentGenerationSchema,
+  LLMExchange,
+  SchemaAttempt,
+} from '@/types';
+import {
+  FewShotExample,
+  ILLMProvider,
+  LLMCallOptions,
+  LLMStreamChunk,
+  LLMTokenUsage,
+  RefinementContext,
+  CodeRepairContext,
+} from '../../domain/services/ComponentGenerationService';
+import {
+  PromptTemplateRegistry,
+  RenderedPrompt,
+} from '../../core/prompts/PromptTemplateRegistry';
+import { defaultPromptTemplates } from '../../core/prompts/templates';
+import { analyzeComponent } from '../../core/analysis/ComponentAnalyzer';
+import { StreamingCodeExtractor } from './StreamingCodeExtractor';
+
+export interface LLMCompletion {
+  text: string;
+  // Token counts as reported by the backend, when it reports them
+  usage?: {
+    promptTokens: number;
+    completionTokens: number;
+  };
+}
+
+// Per-call sampling settings; unset fields use the backend's defaults
+export interface CompletionSettings {
+  temperature?: number;
+}
+
+export interface BaseLLMProviderOptions {
+  // Total tries (first call + repair re-prompts) to get schema-valid JSON
+  maxSchemaAttempts?: number;
+  promptTemplates?: PromptTemplateRegistry;
+  // Abort a single backend call after this long
+  timeoutMs?: number;
+  // Extra tries for a call that failed with 429, 5xx or a network error
+  maxRetries?: number;
+  // First backoff delay; doubles on every retry
+  retryBaseDelayMs?: number;
+  // Longest wait before a retry, including one asked for by Retry-After
+  maxRetryDelayMs?: number;
+}
+
+/**
+ * A backend call that failed at the transport level. `status` is the HTTP
+ * status when there was a response at all.
+ */
+export class LLMRequestError extends Error {
+  constructor(
+    message: string,
+    public readonly status?: number,
+    public readonly retryAfterMs?: number
+  ) {
+    super(message);
+    this.name = 'LLMRequestError';
+  }
+}
+
+// Retry-After is either delay-seconds or an HTTP date
+export function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) return undefined;
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+export class LLMTimeoutError extends Error {
+  constructor(public readonly timeoutMs: number) {
+    super(`LLM call timed out after ${timeoutMs}ms`);
+    this.name = 'LLMTimeoutError';
+  }
+}
+
+export class LLMCancelledError extends Error {
+  constructor() {
+    super('LLM call was cancelled');
+    this.name = 'LLMCancelledError';
+  }
+}
+
+export class SchemaEnforcementError extends Error {
+  constructor(
+    message: string,
+    public readonly attempts: SchemaAttempt[]
+  ) {
+    super(message);
+    this.name = 'SchemaEnforcementError';
+  }
+}
+
+interface TokenUsageTotals {
+  promptTokens: number;
+  completionTokens: number;
+  estimated?: boolean;
+}
+
+const AnalysisSchema = z.object({
+  candidates: z.array(ComponentCandidate),
+});
+
+export interface LLMUsageStats {
+  totalRequests: number;
+  totalTokens: number;
+  averageResponseTime: number;
+  successRate: number;
+  rateLimitHits: number;
+}
+
+/**
+ * Shared prompt building and response parsing for all LLM backends.
+ * Subclasses only need to know how to send a prompt and return raw text.
+ */
+export abstract class BaseLLMProvider implements ILLMProvider {
+  public abstract readonly name: string;
+
+  protected maxSchemaAttempts: number;
+  protected promptTemplates: PromptTemplateRegistry;
+  protected timeoutMs: number;
+  protected maxRetries: number;
+  protected retryBaseDelayMs: number;
+  protected maxRetryDelayMs: number;
+
+  private stats = {
+    totalRequests: 0,
+    failedRequests: 0,
+    totalTokens: 0,
+    totalResponseTime: 0,
+    rateLimitHits: 0,
+  };
+
+  constructor(
+    public readonly model: string,
+    options: BaseLLMProviderOptions = {}
+  ) {
+    this.maxSchemaAttempts = Math.max(1, options.maxSchemaAttempts ?? 3);
+    this.promptTemplates = options.promptTemplates ?? defaultPromptTemplates;
+    this.timeoutMs = options.timeoutMs ?? 60000;
+    this.maxRetries = Math.max(0, options.maxRetries ?? 2);
+    this.retryBaseDelayMs = options.retryBaseDelayMs ?? 500;
+    this.maxRetryDelayMs = options.maxRetryDelayMs ?? 10000;
+  }
+
+  /**
+   * Sends one prompt. Implementations should pass `signal` to the transport
+   * so timed-out calls are actually cancelled, and throw `LLMRequestError`
+   * with the HTTP status on non-2xx responses.
+   */
+  protected abstract complete(
+    prompt: string,
+    signal?: AbortSignal,
+    settings?: CompletionSettings
+  ): Promise<LLMCompletion>;
+
+  /**
+   * Streams raw text deltas to `onText` while completing. Backends without a
+   * streaming API fall back to a single delta containing the whole response.
+   */
+  protected async completeStream(
+    prompt: string,
+    onText: (delta: string) => void,
+    signal?: AbortSignal,
+    settings: CompletionSettings = {}
+  ): Promise<LLMCompletion> {
+    const completion = await this.complete(prompt, signal, settings);
+    onText(completion.text);
+    return completion;
+  }
+
+  async generateComponent(
+    request: GenerationRequest,
+    options: LLMCallOptions = {}
+  ): Promise<GenerationResponse> {
+    const startTime = Date.now();
+    let promptVersions: Record<string, string> | undefined;
+
+    try {
+      const templateName = options.refinement
+        ? 'refinement'
+        : options.codeRepair
+          ? 'code-repair'
+          : 'generation';
+      const prompt = options.refinement
+        ? this.buildRefinementPrompt(
+            request,
+            options.refinement,
+            options.promptVersions?.refinement
+          )
+        : options.codeRepair
+          ? this.buildCodeRepairPrompt(
+              request,
+              options.codeRepair,
+              options.promptVersions?.['code-repair']
+            )
+          : this.buildGenerationPrompt(
+              request,
+              options.promptVersions?.generation,
+              options.fewShotExamples
+            );
+      promptVersions = {
+        [templateName]: prompt.version,
+        repair:
+          options.promptVersions?.repair ||
+          this.promptTemplates.getDefaultVersion('repair'),
+      };
+      console.log(
+        `${this.constructor.name}: Sending request to ${this.name} (${this.model})...`
+      );
+
+      const { data, attempts, usage } = await this.completeWithSchema(
+        prompt.text,
+        ComponentGenerationSchema,
+        options
+      );
+
+      console.log(
+        `${this.constructor.name}: Received valid response from ${this.name} after ${attempts.length} attempt(s)`
+      );
+
+      const processingTime = Date.now() - startTime;
+
+      return {
+        success: true,
+        component: data,
+        metadata: {
+          processingTime,
+          tokensUsed: usage.promptTokens + usage.completionTokens,
+          tokenUsage: usage,
+          confidence: this.calculateConfidence(data, request),
+          intentMatch: this.calculateIntentMatch(request.prompt, data),
+          complexity: analyzeComponent(data.code).complexity,
+          schemaAttempts: attempts,
+          promptVersions,
+        },
+      };
+    } catch (error) {
+      const processingTime = Date.now() - startTime;
+      console.error(
+        `${this.constructor.name}: Error in generateComponent:`,
+        error
+      );
+
+      return {
+        success: false,
+        metadata: {
+          processingTime,
+          confidence: 0,
+          intentMatch: 0,
+          complexity: 'simple',
+          schemaAttempts:
+            error instanceof SchemaEnforcementError
+              ? error.attempts
+              : undefined,
+          promptVersions,
+        },
+        error: {
+          type: this.classifyError(error),
+          message:
+            error instanceof Error ? error.message : 'Unknown generation error',
+          details: error,
+          recovery: {
+            suggestions: [
+              'Try simplifying your prompt',
+              'Be more specific about the component type',
+              'Check if the requested features are supported',
+            ],
+          },
+        },
+      };
+    }
+  }
+
+  async analyzePrompt(
+    prompt: string,
+    options: LLMCallOptions = {}
+  ): Promise<ComponentCandidate[]> {
+    try {
+      console.log(`${this.constructor.name}: Analyzing prompt...`);
+      const analysisPrompt = this.buildAnalysisPrompt(
+        prompt,
+        options.promptVersions?.analysis
+      );
+      const { data } = await this.completeWithSchema(
+        analysisPrompt.text,
+        AnalysisSchema,
+        {
+          promptVersions: options.promptVersions,
+          onUsage: options.onUsage,
+          onExchange: options.onExchange,
+          signal: options.signal,
+        }
+      );
+
+      console.log(`${this.constructor.name}: Analysis response received`);
+
+      return data.candidates;
+    } catch (error) {
+      console.error(
+        `${this.constructor.name}: Failed to analyze prompt:`,
+        error
+      );
+      // Return empty array instead of failing the entire generation
+      return [];
+    }
+  }
+
+  /**
+   * Completes `prompt` and validates the JSON answer against `schema`. On a
+   * parse or schema failure the model is re-prompted with the exact zod
+   * errors, up to `maxSchemaAttempts` calls in total. Only the first call is
+   * streamed.
+   */
+  protected async completeWithSchema<T extends z.ZodTypeAny>(
+    prompt: string,
+    schema: T,
+    options: LLMCallOptions = {}
+  ): Promise<{
+    data: z.infer<T>;
+    text: string;
+    attempts: SchemaAttempt[];
+    usage: TokenUsageTotals;
+  }> {
+    const attempts: SchemaAttempt[] = [];
+    const usage: TokenUsageTotals = { promptTokens: 0, completionTokens: 0 };
+    let currentPrompt = prompt;
+    let totalText = '';
+
+    for (let attempt = 1; attempt <= this.maxSchemaAttempts; attempt++) {
+      const attemptStart = Date.now();
+      const { text } = await this.completeTracked(
+        currentPrompt,
+        attempt === 1 ? options.onChunk : undefined,
+        options.signal,
+        callUsage => {
+          usage.promptTokens += callUsage.promptTokens;
+          usage.completionTokens += callUsage.completionTokens;
+          if (callUsage.estimated) usage.estimated = true;
+          options.onUsage?.(callUsage);
+        },
+        options.onExchange,
+        { temperature: options.temperature }
+      );
+      totalText += text;
+
+      let errors: string[];
+      try {
+        const result = schema.safeParse(this.parseJsonResponse(text));
+        if (result.success) {
+          attempts.push({
+            attempt,
+            success: true,
+            errors: [],
+            durationMs: Date.now() - attemptStart,
+          });
+          return { data: result.data, text: totalText, attempts, usage };
+        }
+        errors = this.formatZodErrors(result.error);
+      } catch (parseError) {
+        errors = [
+          parseError instanceof Error
+            ? parseError.message.substring(0, 300)
+            : 'Response is not valid JSON',
+        ];
+      }
+
+      attempts.push({
+        attempt,
+        success: false,
+        errors,
+        durationMs: Date.now() - attemptStart,
+      });
+      console.log(
+        `${this.constructor.name}: Schema validation failed on attempt ${attempt}:`,
+        errors
+      );
+
+      currentPrompt = this.buildRepairPrompt(
+        prompt,
+        text,
+        errors,
+        options.promptVersions?.repair
+      ).text;
+    }
+
+    const lastErrors = attempts[attempts.length - 1]?.errors ?? [];
+    throw new SchemaEnforcementError(
+      `Invalid response schema after ${attempts.length} attempt(s): ${lastErrors.join('; ')}`,
+      attempts
+    );
+  }
+
+  protected buildRepairPrompt(
+    originalPrompt: string,
+    previousResponse: string,
+    errors: string[],
+    version?: string
+  ): RenderedPrompt {
+    return this.promptTemplates.render(
+      'repair',
+      {
+        originalPrompt,
+        errors: errors.map(error => `- ${error}`).join('\n'),
+        previousResponse: previousResponse.substring(0, 20000),
+      },
+      version
+    );
+  }
+
+  private formatZodErrors(error: z.ZodError): string[] {
+    return error.issues.map(
+      issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`
+    );
+  }
+
+  async validateApiKey(): Promise<boolean> {
+    try {
+      const { text } = await this.withTimeout(signal =>
+        this.complete('Test prompt', signal)
+      );
+      return text.length > 0;
+    } catch (error) {
+      return false;
+    }
+  }
+
+  /**
+   * Calls the backend (streaming when `onChunk` is given) and reports the
+   * call's token usage. Backends that return no usage get an estimate from
+   * text length, flagged as such. Every try, failed or not, is reported to
+   * `onExchange` with the raw prompt and response.
+   *
+   * Each try is cut off after `timeoutMs`. Rate limits, 5xx responses and
+   * network errors are retried with exponential backoff, unless part of the
+   * answer was already streamed to the caller.
+   */
+  private async completeTracked(
+    prompt: string,
+    onChunk: LLMCallOptions['onChunk'],
+    cancelSignal: AbortSignal | undefined,
+    onUsage: (usage: LLMTokenUsage) => void,
+    onExchange: ((exchange: LLMExchange) => void) | undefined,
+    settings: CompletionSettings = {}
+  ): Promise<LLMCompletion> {
+    const forward = onChunk ? this.forwardChunks(onChunk) : undefined;
+
+    for (let retry = 0; ; retry++) {
+      const callStart = Date.now();
+      let streamed = false;
+      this.stats.totalRequests++;
+
+      try {
+        const completion = await this.withTimeout(
+          signal =>
+            forward
+              ? this.completeStream(
+                  prompt,
+                  delta => {
+                    streamed = true;
+                    forward(delta);
+                  },
+                  signal,
+                  settings
+                )
+              : this.complete(prompt, signal, settings),
+          cancelSignal
+        );
+
+        const usage: LLMTokenUsage = completion.usage
+          ? { provider: this.name, model: this.model, ...completion.usage }
+          : {
+              provider: this.name,
+              model: this.model,
+              promptTokens: this.estimateTokenCount(prompt),
+              completionTokens: this.estimateTokenCount(completion.text),
+              estimated: true,
+            };
+
+        this.stats.totalTokens += usage.promptTokens + usage.completionTokens;
+        onUsage(usage);
+        onExchange?.({
+          provider: this.name,
+          model: this.model,
+          prompt,
+          response: completion.text,
+          startedAt: new Date(callStart).toISOString(),
+          durationMs: Date.now() - callStart,
+        });
+
+        return completion;
+      } catch (error) {
+        this.stats.failedRequests++;
+        onExchange?.({
+          provider: this.name,
+          model: this.model,
+          prompt,
+          error: error instanceof Error ? error.message : String(error),
+          startedAt: new Date(callStart).toISOString(),
+          durationMs: Date.now() - callStart,
+        });
+        if (this.getErrorStatus(error) === 429) {
+          this.stats.rateLimitHits++;
+        }
+
+        const delay = this.getRetryDelay(error, retry);
+        if (delay === null || streamed) {
+          throw error;
+        }
+
+        console.log(
+          `${this.constructor.name}: ${this.name} call failed (${error instanceof Error ? error.message : error}), retrying in ${delay}ms`
+        );
+        await this.sleep(delay, cancelSignal);
+      } finally {
+        this.stats.totalResponseTime += Date.now() - callStart;
+      }
+    }
+  }
+
+  /**
+   * Runs `call` with an abort signal that fires after `timeoutMs`, or when
+   * `cancelSignal` fires. Rejects with `LLMTimeoutError` / `LLMCancelledError`
+   * even if the backend ignores the signal.
+   */
+  protected async withTimeout<T>(
+    call: (signal: AbortSignal) => Promise<T>,
+    cancelSignal?: AbortSignal
+  ): Promise<T> {
+    if (cancelSignal?.aborted) {
+      throw new LLMCancelledError();
+    }
+
+    const controller = new AbortController();
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let onCancel: (() => void) | undefined;
+
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        controller.abort();
+        reject(new LLMTimeoutError(this.timeoutMs));
+      }, this.timeoutMs);
+    });
+
+    const cancelled = new Promise<never>((_, reject) => {
+      onCancel = () => {
+        controller.abort();
+        reject(new LLMCancelledError());
+      };
+      cancelSignal?.addEventListener('abort', onCancel, { once: true });
+    });
+
+    try {
+      return await Promise.race([call(controller.signal), timeout, cancelled]);
+    } finally {
+      clearTimeout(timer);
+      if (onCancel) cancelSignal?.removeEventListener('abort', onCancel);
+    }
+  }
+
+  // Rejects with LLMCancelledError as soon as `cancelSignal` fires
+  private sleep(ms: number, cancelSignal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (cancelSignal?.aborted) {
+        reject(new LLMCancelledError());
+        return;
+      }
+
+      const onCancel = () => {
+        clearTimeout(timer);
+        reject(new LLMCancelledError());
+      };
+      const timer = setTimeout(() => {
+        cancelSignal?.removeEventListener('abort', onCancel);
+        resolve();
+      }, ms);
+      cancelSignal?.addEventListener('abort', onCancel, { once: true });
+    });
+  }
+
+  private getRetryDelay(error: unknown, retry: number): number | null {
+    if (retry >= this.maxRetries || !this.isTransient(error)) {
+      return null;
+    }
+
+    if (error instanceof LLMRequestError && error.retryAfterMs !== undefined) {
+      return Math.min(error.retryAfterMs, this.maxRetryDelayMs);
+    }
+
+    const backoff = this.retryBaseDelayMs * 2 ** retry;
+    return Math.min(
+      Math.round(backoff + Math.random() * this.retryBaseDelayMs),
+      this.maxRetryDelayMs
+    );
+  }
+
+  private isTransient(error: unknown): boolean {
+    const status = this.getErrorStatus(error);
+    if (status !== undefined) {
+      return status === 429 || status >= 500;
+    }
+    // No response at all (connection refused, reset, DNS, ...)
+    return error instanceof LLMRequestError;
+  }
+
+  // SDK errors (e.g. Gemini's) expose the HTTP status the same way
+  private getErrorStatus(error: unknown): number | undefined {
+    const status = (error as { status?: unknown } | null)?.status;
+    return typeof status === 'number' ? status : undefined;
+  }
+
+  private classifyError(
+    error: unknown
+  ): NonNullable<GenerationResponse['error']>['type'] {
+    if (error instanceof SchemaEnforcementError) return 'parsing';
+    if (error instanceof LLMTimeoutError) return 'timeout';
+    if (error instanceof LLMCancelledError) return 'cancelled';
+    if (this.getErrorStatus(error) === 429) return 'rate_limit';
+    if (this.isTransient(error)) return 'unavailable';
+    return 'generation';
+  }
+
+  // Counters for this provider instance since process start; per-user
+  // totals are persisted by the token budget service.
+  async getUsageStats(): Promise<LLMUsageStats> {
+    const { totalRequests, failedRequests } = this.stats;
+
+    return {
+      totalRequests,
+      totalTokens: this.stats.totalTokens,
+      averageResponseTime:
+        totalRequests > 0 ? this.stats.totalResponseTime / totalRequests : 0,
+      successRate:
+        totalRequests > 0
+          ? (totalRequests - failedRequests) / totalRequests
+          : 0,
+      rateLimitHits: this.stats.rateLimitHits,
+    };
+  }
+
+  /**
+   * Reads a streamed HTTP body line by line (SSE and NDJSON both use lines).
+   */
+  protected async readLines(
+    response: Response,
+    onLine: (line: string) => void
+  ): Promise<void> {
+    if (!response.body) {
+      throw new Error(`${this.name} response has no body to stream`);
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let pending = '';
+
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      pending += decoder.decode(value, { stream: true });
+      const lines = pending.split('\n');
+      pending = lines.pop() ?? '';
+      lines.forEach(line => line.trim() && onLine(line.trim()));
+    }
+
+    pending += decoder.decode();
+    if (pending.trim()) {
+      onLine(pending.trim());
+    }
+  }
+
+  private forwardChunks(
+    onChunk: (chunk: LLMStreamChunk) => void
+  ): (delta: string) => void {
+    const extractor = new StreamingCodeExtractor();
+    return delta => {
+      onChunk({ raw: delta, code: extractor.push(delta) });
+    };
+  }
+
+  protected parseJsonResponse(text: string): any {
+    // Parse JSON response - handle markdown code blocks
+    try {
+      // First try direct parsing
+      return JSON.parse(text);
+    } catch (parseError) {
+      console.log(
+        'Direct JSON parsing failed, attempting to extract from markdown...'
+      );
+    }
+
+    // Remove ```json and ``` markers
+    const cleanedText = text
+      .replace(/```json\s*/g, '')
+      .replace(/```\s*$/g, '')
+      .replace(/```/g, '')
+      .trim();
+
+    try {
+      return JSON.parse(cleanedText);
+    } catch (secondParseError) {
+      // Last attempt: extract JSON object with better regex
+      console.log('Attempting regex extraction...');
+    }
+
+    // Try to find the most complete JSON object
+    const jsonMatches = [
+      cleanedText.match(/\{[\s\S]*?\}(?=\s*$)/),
+      cleanedText.match(/\{[\s\S]*\}$/),
+      cleanedText.match(/\{[\s\S]*\}/),
+    ].filter(Boolean);
+
+    let lastError = null;
+
+    for (const match of jsonMatches) {
+      if (match) {
+        try {
+          return JSON.parse(match[0]);
+        } catch (regexParseError) {
+          lastError = regexParseError;
+          console.log('Regex match failed, trying next pattern...');
+        }
+      }
+    }
+
+    console.error('All JSON parsing attempts failed');
+    console.error('Last error:', lastError);
+
+    throw new Error(
+      `Failed to parse JSON response after all attempts. Raw response: ${text.substring(0, 500)}...`
+    );
+  }
+
+  protected buildRefinementPrompt(
+    request: GenerationRequest,
+    refinement: RefinementContext,
+    version?: string
+  ): RenderedPrompt {
+    const { current, history } = refinement;
+
+    return this.promptTemplates.render(
+      'refinement',
+      {
+        componentTypes: Object.values(ComponentType).join(', '),
+        componentType: current.componentType,
+        componentName: current.componentName,
+        code: current.code,
+        history: history.length
+          ? history
+              .map((instruction, i) => `${i + 1}. ${instruction}`)
+              .join('\n')
+          : '(none)',
+        prompt: request.prompt,
+      },
+      version
+    );
+  }
+
+  protected buildCodeRepairPrompt(
+    request: GenerationRequest,
+    repair: CodeRepairContext,
+    version?: string
+  ): RenderedPrompt {
+    const { current, diagnostics, round } = repair;
+    const lines = current.code.split('\n');
+    const width = String(lines.length).length;
+
+    return this.promptTemplates.render(
+      'code-repair',
+      {
+        componentTypes: Object.values(ComponentType).join(', '),
+        componentType: current.componentType,
+        componentName: current.componentName,
+        // Numbered so diagnostics can point at lines
+        code: lines
+          .map((line, i) => `${String(i + 1).padStart(width)} | ${line}`)
+          .join('\n'),
+        diagnostics: diagnostics
+          .map(
+            diagnostic =>
+              `- ${diagnostic.line ?? '?'}:${diagnostic.column ?? '?'} [${diagnostic.source}] ${diagnostic.message}`
+          )
+          .join('\n'),
+        round: String(round),
+        prompt: request.prompt,
+      },
+      version
+    );
+  }
+
+  protected buildGenerationPrompt(
+    request: GenerationRequest,
+    version?: string,
+    examples: FewShotExample[] = []
+  ): RenderedPrompt {
+    const { prompt, preferredType, context, options } = request;
+
+    return this.promptTemplates.render(
+      'generation',
+      {
+        // Without library examples the template's built-in ones are used
+        ...(examples.length > 0
+          ? { examples: this.formatFewShotExamples(examples) }
+          : {}),
+        componentTypes: Object.values(ComponentType).join(', '),
+        context: context
+          ? `
+Theme: ${context.theme}
+Accessibility required: ${context.accessibility}
+Responsive: ${context.responsive}
+TypeScript: ${context.typescript}`
+          : '',
+        options: options
+          ? `
+Include examples: ${options.includeExamples}
+Include comments: ${options.includeComments}
+Max complexity: ${options.maxComplexity}
+Allow custom: ${options.allowCustomComponents}`
+          : '',
+        preferredType: preferredType
+          ? `
+Preferred component type: ${preferredType}`
+          : '',
+        prompt,
+      },
+      version
+    );
+  }
+
+  protected formatFewShotExamples(examples: FewShotExample[]): string {
+    return examples
+      .map(
+        (example, index) => `
+Example ${index + 1}:
+Input: ${JSON.stringify(example.input)}
+Output: ${JSON.stringify(example.output, null, 2)}`
+      )
+      .join('\n');
+  }
+
+  protected buildAnalysisPrompt(
+    prompt: string,
+    version?: string
+  ): RenderedPrompt {
+    return this.promptTemplates.render(
+      'analysis',
+      {
+        componentTypes: Object.values(ComponentType).join(', '),
+        prompt,
+      },
+      version
+    );
+  }
+
+  private calculateConfidence(
+    component: any,
+    request: GenerationRequest
+  ): number {
+    let confidence = 0.8; // Base confidence
+
+    // Check if preferred type matches
+    if (
+      request.preferredType &&
+      component.componentType === request.preferredType
+    ) {
+      confidence += 0.1;
+    }
+
+    // Check prompt keywords match
+    const promptWords = request.prompt.toLowerCase().split(/\s+/);
+    const componentTypeWords = component.componentType
+      .toLowerCase()
+      .split(/(?=[A-Z])/);
+
+    const matches = promptWords.filter(word =>
+      componentTypeWords.some((typeWord: string | string[]) =>
+        typeWord.includes(word)
+      )
+    );
+
+    confidence += (matches.length / promptWords.length) * 0.1;
+
+    return Math.min(confidence, 1.0);
+  }
+
+  private calculateIntentMatch(prompt: string, component: any): number {
+    const promptLower = prompt.toLowerCase();
+    const componentTypeLower = component.componentType.toLowerCase();
+
+    // Simple keyword matching
+    const typeKeywords = {
+      muitable: ['table', 'grid', 'list', 'data', 'rows', 'columns'],
+      muibutton: ['button', 'click', 'action', 'submit'],
+      muiform: ['form', 'input', 'field', 'submit', 'validation'],
+      muidialog: ['dialog', 'modal', 'popup', 'alert', 'confirm'],
+      muicard: ['card', 'content', 'display', 'info'],
+    };
+
+    const keywords =
+      typeKeywords[componentTypeLower as keyof typeof typeKeywords] || [];
+    const matches = keywords.filter(keyword => promptLower.includes(keyword));
+
+    return matches.length / Math.max(keywords.length, 1);
+  }
+
+  protected estimateTokenCount(text: string): number {
+    // Rough estimation: ~4 characters per token
+    return Math.ceil(text.length / 4);
+  }
+}
@@ -0,0 +1,141 @@
+import { createHash } from 'crypto';
+import {
+  ComponentCandidate,
+  GenerationRequest,
+  GenerationResponse,
+} from '@/types';
+import {
+  ILLMProvider,
+  LLMCallOptions,
+} from '../../domain/services/ComponentGenerationService';
+import { ILLMResponseCache, LLMCacheKind } from '../cache/LLMResponseCache';
+import { stableStringify } from './stableStringify';
+
+/**
+ * Serves repeated requests from a response cache instead of calling the
+ * backend again. Entries are keyed by the normalized prompt, preferred type,
+ * context and options, plus everything else that changes the rendered
+ * answer: backend, model, template version, few-shot examples, sampling
+ * temperature, for refinements the current code and earlier instructions,
+ * and for code repairs the failing code and its diagnostics. Only
+ * successful responses are cached; `LLMCallOptions.bypassCache` skips the
+ * lookup and refreshes the entry.
+ */
+export class CachingLLMProvider implements ILLMProvider {
+  constructor(
+    private inner: ILLMProvider,
+    private cache: ILLMResponseCache,
+    private ttlMs: number,
+    private backend: { provider: string; model: string }
+  ) {}
+
+  async generateComponent(
+    request: GenerationRequest,
+    options: LLMCallOptions = {}
+  ): Promise<GenerationResponse> {
+    const key = this.buildKey('generateComponent', {
+      prompt: this.normalizePrompt(request.prompt),
+      preferredType: request.preferredType ?? null,
+      context: request.context ?? null,
+      options: request.options ?? null,
+      promptVersion: options.refinement
+        ? options.promptVersions?.refinement
+        : options.codeRepair
+          ? options.promptVersions?.['code-repair']
+          : options.promptVersions?.generation,
+      // By content, so an edited example doesn't serve stale answers
+      fewShotExamples: options.fewShotExamples?.map(({ input, output }) =>
+        createHash('sha256')
+          .update(stableStringify({ input, output }))
+          .digest('hex')
+      ),
+      refinement: options.refinement && {
+        code: options.refinement.current.code,
+        history: options.refinement.history,
+      },
+      codeRepair: options.codeRepair && {
+        code: options.codeRepair.current.code,
+        diagnostics: options.codeRepair.diagnostics,
+      },
+      temperature: options.temperature,
+    });
+
+    if (!options.bypassCache) {
+      const cached = await this.read<GenerationResponse>(key);
+      if (cached) {
+        console.log(`CachingLLMProvider: Cache hit for generateComponent`);
+        if (options.onChunk && cached.component) {
+          options.onChunk({ raw: '', code: cached.component.code });
+        }
+        return { ...cached, metadata: { ...cached.metadata, cached: true } };
+      }
+    }
+
+    const response = await this.inner.generateComponent(request, options);
+    if (response.success) {
+      await this.write(key, 'generateComponent', response);
+    }
+
+    return response;
+  }
+
+  async analyzePrompt(
+    prompt: string,
+    options: LLMCallOptions = {}
+  ): Promise<ComponentCandidate[]> {
+    const key = this.buildKey('analyzePrompt', {
+      prompt: this.normalizePrompt(prompt),
+      promptVersion: options.promptVersions?.analysis,
+    });
+
+    if (!options.bypassCache) {
+      const cached = await this.read<ComponentCandidate[]>(key);
+      if (cached) {
+        console.log(`CachingLLMProvider: Cache hit for analyzePrompt`);
+        return cached;
+      }
+    }
+
+    const candidates = await this.inner.analyzePrompt(prompt, options);
+    if (candidates.length > 0) {
+      await this.write(key, 'analyzePrompt', candidates);
+    }
+
+    return candidates;
+  }
+
+  async validateApiKey(): Promise<boolean> {
+    return this.inner.validateApiKey();
+  }
+
+  // A broken cache must never fail a generation, so errors count as misses
+  private async read<T>(key: string): Promise<T | null> {
+    try {
+      return await this.cache.get<T>(key);
+    } catch (error) {
+      console.error('CachingLLMProvider: Cache read failed:', error);
+      return null;
+    }
+  }
+
+  private async write<T>(key: string, kind: LLMCacheKind, value: T) {
+    try {
+      await this.cache.set(key, kind, value, this.ttlMs);
+    } catch (error) {
+      console.error('CachingLLMProvider: Cache write failed:', error);
+    }
+  }
+
+  private buildKey(kind: LLMCacheKind, normalized: object): string {
+    const hash = createHash('sha256')
+      .update(stableStringify({ ...normalized, ...this.backend }))
+      .digest('hex');
+
+    return `${kind}:${hash}`;
+  }
+
+  // Case is kept: it ends up in labels and copy of the generated component
+  private normalizePrompt(prompt: string): string {
+    return prompt.trim().replace(/\s+/g, ' ');
+  }
+}
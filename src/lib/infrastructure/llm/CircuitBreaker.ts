@@ -0,0 +1,44 @@
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+/**
+ * Stops sending traffic to a backend after `failureThreshold` consecutive
+ * outage failures. Once `resetTimeoutMs` has passed the circuit is
+ * half-open: the next call is let through, and its outcome closes the
+ * circuit again or re-opens it.
+ */
+export class CircuitBreaker {
+  private consecutiveFailures = 0;
+  private openedAt: number | null = null;
+
+  constructor(
+    private failureThreshold: number = 3,
+    private resetTimeoutMs: number = 30000
+  ) {}
+
+  public getState(): CircuitState {
+    if (this.openedAt === null) return 'closed';
+    return Date.now() - this.openedAt >= this.resetTimeoutMs
+      ? 'half-open'
+      : 'open';
+  }
+
+  public allowRequest(): boolean {
+    return this.getState() !== 'open';
+  }
+
+  public recordSuccess(): void {
+    this.consecutiveFailures = 0;
+    this.openedAt = null;
+  }
+
+  public recordFailure(): void {
+    this.consecutiveFailures++;
+
+    if (
+      this.getState() === 'half-open' ||
+      this.consecutiveFailures >= this.failureThreshold
+    ) {
+      this.openedAt = Date.now();
+    }
+  }
+}
@@ -0,0 +1,426 @@
+import { PrismaClient } from '@prisma/client';
+import {
+  ComponentCandidate,
+  GenerationRequest,
+  GenerationResponse,
+  LLMSelection,
+} from '@/types';
+import {
+  ILLMProvider,
+  LLMCallOptions,
+} from '../../domain/services/ComponentGenerationService';
+import { GeminiProvider } from './GeminiProvider';
+import { OpenAICompatibleProvider } from './OpenAICompatibleProvider';
+import { OllamaProvider } from './OllamaProvider';
+import { RecordReplayMode, RecordReplayProvider } from './RecordReplayProvider';
+import { CachingLLMProvider } from './CachingLLMProvider';
+import {
+  ILLMResponseCache,
+  InMemoryLLMResponseCache,
+} from '../cache/LLMResponseCache';
+import { PrismaLLMResponseCache } from '../cache/PrismaLLMResponseCache';
+import { CircuitBreaker } from './CircuitBreaker';
+
+export type LLMProviderFactory = (model: string) => ILLMProvider;
+
+/** Wraps every resolved provider, e.g. to add recording or caching. */
+export type LLMProviderDecorator = (
+  provider: ILLMProvider,
+  name: string,
+  model: string
+) => ILLMProvider;
+
+interface RegisteredProvider {
+  factory: LLMProviderFactory;
+  defaultModel: string;
+  allowedModels?: string[];
+}
+
+// Failures that say the backend is unhealthy, not that the request was bad
+const OUTAGE_ERRORS = ['timeout', 'rate_limit', 'unavailable'];
+
+/**
+ * Resolves the backend for each request from configuration, so callers only
+ * ever depend on `ILLMProvider`. A request may pick a provider and model via
+ * `GenerationRequest.llm`; otherwise the configured default is used.
+ *
+ * Each provider has a circuit breaker. When a generation fails with an
+ * outage (timeout, rate limit, 5xx) or the circuit is open, the request is
+ * retried once on the fallback provider, if one is configured. Requests that
+ * name their provider never fail over: the caller may have picked it to keep
+ * the prompt on a local backend.
+ */
+export class LLMProviderRegistry implements ILLMProvider {
+  private providers: Map<string, RegisteredProvider> = new Map();
+  private instances: Map<string, ILLMProvider> = new Map();
+  private decorators: LLMProviderDecorator[] = [];
+  private breakers: Map<string, CircuitBreaker> = new Map();
+  private fallbackProvider?: string;
+  private responseCache?: ILLMResponseCache;
+  private breakerOptions = { failureThreshold: 3, resetTimeoutMs: 30000 };
+
+  constructor(private defaultProvider: string) {}
+
+  public register(
+    name: string,
+    factory: LLMProviderFactory,
+    options: { defaultModel: string; allowedModels?: string[] }
+  ): this {
+    this.providers.set(name, { factory, ...options });
+    return this;
+  }
+
+  public addDecorator(decorator: LLMProviderDecorator): this {
+    this.decorators.push(decorator);
+    this.instances.clear();
+    return this;
+  }
+
+  public setFallbackProvider(name: string | undefined): this {
+    this.fallbackProvider = name;
+    return this;
+  }
+
+  public configureCircuitBreakers(options: {
+    failureThreshold?: number;
+    resetTimeoutMs?: number;
+  }): this {
+    this.breakerOptions = { ...this.breakerOptions, ...options };
+    this.breakers.clear();
+    return this;
+  }
+
+  public getCircuitState(name: string) {
+    return this.getBreaker(name).getState();
+  }
+
+  public getProviderNames(): string[] {
+    return Array.from(this.providers.keys());
+  }
+
+  public getDefaultProvider(): string {
+    return this.defaultProvider;
+  }
+
+  // Shared by every provider; set when responses are cached
+  public getResponseCache(): ILLMResponseCache | undefined {
+    return this.responseCache;
+  }
+
+  public setResponseCache(cache: ILLMResponseCache): this {
+    this.responseCache = cache;
+    return this;
+  }
+
+  public resolve(selection?: LLMSelection): ILLMProvider {
+    const name = selection?.provider || this.defaultProvider;
+    const registered = this.providers.get(name);
+
+    if (!registered) {
+      throw new Error(`LLM provider "${name}" is not configured`);
+    }
+
+    const model = selection?.model || registered.defaultModel;
+    if (
+      registered.allowedModels &&
+      registered.allowedModels.length > 0 &&
+      !registered.allowedModels.includes(model)
+    ) {
+      throw new Error(
+        `Model "${model}" is not allowed for LLM provider "${name}"`
+      );
+    }
+
+    const key = `${name}:${model}`;
+    let instance = this.instances.get(key);
+    if (!instance) {
+      instance = this.decorators.reduce(
+        (provider, decorate) => decorate(provider, name, model),
+        registered.factory(model)
+      );
+      this.instances.set(key, instance);
+    }
+
+    return instance;
+  }
+
+  async generateComponent(
+    request: GenerationRequest,
+    options: LLMCallOptions = {}
+  ): Promise<GenerationResponse> {
+    const primaryName = request.llm?.provider || this.defaultProvider;
+    const primary = this.resolve(request.llm);
+    const primaryBreaker = this.getBreaker(primaryName);
+    let response: GenerationResponse | null = null;
+
+    if (primaryBreaker.allowRequest()) {
+      response = await primary.generateComponent(request, options);
+      // Cancelled calls say nothing about the backend's health
+      if (response.error?.type === 'cancelled') {
+        return response;
+      }
+      if (!this.isOutage(response)) {
+        primaryBreaker.recordSuccess();
+        return response;
+      }
+      primaryBreaker.recordFailure();
+    }
+
+    const fallbackName = request.llm?.provider
+      ? undefined
+      : this.getAvailableFallback(primaryName);
+    if (!fallbackName) {
+      return response ?? this.circuitOpenResponse(primaryName);
+    }
+
+    const reason = response?.error?.type ?? 'circuit_open';
+    console.log(
+      `LLMProviderRegistry: Failing over from ${primaryName} to ${fallbackName} (${reason})`
+    );
+
+    // Anything the primary already streamed is superseded
+    options.onChunk?.({ raw: '', code: '', reset: true });
+
+    const fallbackBreaker = this.getBreaker(fallbackName);
+    const fallbackResponse = await this.resolve({
+      provider: fallbackName,
+    }).generateComponent(request, options);
+
+    if (this.isOutage(fallbackResponse)) {
+      fallbackBreaker.recordFailure();
+    } else {
+      fallbackBreaker.recordSuccess();
+    }
+
+    return {
+      ...fallbackResponse,
+      metadata: {
+        ...fallbackResponse.metadata,
+        failover: { from: primaryName, to: fallbackName, reason },
+      },
+    };
+  }
+
+  async analyzePrompt(
+    prompt: string,
+    options?: LLMCallOptions
+  ): Promise<ComponentCandidate[]> {
+    const primaryName = options?.llm?.provider || this.defaultProvider;
+    // Analysis failures are swallowed by providers, so only an already open
+    // circuit can route it elsewhere
+    const fallbackName =
+      options?.llm?.provider || this.getBreaker(primaryName).allowRequest()
+        ? undefined
+        : this.getAvailableFallback(primaryName);
+
+    return this.resolve(
+      fallbackName ? { provider: fallbackName } : options?.llm
+    ).analyzePrompt(prompt, options);
+  }
+
+  async validateApiKey(): Promise<boolean> {
+    return this.resolve().validateApiKey();
+  }
+
+  private getBreaker(name: string): CircuitBreaker {
+    let breaker = this.breakers.get(name);
+    if (!breaker) {
+      breaker = new CircuitBreaker(
+        this.breakerOptions.failureThreshold,
+        this.breakerOptions.resetTimeoutMs
+      );
+      this.breakers.set(name, breaker);
+    }
+    return breaker;
+  }
+
+  private getAvailableFallback(primaryName: string): string | undefined {
+    const name = this.fallbackProvider;
+    if (
+      !name ||
+      name === primaryName ||
+      !this.providers.has(name) ||
+      !this.getBreaker(name).allowRequest()
+    ) {
+      return undefined;
+    }
+    return name;
+  }
+
+  private isOutage(response: GenerationResponse): boolean {
+    return (
+      !response.success && OUTAGE_ERRORS.includes(response.error?.type ?? '')
+    );
+  }
+
+  private circuitOpenResponse(name: string): GenerationResponse {
+    return {
+      success: false,
+      metadata: {
+        processingTime: 0,
+        confidence: 0,
+        intentMatch: 0,
+        complexity: 'simple',
+      },
+      error: {
+        type: 'unavailable',
+        message: `LLM provider "${name}" is temporarily unavailable after repeated failures`,
+        recovery: {
+          suggestions: ['Try again in a minute', 'Pick a different provider'],
+        },
+      },
+    };
+  }
+
+  /**
+   * `prisma` is only needed for the Postgres response cache backend.
+   */
+  public static fromEnvironment(
+    env: NodeJS.ProcessEnv = process.env,
+    dependencies: { prisma?: PrismaClient } = {}
+  ): LLMProviderRegistry {
+    const recordMode = env.LLM_RECORD_MODE as RecordReplayMode | undefined;
+    if (recordMode && !['record', 'replay', 'auto'].includes(recordMode)) {
+      throw new Error(`Invalid LLM_RECORD_MODE "${recordMode}"`);
+    }
+
+    const registry = new LLMProviderRegistry(
+      env.LLM_PROVIDER || (recordMode === 'replay' ? 'replay' : 'gemini')
+    );
+
+    const providerOptions = {
+      maxSchemaAttempts: parseNumber(env.LLM_SCHEMA_MAX_ATTEMPTS),
+      timeoutMs: parseNumber(env.LLM_TIMEOUT_MS),
+      maxRetries: parseNumber(env.LLM_MAX_RETRIES),
+      retryBaseDelayMs: parseNumber(env.LLM_RETRY_BASE_DELAY_MS),
+      maxRetryDelayMs: parseNumber(env.LLM_MAX_RETRY_DELAY_MS),
+    };
+
+    registry.setFallbackProvider(env.LLM_FALLBACK_PROVIDER || undefined);
+    registry.configureCircuitBreakers({
+      failureThreshold: parseNumber(env.LLM_CIRCUIT_FAILURE_THRESHOLD),
+      resetTimeoutMs: parseNumber(env.LLM_CIRCUIT_RESET_MS),
+    });
+
+    if (env.GEMINI_API_KEY) {
+      const apiKey = env.GEMINI_API_KEY;
+      registry.register(
+        'gemini',
+        model => new GeminiProvider(apiKey, model, providerOptions),
+        {
+          defaultModel: env.GEMINI_MODEL || 'gemini-2.5-flash',
+          allowedModels: parseList(env.GEMINI_ALLOWED_MODELS),
+        }
+      );
+    }
+
+    if (env.OPENAI_BASE_URL) {
+      const baseUrl = env.OPENAI_BASE_URL;
+      const apiKey = env.OPENAI_API_KEY;
+      registry.register(
+        'openai',
+        model =>
+          new OpenAICompatibleProvider(baseUrl, model, apiKey, providerOptions),
+        {
+          defaultModel: env.OPENAI_MODEL || 'gpt-4o-mini',
+          allowedModels: parseList(env.OPENAI_ALLOWED_MODELS),
+        }
+      );
+    }
+
+    if (env.OLLAMA_BASE_URL) {
+      const baseUrl = env.OLLAMA_BASE_URL;
+      registry.register(
+        'ollama',
+        model => new OllamaProvider(baseUrl, model, providerOptions),
+        {
+          defaultModel: env.OLLAMA_MODEL || 'llama3.1',
+          allowedModels: parseList(env.OLLAMA_ALLOWED_MODELS),
+        }
+      );
+    }
+
+    if (recordMode) {
+      const fixtureOptions = {
+        mode: recordMode,
+        fixturesDir: env.LLM_FIXTURES_DIR || 'fixtures/llm',
+      };
+
+      if (recordMode === 'replay') {
+        // Offline backend for CI and demos: needs no credentials at all
+        registry.register(
+          'replay',
+          () => new RecordReplayProvider(null, fixtureOptions),
+          { defaultModel: 'fixtures' }
+        );
+      }
+
+      registry.addDecorator(provider =>
+        provider instanceof RecordReplayProvider
+          ? provider
+          : new RecordReplayProvider(provider, fixtureOptions)
+      );
+    }
+
+    const cache = createResponseCache(env, dependencies.prisma);
+    if (cache) {
+      registry.setResponseCache(cache);
+      const ttlMs = (parseNumber(env.LLM_CACHE_TTL_SECONDS) ?? 3600) * 1000;
+      // Outermost, so cache hits skip recording and replay entirely
+      registry.addDecorator(
+        (provider, name, model) =>
+          new CachingLLMProvider(provider, cache, ttlMs, {
+            provider: name,
+            model,
+          })
+      );
+    }
+
+    if (registry.getProviderNames().length === 0) {
+      console.error(
+        'No LLM provider configured (set GEMINI_API_KEY, OPENAI_BASE_URL or OLLAMA_BASE_URL)'
+      );
+    }
+
+    return registry;
+  }
+}
+
+function createResponseCache(
+  env: NodeJS.ProcessEnv,
+  prisma?: PrismaClient
+): ILLMResponseCache | null {
+  switch (env.LLM_CACHE_BACKEND) {
+    case undefined:
+    case '':
+    case 'none':
+      return null;
+    case 'memory':
+      return new InMemoryLLMResponseCache(
+        parseNumber(env.LLM_CACHE_MAX_ENTRIES)
+      );
+    case 'postgres':
+      if (!prisma) {
+        throw new Error(
+          'LLM_CACHE_BACKEND "postgres" requires a Prisma client'
+        );
+      }
+      return new PrismaLLMResponseCache(prisma);
+    default:
+      throw new Error(`Invalid LLM_CACHE_BACKEND "${env.LLM_CACHE_BACKEND}"`);
+  }
+}
+
+function parseNumber(value?: string): number | undefined {
+  if (!value) return undefined;
+  const parsed = parseInt(value, 10);
+  return Number.isFinite(parsed) ? parsed : undefined;
+}
+
+function parseList(value?: string): string[] | undefined {
+  if (!value) return undefined;
+  return value
+    .split(',')
+    .map(item => item.trim())
+    .filter(Boolean);
+}
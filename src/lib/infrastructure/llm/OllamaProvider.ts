@@ -0,0 +1,123 @@
+import {
+  BaseLLMProvider,
+  BaseLLMProviderOptions,
+  CompletionSettings,
+  LLMCompletion,
+  LLMRequestError,
+  parseRetryAfter,
+} from './BaseLLMProvider';
+
+/**
+ * Local Ollama server. Prompts never leave the machine running Ollama.
+ */
+export class OllamaProvider extends BaseLLMProvider {
+  public readonly name = 'ollama';
+
+  constructor(
+    private baseUrl: string = 'http://localhost:11434',
+    modelName: string = 'llama3.1',
+    options: BaseLLMProviderOptions = {}
+  ) {
+    super(modelName, options);
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+  }
+
+  protected async complete(
+    prompt: string,
+    signal?: AbortSignal,
+    settings: CompletionSettings = {}
+  ): Promise<LLMCompletion> {
+    const response = await this.request(prompt, false, signal, settings);
+    const data = await response.json();
+    const text = data.message?.content;
+
+    if (typeof text !== 'string') {
+      throw new Error('Ollama response did not contain any content');
+    }
+
+    return { text, usage: this.toUsage(data) };
+  }
+
+  protected async completeStream(
+    prompt: string,
+    onText: (delta: string) => void,
+    signal?: AbortSignal,
+    settings: CompletionSettings = {}
+  ): Promise<LLMCompletion> {
+    const response = await this.request(prompt, true, signal, settings);
+    let text = '';
+    let usage: LLMCompletion['usage'];
+
+    // Ollama streams newline-delimited JSON objects
+    await this.readLines(response, line => {
+      const data = JSON.parse(line);
+      // The final object (done: true) carries the token counts
+      if (data.done) {
+        usage = this.toUsage(data);
+      }
+
+      const delta = data.message?.content;
+      if (typeof delta === 'string' && delta.length > 0) {
+        text += delta;
+        onText(delta);
+      }
+    });
+
+    return { text, usage };
+  }
+
+  private toUsage(data: {
+    prompt_eval_count?: number;
+    eval_count?: number;
+  }): LLMCompletion['usage'] {
+    if (data.prompt_eval_count === undefined && data.eval_count === undefined) {
+      return undefined;
+    }
+
+    return {
+      promptTokens: data.prompt_eval_count ?? 0,
+      completionTokens: data.eval_count ?? 0,
+    };
+  }
+
+  private async request(
+    prompt: string,
+    stream: boolean,
+    signal?: AbortSignal,
+    settings: CompletionSettings = {}
+  ): Promise<Response> {
+    let response: Response;
+    try {
+      response = await fetch(`${this.baseUrl}/api/chat`, {
+        method: 'POST',
+        signal,
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          model: this.model,
+          messages: [{ role: 'user', content: prompt }],
+          format: 'json',
+          stream,
+          ...(settings.temperature !== undefined
+            ? { options: { temperature: settings.temperature } }
+            : {}),
+        }),
+      });
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      throw new LLMRequestError(
+        `Ollama request failed: ${error instanceof Error ? error.message : error}`
+      );
+    }
+
+    if (!response.ok) {
+      const body = await response.text();
+      throw new LLMRequestError(
+        `Ollama request failed with ${response.status}: ${body.substring(0, 500)}`,
+        response.status,
+        parseRetryAfter(response.headers.get('retry-after'))
+      );
+    }
+
+    return response;
+  }
+}
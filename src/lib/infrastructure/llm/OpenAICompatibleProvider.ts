@@ -0,0 +1,138 @@
+import {
+  BaseLLMProvider,
+  BaseLLMProviderOptions,
+  CompletionSettings,
+  LLMCompletion,
+  LLMRequestError,
+  parseRetryAfter,
+} from './BaseLLMProvider';
+
+/**
+ * Talks to any server exposing the OpenAI `/chat/completions` API
+ * (OpenAI, Azure OpenAI, vLLM, LM Studio, LiteLLM, ...).
+ */
+export class OpenAICompatibleProvider extends BaseLLMProvider {
+  public readonly name = 'openai';
+
+  constructor(
+    private baseUrl: string,
+    modelName: string,
+    private apiKey?: string,
+    options: BaseLLMProviderOptions = {}
+  ) {
+    super(modelName, options);
+    if (!baseUrl) {
+      throw new Error('OpenAI-compatible base URL is required');
+    }
+    if (!modelName) {
+      throw new Error('OpenAI-compatible model name is required');
+    }
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+  }
+
+  protected async complete(
+    prompt: string,
+    signal?: AbortSignal,
+    settings: CompletionSettings = {}
+  ): Promise<LLMCompletion> {
+    const response = await this.request(prompt, false, signal, settings);
+    const data = await response.json();
+    const text = data.choices?.[0]?.message?.content;
+
+    if (typeof text !== 'string') {
+      throw new Error('OpenAI-compatible response did not contain any content');
+    }
+
+    return { text, usage: this.toUsage(data.usage) };
+  }
+
+  protected async completeStream(
+    prompt: string,
+    onText: (delta: string) => void,
+    signal?: AbortSignal,
+    settings: CompletionSettings = {}
+  ): Promise<LLMCompletion> {
+    const response = await this.request(prompt, true, signal, settings);
+    let text = '';
+    let usage: LLMCompletion['usage'];
+
+    await this.readLines(response, line => {
+      if (!line.startsWith('data:')) return;
+
+      const payload = line.slice('data:'.length).trim();
+      if (payload === '[DONE]') return;
+
+      const data = JSON.parse(payload);
+      // Sent in a final chunk with no choices when include_usage is honoured
+      if (data.usage) {
+        usage = this.toUsage(data.usage);
+      }
+
+      const delta = data.choices?.[0]?.delta?.content;
+      if (typeof delta === 'string' && delta.length > 0) {
+        text += delta;
+        onText(delta);
+      }
+    });
+
+    return { text, usage };
+  }
+
+  private toUsage(usage?: {
+    prompt_tokens?: number;
+    completion_tokens?: number;
+  }): LLMCompletion['usage'] {
+    if (!usage) return undefined;
+
+    return {
+      promptTokens: usage.prompt_tokens ?? 0,
+      completionTokens: usage.completion_tokens ?? 0,
+    };
+  }
+
+  private async request(
+    prompt: string,
+    stream: boolean,
+    signal?: AbortSignal,
+    settings: CompletionSettings = {}
+  ): Promise<Response> {
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+    };
+    if (this.apiKey) {
+      headers.Authorization = `Bearer ${this.apiKey}`;
+    }
+
+    let response: Response;
+    try {
+      response = await fetch(`${this.baseUrl}/chat/completions`, {
+        method: 'POST',
+        signal,
+        headers,
+        body: JSON.stringify({
+          model: this.model,
+          messages: [{ role: 'user', content: prompt }],
+          stream,
+          temperature: settings.temperature,
+          ...(stream ? { stream_options: { include_usage: true } } : {}),
+        }),
+      });
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      throw new LLMRequestError(
+        `OpenAI-compatible request failed: ${error instanceof Error ? error.message : error}`
+      );
+    }
+
+    if (!response.ok) {
+      const body = await response.text();
+      throw new LLMRequestError(
+        `OpenAI-compatible request failed with ${response.status}: ${body.substring(0, 500)}`,
+        response.status,
+        parseRetryAfter(response.headers.get('retry-after'))
+      );
+    }
+
+    return response;
+  }
+}
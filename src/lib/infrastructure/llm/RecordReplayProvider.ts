@@ -0,0 +1,204 @@
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import {
+  ComponentCandidate,
+  GenerationRequest,
+  GenerationResponse,
+} from '@/types';
+import {
+  ILLMProvider,
+  LLMCallOptions,
+} from '../../domain/services/ComponentGenerationService';
+import { stableStringify } from './stableStringify';
+
+export type RecordReplayMode = 'record' | 'replay' | 'auto';
+
+export interface RecordReplayOptions {
+  mode: RecordReplayMode;
+  fixturesDir: string;
+}
+
+type FixtureKind = 'generateComponent' | 'analyzePrompt';
+
+interface Fixture<T> {
+  kind: FixtureKind;
+  key: string;
+  request: unknown;
+  response: T;
+  recordedAt: string;
+}
+
+/**
+ * Records real provider exchanges to JSON fixtures and replays them by a hash
+ * of the normalized request.
+ *
+ * - `record`: always call the wrapped provider and (over)write the fixture
+ * - `replay`: never touch the network; a missing fixture is an error
+ * - `auto`:   replay when a fixture exists, otherwise record it
+ */
+export class RecordReplayProvider implements ILLMProvider {
+  constructor(
+    private inner: ILLMProvider | null,
+    private options: RecordReplayOptions
+  ) {
+    if (options.mode !== 'replay' && !inner) {
+      throw new Error(`Record mode "${options.mode}" requires a provider`);
+    }
+  }
+
+  async generateComponent(
+    request: GenerationRequest,
+    options: LLMCallOptions = {}
+  ): Promise<GenerationResponse> {
+    const normalized = {
+      ...this.normalizeRequest(request),
+      promptVersion: options.refinement
+        ? options.promptVersions?.refinement
+        : options.codeRepair
+          ? options.promptVersions?.['code-repair']
+          : options.promptVersions?.generation,
+      // By content: component ids differ between databases seeded alike
+      fewShotExamples: options.fewShotExamples?.length
+        ? options.fewShotExamples.map(({ input, output }) =>
+            this.hash({ input, output })
+          )
+        : undefined,
+      refinement: options.refinement && {
+        code: options.refinement.current.code,
+        history: options.refinement.history,
+      },
+      codeRepair: options.codeRepair && {
+        code: options.codeRepair.current.code,
+        diagnostics: options.codeRepair.diagnostics,
+      },
+      temperature: options.temperature,
+    };
+    let streamed = false;
+
+    const response = await this.withFixture(
+      'generateComponent',
+      normalized,
+      async () => {
+        streamed = true;
+        const response = await this.inner!.generateComponent(request, options);
+        // Failed generations are not worth replaying
+        return { response, persist: response.success };
+      }
+    );
+
+    // Replayed responses arrive in one piece
+    if (!streamed && options.onChunk && response.component) {
+      options.onChunk({ raw: '', code: response.component.code });
+    }
+
+    return response;
+  }
+
+  async analyzePrompt(
+    prompt: string,
+    options: LLMCallOptions = {}
+  ): Promise<ComponentCandidate[]> {
+    const normalized = {
+      prompt: this.normalizePrompt(prompt),
+      promptVersion: options.promptVersions?.analysis,
+    };
+
+    return this.withFixture('analyzePrompt', normalized, async () => {
+      const response = await this.inner!.analyzePrompt(prompt, options);
+      return { response, persist: response.length > 0 };
+    });
+  }
+
+  async validateApiKey(): Promise<boolean> {
+    if (this.options.mode === 'replay') {
+      return true;
+    }
+    return this.inner!.validateApiKey();
+  }
+
+  private async withFixture<T>(
+    kind: FixtureKind,
+    normalized: unknown,
+    call: () => Promise<{ response: T; persist: boolean }>
+  ): Promise<T> {
+    const key = this.hash(normalized);
+    const filePath = this.fixturePath(kind, key);
+
+    if (this.options.mode !== 'record') {
+      const fixture = await this.readFixture<T>(filePath);
+      if (fixture) {
+        console.log(`RecordReplayProvider: Replaying ${kind} fixture ${key}`);
+        return fixture.response;
+      }
+
+      if (this.options.mode === 'replay') {
+        throw new Error(
+          `No recorded ${kind} fixture for request ${key} in ${this.options.fixturesDir}`
+        );
+      }
+    }
+
+    const { response, persist } = await call();
+
+    if (persist) {
+      await this.writeFixture(filePath, {
+        kind,
+        key,
+        request: normalized,
+        response,
+        recordedAt: new Date().toISOString(),
+      });
+      console.log(`RecordReplayProvider: Recorded ${kind} fixture ${key}`);
+    }
+
+    return response;
+  }
+
+  private normalizeRequest(request: GenerationRequest): object {
+    // The LLM selection is deliberately left out so fixtures recorded against
+    // one backend can be replayed without any credentials.
+    return {
+      prompt: this.normalizePrompt(request.prompt),
+      preferredType: request.preferredType ?? null,
+      context: request.context ?? null,
+      options: request.options ?? null,
+    };
+  }
+
+  // Prompts that differ only in case get fixtures of their own
+  private normalizePrompt(prompt: string): string {
+    return prompt.trim().replace(/\s+/g, ' ');
+  }
+
+  private hash(value: unknown): string {
+    return createHash('sha256')
+      .update(stableStringify(value))
+      .digest('hex')
+      .substring(0, 16);
+  }
+
+  private fixturePath(kind: FixtureKind, key: string): string {
+    return path.join(this.options.fixturesDir, `${kind}-${key}.json`);
+  }
+
+  private async readFixture<T>(filePath: string): Promise<Fixture<T> | null> {
+    try {
+      const content = await fs.readFile(filePath, 'utf8');
+      return JSON.parse(content) as Fixture<T>;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  private async writeFixture<T>(
+    filePath: string,
+    fixture: Fixture<T>
+  ): Promise<void> {
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, JSON.stringify(fixture, null, 2) + '\n');
+  }
+}
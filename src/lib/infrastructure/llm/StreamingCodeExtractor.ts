@@ -0,0 +1,70 @@
+/**
+ * Incrementally decodes the `"code"` string field out of a JSON document that
+ * is still being streamed, so partial component code can be shown before the
+ * model has finished (and before the JSON is parseable).
+ */
+export class StreamingCodeExtractor {
+  private buffer = '';
+  private position = -1;
+  private done = false;
+
+  /**
+   * Appends a raw text delta and returns the newly decoded code characters.
+   */
+  public push(delta: string): string {
+    this.buffer += delta;
+
+    if (this.done) return '';
+
+    if (this.position < 0) {
+      const match = /"code"\s*:\s*"/.exec(this.buffer);
+      if (!match) return '';
+      this.position = match.index + match[0].length;
+    }
+
+    let decoded = '';
+
+    while (this.position < this.buffer.length) {
+      const char = this.buffer[this.position];
+
+      if (char === '"') {
+        this.done = true;
+        break;
+      }
+
+      if (char !== '\\') {
+        decoded += char;
+        this.position++;
+        continue;
+      }
+
+      // Wait for the rest of an escape sequence before decoding it
+      const next = this.buffer[this.position + 1];
+      if (next === undefined) break;
+
+      if (next === 'u') {
+        const hex = this.buffer.substring(this.position + 2, this.position + 6);
+        if (hex.length < 4) break;
+        decoded += String.fromCharCode(parseInt(hex, 16));
+        this.position += 6;
+        continue;
+      }
+
+      decoded += ESCAPES[next] ?? next;
+      this.position += 2;
+    }
+
+    return decoded;
+  }
+}
+
+const ESCAPES: Record<string, string> = {
+  n: '\n',
+  t: '\t',
+  r: '\r',
+  b: '\b',
+  f: '\f',
+  '"': '"',
+  '\\': '\\',
+  '/': '/',
+};
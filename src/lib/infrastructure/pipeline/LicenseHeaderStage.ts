@@ -0,0 +1,37 @@
+import {
+  GenerationContext,
+  GenerationStage,
+  StageResult,
+} from '@/lib/domain/services/GenerationPipeline';
+
+/**
+ * Prepends a license comment to the generated code, once.
+ */
+export class LicenseHeaderStage implements GenerationStage {
+  public readonly name = 'license-header';
+  private header: string;
+
+  constructor(license: string) {
+    const lines = license.trim().split(/\r?\n/);
+    this.header = ['/**', ...lines.map(line => ` * ${line}`.trimEnd()), ' */']
+      .join('\n')
+      .concat('\n');
+  }
+
+  public async run(context: GenerationContext): Promise<StageResult> {
+    const generated = context.generated;
+    if (!generated) {
+      return { outcome: 'skipped', detail: 'No generated code' };
+    }
+
+    if (generated.code.startsWith(this.header)) {
+      return { outcome: 'skipped', detail: 'Header already present' };
+    }
+
+    context.generated = {
+      ...generated,
+      code: `${this.header}${generated.code}`,
+    };
+    return {};
+  }
+}
@@ -0,0 +1,53 @@
+import type { Options } from 'prettier';
+import {
+  GenerationContext,
+  GenerationStage,
+  StageResult,
+} from '@/lib/domain/services/GenerationPipeline';
+
+const DEFAULT_OPTIONS: Options = {
+  singleQuote: true,
+  jsxSingleQuote: true,
+  trailingComma: 'es5',
+  arrowParens: 'avoid',
+};
+
+/**
+ * Formats the generated code with Prettier. Code Prettier cannot parse is
+ * kept as generated rather than failing the job.
+ */
+export class PrettierStage implements GenerationStage {
+  public readonly name = 'prettier';
+
+  constructor(private options: Options = DEFAULT_OPTIONS) {}
+
+  public async run(context: GenerationContext): Promise<StageResult> {
+    const generated = context.generated;
+    if (!generated) {
+      return { outcome: 'skipped', detail: 'No generated code' };
+    }
+
+    const [prettier, typescript, estree] = await Promise.all([
+      import('prettier/standalone'),
+      import('prettier/plugins/typescript'),
+      import('prettier/plugins/estree'),
+    ]);
+
+    const formatted = await prettier.format(generated.code, {
+      ...this.options,
+      parser: 'typescript',
+      plugins: [typescript, estree.default],
+    });
+
+    if (formatted === generated.code) {
+      return { outcome: 'skipped', detail: 'Already formatted' };
+    }
+
+    context.generated = { ...generated, code: formatted };
+    return {};
+  }
+
+  public async fallback(): Promise<StageResult> {
+    return { detail: 'Kept unformatted code' };
+  }
+}
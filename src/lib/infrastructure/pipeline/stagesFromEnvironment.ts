@@ -0,0 +1,34 @@
+import { GenerationStage } from '@/lib/domain/services/GenerationPipeline';
+import { LicenseHeaderStage } from './LicenseHeaderStage';
+import { PrettierStage } from './PrettierStage';
+
+/**
+ * Optional stages listed in GENERATION_STAGES (comma-separated), in order.
+ * They are meant to run between validation and saving.
+ */
+export function stagesFromEnvironment(
+  env: NodeJS.ProcessEnv = process.env
+): GenerationStage[] {
+  const names = (env.GENERATION_STAGES || '')
+    .split(',')
+    .map(name => name.trim())
+    .filter(Boolean);
+
+  return names.map(name => {
+    switch (name) {
+      case 'prettier':
+        return new PrettierStage();
+      case 'license-header':
+        if (!env.GENERATION_LICENSE_HEADER) {
+          throw new Error(
+            'GENERATION_LICENSE_HEADER is required for the license-header stage'
+          );
+        }
+        return new LicenseHeaderStage(
+          env.GENERATION_LICENSE_HEADER.replace(/\\n/g, '\n')
+        );
+      default:
+        throw new Error(`Unknown generation stage "${name}"`);
+    }
+  });
+}
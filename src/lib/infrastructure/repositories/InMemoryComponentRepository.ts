@@ -0,0 +1,121 @@
+import { Component } from '../../domain/entities/Component';
+import { IComponentRepository } from '../../domain/repositories/IComponentRepository';
+import { ComponentSearchOptions } from '@/types';
+
+/**
+ * Component library held in memory, for offline runs of the generation
+ * service (`npm run llm:replay`). Implements what generating a component
+ * uses: saving, naming lookups, the few-shot example search and intent
+ * classifier training.
+ */
+export class InMemoryComponentRepository implements IComponentRepository {
+  private components = new Map<string, Component>();
+
+  async create(component: Component): Promise<Component> {
+    this.components.set(component.id, component);
+    return component;
+  }
+
+  async findById(id: string): Promise<Component | null> {
+    return this.components.get(id) ?? null;
+  }
+
+  async findByName(name: string): Promise<Component | null> {
+    return (
+      Array.from(this.components.values()).find(
+        component => component.name === name
+      ) ?? null
+    );
+  }
+
+  async update(component: Component): Promise<Component> {
+    this.components.set(component.id, component);
+    return component;
+  }
+
+  async delete(id: string): Promise<void> {
+    this.components.delete(id);
+  }
+
+  async search(options: ComponentSearchOptions): Promise<{
+    components: Component[];
+    total: number;
+  }> {
+    const { userId, types, tags, sortBy, offset = 0, limit = 20 } = options;
+    const matches = Array.from(this.components.values())
+      .filter(component => !userId || component.ownerId === userId)
+      .filter(component => !types?.length || types.includes(component.type))
+      .filter(
+        component =>
+          !tags?.length || component.tags.some(tag => tags.includes(tag))
+      )
+      .sort((a, b) =>
+        sortBy === 'usageCount'
+          ? b.usageCount - a.usageCount
+          : b.createdAt.getTime() - a.createdAt.getTime()
+      );
+
+    return {
+      components: matches.slice(offset, offset + limit),
+      total: matches.length,
+    };
+  }
+
+  async existsByName(name: string, excludeId?: string): Promise<boolean> {
+    const existing = await this.findByName(name);
+    return !!existing && existing.id !== excludeId;
+  }
+
+  async getMostUsed(limit = 10): Promise<Component[]> {
+    return Array.from(this.components.values())
+      .sort((a, b) => b.usageCount - a.usageCount)
+      .slice(0, limit);
+  }
+
+  async getTotalCount(): Promise<number> {
+    return this.components.size;
+  }
+
+  findAll(): Promise<never> {
+    throw new Error('Method not implemented.');
+  }
+  findByType(): Promise<never> {
+    throw new Error('Method not implemented.');
+  }
+  findByOwner(): Promise<never> {
+    throw new Error('Method not implemented.');
+  }
+  findByTags(): Promise<never> {
+    throw new Error('Method not implemented.');
+  }
+  getRecentlyCreated(): Promise<never> {
+    throw new Error('Method not implemented.');
+  }
+  getRecentlyUsed(): Promise<never> {
+    throw new Error('Method not implemented.');
+  }
+  getCountByType(): Promise<never> {
+    throw new Error('Method not implemented.');
+  }
+  getUsageStats(): Promise<never> {
+    throw new Error('Method not implemented.');
+  }
+  createMany(): Promise<never> {
+    throw new Error('Method not implemented.');
+  }
+  deleteMany(): Promise<never> {
+    throw new Error('Method not implemented.');
+  }
+  updateUsageCount(): Promise<never> {
+    throw new Error('Method not implemented.');
+  }
+  updateLastUsed(): Promise<never> {
+    throw new Error('Method not implemented.');
+  }
+  exportComponents(): Promise<never> {
+    throw new Error('Method not implemented.');
+  }
+  importComponents(): Promise<never> {
+    throw new Error('Method not implemented.');
+  }
+}
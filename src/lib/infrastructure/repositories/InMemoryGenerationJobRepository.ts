@@ -0,0 +1,129 @@
+import { GenerationJob } from '../../domain/entities/GenerationJob';
+import { IGenerationJobRepository } from '../../domain/repositories/IGenerationJobRepository';
+import { GenerationStatus } from '@/types';
+
+/**
+ * Generation jobs held in memory, for offline runs of the generation
+ * service (`npm run llm:replay`). Implements what running a claimed job
+ * uses. The service changes jobs in place, so the status last saved is
+ * kept separately for the conditional updates.
+ */
+export class InMemoryGenerationJobRepository
+  implements IGenerationJobRepository
+{
+  private jobs = new Map<
+    string,
+    { job: GenerationJob; status: GenerationStatus }
+  >();
+
+  async create(job: GenerationJob): Promise<GenerationJob> {
+    this.jobs.set(job.id, { job, status: job.status });
+    return job;
+  }
+
+  async findById(id: string): Promise<GenerationJob | null> {
+    return this.jobs.get(id)?.job ?? null;
+  }
+
+  async findStatusById(id: string): Promise<GenerationStatus | null> {
+    return this.jobs.get(id)?.status ?? null;
+  }
+
+  async update(job: GenerationJob): Promise<GenerationJob> {
+    this.jobs.set(job.id, { job, status: job.status });
+    return job;
+  }
+
+  async updateIfStatus(
+    job: GenerationJob,
+    status: GenerationStatus
+  ): Promise<GenerationJob | null> {
+    if (this.jobs.get(job.id)?.status !== status) {
+      return null;
+    }
+    return this.update(job);
+  }
+
+  async delete(id: string): Promise<void> {
+    this.jobs.delete(id);
+  }
+
+  async findByIdempotencyKey(
+    userId: string,
+    idempotencyKey: string
+  ): Promise<GenerationJob | null> {
+    return (
+      Array.from(this.jobs.values(), ({ job }) => job).find(
+        job => job.userId === userId && job.idempotencyKey === idempotencyKey
+      ) ?? null
+    );
+  }
+
+  async recordHeartbeat(): Promise<void> {
+    // Nothing times out in memory
+  }
+
+  findAll(): Promise<never> {
+    throw new Error('Method not implemented.');
+  }
+  findByStatus(): Promise<never> {
+    throw new Error('Method not implemented.');
+  }
+  findByUserId(): Promise<never> {
+    throw new Error('Method not implemented.');
+  }
+  findByBatchId(): Promise<never> {
+    throw new Error('Method not implemented.');
+  }
+  findPendingJobs(): Promise<never> {
+    throw new Error('Method not implemented.');
+  }
+  findProcessingJobs(): Promise<never> {
+    throw new Error('Method not implemented.');
+  }
+  findRetryableJobs(): Promise<never> {
+    throw new Error('Method not implemented.');
+  }
+  getNextPendingJob(): Promise<never> {
+    throw new Error('Method not implemented.');
+  }
+  markAsProcessing(): Promise<never> {
+    throw new Error('Method not implemented.');
+  }
+  markAsCompleted(): Promise<never> {
+    throw new Error('Method not implemented.');
+  }
+  markAsFailed(): Promise<never> {
+    throw new Error('Method not implemented.');
+  }
+  markAsCancelled(): Promise<never> {
+    throw new Error('Method not implemented.');
+  }
+  deleteCompletedJobs(): Promise<never> {
+    throw new Error('Method not implemented.');
+  }
+  deleteFailedJobs(): Promise<never> {
+    throw new Error('Method not implemented.');
+  }
+  getJobStats(): Promise<never> {
+    throw new Error('Method not implemented.');
+  }
+  getJobMetrics(): Promise<never> {
+    throw new Error('Method not implemented.');
+  }
+  getPromptVersionStats(): Promise<never> {
+    throw new Error('Method not implemented.');
+  }
+  findStuckJobs(): Promise<never> {
+    throw new Error('Method not implemented.');
+  }
+  findJobsOlderThan(): Promise<never> {
+    throw new Error('Method not implemented.');
+  }
+  deleteMany(): Promise<never> {
+    throw new Error('Method not implemented.');
+  }
+  updateStatus(): Promise<never> {
+    throw new Error('Method not implemented.');
+  }
+}
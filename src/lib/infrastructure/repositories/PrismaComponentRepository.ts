@@ -1,7 +1,14 @@
 import { PrismaClient } from '@prisma/client';
 import { Component } from '../../domain/entities/Component';
 import { IComponentRepository } from '../../domain/repositories/IComponentRepository';
-import { ComponentType, ComponentSearchOptions } from '@/types';
+import {
+  COMPONENT_METRIC_NAMES,
+  ComponentMetadata,
+  ComponentMetricName,
+  ComponentMetrics,
+  ComponentType,
+  ComponentSearchOptions,
+} from '@/types';
 
 export class PrismaComponentRepository implements IComponentRepository {
   constructor(private prisma: PrismaClient) {}
@@ -19,6 +26,7 @@ export class PrismaComponentRepository implements IComponentRepository {
         examples: component.examples?.join('\n---\n'),
         tags: component.tags,
         metadata: component.metadata as any,
+        ...metricColumns(component.metadata?.metrics),
         version: component.version,
         ownerId: component.ownerId,
         usageCount: component.usageCount,
@@ -48,25 +56,26 @@ export class PrismaComponentRepository implements IComponentRepository {
   async update(component: Component): Promise<Component> {
     const data = await this.prisma.component.update({
       where: { id: component.id },
-      data: {
-        name: component.name,
-        code: component.code,
-        previewContent: (component as any).previewContent,
-        propsSchema: component.propsSchema as any,
-        description: component.description,
-        examples: component.examples?.join('\n---\n'),
-        tags: component.tags,
-        metadata: component.metadata as any,
-        version: component.version,
-        usageCount: component.usageCount,
-        lastUsedAt: component.lastUsedAt,
-        updatedAt: new Date(),
-      },
+      data: updateColumns(component),
     });
 
     return this.mapToEntity(data);
   }
 
+  // Like update, but only while the stored version is still `expectedVersion`;
+  // null when another write changed the component first
+  async updateIfVersion(
+    component: Component,
+    expectedVersion: string
+  ): Promise<Component | null> {
+    const { count } = await this.prisma.component.updateMany({
+      where: { id: component.id, version: expectedVersion },
+      data: updateColumns(component),
+    });
+
+    return count > 0 ? this.findById(component.id) : null;
+  }
+
   async delete(id: string): Promise<void> {
     await this.prisma.component.delete({
       where: { id },
@@ -211,6 +220,7 @@ export class PrismaComponentRepository implements IComponentRepository {
       types,
       tags,
       complexity,
+      metricRanges = {},
       sortBy = 'createdAt',
       sortOrder = 'desc',
       limit = 20,
@@ -252,12 +262,19 @@ export class PrismaComponentRepository implements IComponentRepository {
       };
     }
 
+    for (const [metric, range] of Object.entries(metricRanges)) {
+      where[metric] = { gte: range.min, lte: range.max, not: null };
+    }
+
     const [data, total] = await Promise.all([
       this.prisma.component.findMany({
         where,
         take: limit,
         skip: offset,
-        orderBy: { [sortBy]: sortOrder },
+        // Components without metrics sort after the measured ones
+        orderBy: COMPONENT_METRIC_NAMES.includes(sortBy as ComponentMetricName)
+          ? { [sortBy]: { sort: sortOrder, nulls: 'last' } }
+          : { [sortBy]: sortOrder },
       }),
       this.prisma.component.count({ where }),
     ]);
@@ -329,6 +346,7 @@ export class PrismaComponentRepository implements IComponentRepository {
       select: {
         usageCount: true,
         lastUsedAt: true,
+        metadata: true,
       },
     });
 
@@ -337,7 +355,9 @@ export class PrismaComponentRepository implements IComponentRepository {
     return {
       totalUsage: component.usageCount,
       lastUsed: component.lastUsedAt || undefined,
-      averageRating: undefined, // TODO: Implement rating system
+      // Share of thumbs up, kept in metadata by GenerationFeedbackService
+      averageRating: (component.metadata as ComponentMetadata | null)
+        ?.usageStats?.avgRating,
     };
   }
 
@@ -353,6 +373,7 @@ export class PrismaComponentRepository implements IComponentRepository {
         examples: component.examples?.join('\n---\n'),
         tags: component.tags,
         metadata: component.metadata as any,
+        ...metricColumns(component.metadata?.metrics),
         version: component.version,
         ownerId: component.ownerId,
         usageCount: component.usageCount,
@@ -441,3 +462,29 @@ export class PrismaComponentRepository implements IComponentRepository {
     return component;
   };
 }
+
+// Columns an update writes; id, type, owner and createdAt never change
+function updateColumns(component: Component) {
+  return {
+    name: component.name,
+    code: component.code,
+    previewContent: (component as any).previewContent,
+    propsSchema: component.propsSchema as any,
+    description: component.description,
+    examples: component.examples?.join('\n---\n'),
+    tags: component.tags,
+    metadata: component.metadata as any,
+    ...metricColumns(component.metadata?.metrics),
+    version: component.version,
+    usageCount: component.usageCount,
+    lastUsedAt: component.lastUsedAt,
+    updatedAt: new Date(),
+  };
+}
+
+// Column values of the metrics; null when the component was not measured
+function metricColumns(metrics?: ComponentMetrics) {
+  return Object.fromEntries(
+    COMPONENT_METRIC_NAMES.map(name => [name, metrics?.[name] ?? null])
+  ) as Record<ComponentMetricName, number | null>;
+}
@@ -0,0 +1,51 @@
+import { PrismaClient } from '@prisma/client';
+import {
+  GenerationBatch,
+  IGenerationBatchRepository,
+} from '../../domain/repositories/IGenerationBatchRepository';
+
+export class PrismaGenerationBatchRepository
+  implements IGenerationBatchRepository
+{
+  constructor(private prisma: PrismaClient) {}
+
+  async create(
+    batch: Omit<GenerationBatch, 'id' | 'createdAt' | 'completedAt'>
+  ): Promise<GenerationBatch> {
+    const data = await this.prisma.generationBatch.create({
+      data: {
+        name: batch.name,
+        userId: batch.userId,
+        spec: JSON.stringify(batch.spec),
+      },
+    });
+
+    return this.mapToEntity(data);
+  }
+
+  async findById(id: string): Promise<GenerationBatch | null> {
+    const data = await this.prisma.generationBatch.findUnique({
+      where: { id },
+    });
+
+    return data ? this.mapToEntity(data) : null;
+  }
+
+  async setCompletedAt(id: string, completedAt: Date | null): Promise<void> {
+    await this.prisma.generationBatch.update({
+      where: { id },
+      data: { completedAt },
+    });
+  }
+
+  private mapToEntity(data: any): GenerationBatch {
+    return {
+      id: data.id,
+      name: data.name ?? undefined,
+      userId: data.userId ?? undefined,
+      spec: JSON.parse(data.spec),
+      createdAt: data.createdAt,
+      completedAt: data.completedAt ?? undefined,
+    };
+  }
+}
@@ -0,0 +1,111 @@
+import { PrismaClient } from '@prisma/client';
+import {
+  GenerationFeedback,
+  IGenerationFeedbackRepository,
+  WrongTypeLabel,
+} from '../../domain/repositories/IGenerationFeedbackRepository';
+import { ComponentType, GenerationFeedbackIssue } from '@/types';
+
+// Labels read when building the intent corpus
+const DEFAULT_LABEL_LIMIT = 500;
+
+export class PrismaGenerationFeedbackRepository
+  implements IGenerationFeedbackRepository
+{
+  constructor(private prisma: PrismaClient) {}
+
+  async save(
+    feedback: Omit<GenerationFeedback, 'id' | 'createdAt' | 'updatedAt'>
+  ): Promise<GenerationFeedback> {
+    const data = {
+      componentId: feedback.componentId ?? null,
+      rating: feedback.rating === 'up' ? 1 : 0,
+      issues: feedback.issues,
+      expectedType: feedback.expectedType ?? null,
+      comment: feedback.comment ?? null,
+    };
+
+    const record = await this.prisma.generationFeedback.upsert({
+      where: {
+        jobId_userId: { jobId: feedback.jobId, userId: feedback.userId },
+      },
+      create: { jobId: feedback.jobId, userId: feedback.userId, ...data },
+      update: data,
+    });
+
+    return this.mapToEntity(record);
+  }
+
+  async findByJobAndUser(
+    jobId: string,
+    userId: string
+  ): Promise<GenerationFeedback | null> {
+    const record = await this.prisma.generationFeedback.findUnique({
+      where: { jobId_userId: { jobId, userId } },
+    });
+
+    return record ? this.mapToEntity(record) : null;
+  }
+
+  async getComponentRating(
+    componentId: string
+  ): Promise<{ averageRating: number; ratings: number }> {
+    const { _avg, _count } = await this.prisma.generationFeedback.aggregate({
+      where: { componentId },
+      _avg: { rating: true },
+      _count: { rating: true },
+    });
+
+    return { averageRating: _avg.rating ?? 0, ratings: _count.rating };
+  }
+
+  async findWrongTypeLabels(
+    limit: number = DEFAULT_LABEL_LIMIT
+  ): Promise<WrongTypeLabel[]> {
+    const records = await this.prisma.generationFeedback.findMany({
+      where: { issues: { has: 'wrong_type' }, expectedType: { not: null } },
+      select: {
+        jobId: true,
+        expectedType: true,
+        updatedAt: true,
+        job: { select: { prompt: true, componentType: true } },
+      },
+      orderBy: { updatedAt: 'desc' },
+      take: limit,
+    });
+
+    // Users may disagree about a prompt; the latest label wins
+    const labels = new Map<string, WrongTypeLabel>();
+    for (const record of records) {
+      if (labels.has(record.job.prompt)) continue;
+      labels.set(record.job.prompt, {
+        jobId: record.jobId,
+        prompt: record.job.prompt,
+        expected: record.expectedType as ComponentType,
+        generated: Object.values(ComponentType).includes(
+          record.job.componentType as ComponentType
+        )
+          ? (record.job.componentType as ComponentType)
+          : undefined,
+        labeledAt: record.updatedAt,
+      });
+    }
+
+    return Array.from(labels.values());
+  }
+
+  private mapToEntity(data: any): GenerationFeedback {
+    return {
+      id: data.id,
+      jobId: data.jobId,
+      componentId: data.componentId ?? undefined,
+      userId: data.userId,
+      rating: data.rating === 1 ? 'up' : 'down',
+      issues: data.issues as GenerationFeedbackIssue[],
+      expectedType: data.expectedType ?? undefined,
+      comment: data.comment ?? undefined,
+      createdAt: data.createdAt,
+      updatedAt: data.updatedAt,
+    };
+  }
+}
@@ -1,44 +1,203 @@
-import { PrismaClient } from '@prisma/client';
-import { GenerationJob } from '../../domain/entities/GenerationJob';
-import { IGenerationJobRepository } from '../../domain/repositories/IGenerationJobRepository';
-import { GenerationStatus } from '@/types';
+import { Prisma, PrismaClient } from '@prisma/client';
+import {
+  DEFAULT_MAX_RETRIES,
+  GenerationJob,
+} from '../../domain/entities/GenerationJob';
+import {
+  DuplicateIdempotencyKeyError,
+  GenerationJobQuery,
+  IGenerationJobRepository,
+} from '../../domain/repositories/IGenerationJobRepository';
+import {
+  ComponentType,
+  GenerationMetrics,
+  GenerationMetricsBucket,
+  GenerationStatus,
+} from '@/types';
+
+// Stored as componentType until a job without a preferred type succeeds
+const AUTO_DETECTED_TYPE = 'auto';
+
+// Rounds getNextPendingJob tries before leaving jobs to the next poll
+const CLAIM_ATTEMPTS = 5;
+
+// Finished outcomes counted by getJobMetrics and getPromptVersionStats;
+// cancelled jobs are neither
+const SUCCESSFUL_STATUSES: GenerationStatus[] = [
+  GenerationStatus.SUCCESS,
+  GenerationStatus.PARTIAL,
+];
+const FAILED_STATUSES: GenerationStatus[] = [
+  GenerationStatus.FAILED,
+  GenerationStatus.TIMEOUT,
+  GenerationStatus.RATE_LIMITED,
+];
+
+// Every column but the LLM exchanges, which only single-job reads need
+const LISTED_FIELDS = {
+  id: true,
+  prompt: true,
+  componentType: true,
+  requirements: true,
+  options: true,
+  status: true,
+  result: true,
+  error: true,
+  retryCount: true,
+  metadata: true,
+  llmProvider: true,
+  llmModel: true,
+  servedProvider: true,
+  servedModel: true,
+  promptVersion: true,
+  intentMatch: true,
+  promptTokens: true,
+  completionTokens: true,
+  createdAt: true,
+  startedAt: true,
+  completedAt: true,
+  componentId: true,
+  userId: true,
+  batchId: true,
+  idempotencyKey: true,
+} satisfies Prisma.GenerationLogSelect;
 
 export class PrismaGenerationJobRepository implements IGenerationJobRepository {
   constructor(private prisma: PrismaClient) {}
-  findAll(options?: {
-    limit?: number;
-    offset?: number;
-    sortBy?: string;
-    sortOrder?: 'asc' | 'desc';
-  }): Promise<{ jobs: GenerationJob[]; total: number }> {
-    throw new Error('Method not implemented.');
+  async findAll(
+    options: GenerationJobQuery & { userId?: string } = {}
+  ): Promise<{ jobs: GenerationJob[]; total: number }> {
+    const where: Prisma.GenerationLogWhereInput = {
+      userId: options.userId,
+      promptVersion: options.promptVersion,
+      status: options.statuses ? { in: options.statuses } : undefined,
+      componentType: options.componentType,
+      prompt: options.search
+        ? { contains: options.search, mode: 'insensitive' }
+        : undefined,
+      createdAt: { gte: options.createdAfter, lte: options.createdBefore },
+    };
+
+    const [records, total] = await Promise.all([
+      this.prisma.generationLog.findMany({
+        where,
+        select: LISTED_FIELDS,
+        orderBy: { createdAt: 'desc' },
+        take: options.limit || 20,
+        skip: options.offset || 0,
+      }),
+      this.prisma.generationLog.count({ where }),
+    ]);
+
+    return {
+      jobs: records.map(record => this.mapToEntity(record)),
+      total,
+    };
   }
-  findByUserId(
+
+  async findByUserId(
     userId: string,
-    options?: { limit?: number; offset?: number }
+    options: GenerationJobQuery = {}
   ): Promise<{ jobs: GenerationJob[]; total: number }> {
-    throw new Error('Method not implemented.');
+    return this.findAll({ ...options, userId });
   }
-  findPendingJobs(limit?: number): Promise<GenerationJob[]> {
-    throw new Error('Method not implemented.');
+  async findPendingJobs(limit?: number): Promise<GenerationJob[]> {
+    const records = await this.prisma.generationLog.findMany({
+      where: { status: GenerationStatus.PENDING },
+      orderBy: { createdAt: 'asc' },
+      take: limit,
+    });
+
+    return records.map(record => this.mapToEntity(record));
   }
-  findProcessingJobs(): Promise<GenerationJob[]> {
-    throw new Error('Method not implemented.');
+
+  async findProcessingJobs(): Promise<GenerationJob[]> {
+    const records = await this.prisma.generationLog.findMany({
+      where: { status: GenerationStatus.PROCESSING },
+      orderBy: { startedAt: 'asc' },
+    });
+
+    return records.map(record => this.mapToEntity(record));
   }
-  findRetryableJobs(limit?: number): Promise<GenerationJob[]> {
-    throw new Error('Method not implemented.');
+
+  async findRetryableJobs(
+    limit: number = 10,
+    completedAfter?: Date
+  ): Promise<GenerationJob[]> {
+    const records = await this.prisma.generationLog.findMany({
+      where: {
+        status: { in: [GenerationStatus.FAILED, GenerationStatus.TIMEOUT] },
+        retryCount: { lt: DEFAULT_MAX_RETRIES },
+        completedAt: { gte: completedAfter },
+      },
+      orderBy: { completedAt: 'asc' },
+    });
+
+    // Non-retryable failures are flagged in metadata, so filter here
+    return records
+      .map(record => this.mapToEntity(record))
+      .filter(job => job.canRetry())
+      .slice(0, limit);
   }
-  getNextPendingJob(): Promise<GenerationJob | null> {
-    throw new Error('Method not implemented.');
+
+  async getNextPendingJob(): Promise<GenerationJob | null> {
+    // Another worker may claim the oldest job first; move on to the next one
+    for (let attempt = 0; attempt < CLAIM_ATTEMPTS; attempt++) {
+      const next = await this.prisma.generationLog.findFirst({
+        where: { status: GenerationStatus.PENDING },
+        orderBy: { createdAt: 'asc' },
+        select: { id: true },
+      });
+
+      if (!next) {
+        return null;
+      }
+
+      if (await this.markAsProcessing(next.id)) {
+        return this.findById(next.id);
+      }
+    }
+
+    return null;
   }
-  markAsProcessing(id: string): Promise<void> {
-    throw new Error('Method not implemented.');
+
+  async markAsProcessing(id: string): Promise<boolean> {
+    const { count } = await this.prisma.generationLog.updateMany({
+      where: { id, status: GenerationStatus.PENDING },
+      data: {
+        status: GenerationStatus.PROCESSING,
+        startedAt: new Date(),
+        completedAt: null,
+      },
+    });
+
+    return count === 1;
   }
-  markAsCompleted(id: string, result: any): Promise<void> {
-    throw new Error('Method not implemented.');
+
+  async markAsCompleted(id: string, result: any): Promise<void> {
+    await this.prisma.generationLog.updateMany({
+      where: { id, status: GenerationStatus.PROCESSING },
+      data: {
+        status: GenerationStatus.SUCCESS,
+        result: JSON.stringify(result),
+        completedAt: new Date(),
+      },
+    });
   }
-  markAsFailed(id: string, error: Error): Promise<void> {
-    throw new Error('Method not implemented.');
+
+  async markAsFailed(id: string, error: Error): Promise<void> {
+    await this.prisma.generationLog.updateMany({
+      where: { id, status: GenerationStatus.PROCESSING },
+      data: {
+        status: GenerationStatus.FAILED,
+        error: JSON.stringify({
+          message: error.message,
+          stack: error.stack,
+          name: error.name,
+        }),
+        completedAt: new Date(),
+      },
+    });
   }
   deleteCompletedJobs(olderThanDays: number): Promise<number> {
     throw new Error('Method not implemented.');
@@ -56,20 +215,215 @@ export class PrismaGenerationJobRepository implements IGenerationJobRepository {
   }> {
     throw new Error('Method not implemented.');
   }
-  getJobMetrics(
+  async getJobMetrics(
     fromDate?: Date,
     toDate?: Date
-  ): Promise<{
-    totalJobs: number;
-    successfulJobs: number;
-    failedJobs: number;
-    averageProcessingTime: number;
-    successRate: number;
-  }> {
-    throw new Error('Method not implemented.');
+  ): Promise<GenerationMetrics> {
+    const records = await this.prisma.generationLog.findMany({
+      where: {
+        status: { in: [...SUCCESSFUL_STATUSES, ...FAILED_STATUSES] },
+        createdAt: { gte: fromDate, lte: toDate },
+      },
+      // Not the result JSON; the columns below hold what the metrics need
+      select: {
+        status: true,
+        componentType: true,
+        error: true,
+        llmProvider: true,
+        llmModel: true,
+        servedProvider: true,
+        servedModel: true,
+        promptVersion: true,
+        createdAt: true,
+        startedAt: true,
+        completedAt: true,
+        feedback: { select: { rating: true, issues: true } },
+      },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    const outcomes = records.map(record => {
+      const successful = SUCCESSFUL_STATUSES.includes(
+        record.status as GenerationStatus
+      );
+      return {
+        record,
+        successful,
+        // The generated type once the job succeeded
+        componentType: successful
+          ? (record.componentType as ComponentType)
+          : undefined,
+        // Only rated jobs say whether the type was the one wanted
+        intentCorrect:
+          record.feedback.length > 0
+            ? !record.feedback.some(feedback =>
+                feedback.issues.includes('wrong_type')
+              )
+            : undefined,
+        processingTime:
+          record.startedAt && record.completedAt
+            ? record.completedAt.getTime() - record.startedAt.getTime()
+            : undefined,
+        errorType: successful ? undefined : errorTypeOf(record),
+      };
+    });
+
+    const overall = summarizeOutcomes(outcomes);
+    // Ratings are 1 (thumbs up) or 0
+    const ratings = records.flatMap(record =>
+      record.feedback.map(feedback => feedback.rating)
+    );
+    const successful = outcomes.filter(outcome => outcome.successful);
+    const failed = outcomes.filter(outcome => !outcome.successful);
+
+    return {
+      totalGenerations: overall.totalGenerations,
+      successfulGenerations: successful.length,
+      failedGenerations: failed.length,
+      successRate: overall.successRate,
+      averageProcessingTime: overall.averageProcessingTime,
+      popularComponentTypes: countBy(
+        successful,
+        outcome => outcome.componentType
+      ).map(({ key, count, percentage }) => ({
+        type: key as ComponentType,
+        count,
+        percentage,
+      })),
+      errorBreakdown: countBy(failed, outcome => outcome.errorType).map(
+        ({ key, count, percentage }) => ({ type: key, count, percentage })
+      ),
+      intentMatchingAccuracy: overall.intentMatchingAccuracy,
+      userSatisfactionScore: ratings.length > 0 ? average(ratings) : undefined,
+      timeline: groupOutcomes(outcomes, outcome =>
+        outcome.record.createdAt.toISOString().slice(0, 10)
+      ).map(([date, bucket]) => ({ date, ...bucket })),
+      byPromptVersion: groupOutcomes(
+        outcomes.filter(outcome => outcome.record.promptVersion),
+        outcome => outcome.record.promptVersion as string
+      )
+        .map(([promptVersion, bucket]) => ({ promptVersion, ...bucket }))
+        .sort((a, b) => a.promptVersion.localeCompare(b.promptVersion)),
+      byModel: groupOutcomes(outcomes, outcome =>
+        [
+          outcome.record.servedProvider ??
+            outcome.record.llmProvider ??
+            'default',
+          outcome.record.servedModel ?? outcome.record.llmModel ?? 'default',
+        ].join('\u0000')
+      )
+        .map(([key, bucket]) => {
+          const [provider, model] = key.split('\u0000');
+          return { provider, model, ...bucket };
+        })
+        .sort((a, b) => b.totalGenerations - a.totalGenerations),
+    };
   }
-  findStuckJobs(timeoutMinutes: number): Promise<GenerationJob[]> {
-    throw new Error('Method not implemented.');
+  async getPromptVersionStats(
+    fromDate?: Date,
+    toDate?: Date
+  ): Promise<
+    Array<{
+      promptVersion: string;
+      totalJobs: number;
+      successfulJobs: number;
+      successRate: number;
+      averageIntentMatch: number;
+      validationPassRate: number;
+    }>
+  > {
+    const records = await this.prisma.generationLog.findMany({
+      where: {
+        promptVersion: { not: null },
+        status: { in: [...SUCCESSFUL_STATUSES, ...FAILED_STATUSES] },
+        createdAt: { gte: fromDate, lte: toDate },
+      },
+      select: {
+        promptVersion: true,
+        status: true,
+        result: true,
+        metadata: true,
+      },
+    });
+
+    const groups = new Map<
+      string,
+      {
+        total: number;
+        successful: number;
+        intentMatchSum: number;
+        validated: number;
+      }
+    >();
+
+    for (const record of records) {
+      const version = record.promptVersion as string;
+      const group = groups.get(version) || {
+        total: 0,
+        successful: 0,
+        intentMatchSum: 0,
+        validated: 0,
+      };
+
+      group.total++;
+
+      if (SUCCESSFUL_STATUSES.includes(record.status as GenerationStatus)) {
+        group.successful++;
+        const result = record.result ? JSON.parse(record.result) : null;
+        group.intentMatchSum += result?.metadata?.intentMatch ?? 0;
+      }
+
+      // Validation passes when the first response already matched the schema
+      const metadata = record.metadata ? JSON.parse(record.metadata) : {};
+      if (metadata.schemaAttempts?.[0]?.success) {
+        group.validated++;
+      }
+
+      groups.set(version, group);
+    }
+
+    return Array.from(groups.entries())
+      .map(([promptVersion, group]) => ({
+        promptVersion,
+        totalJobs: group.total,
+        successfulJobs: group.successful,
+        successRate: group.successful / group.total,
+        averageIntentMatch:
+          group.successful > 0 ? group.intentMatchSum / group.successful : 0,
+        validationPassRate: group.validated / group.total,
+      }))
+      .sort((a, b) => a.promptVersion.localeCompare(b.promptVersion));
+  }
+
+  async markAsCancelled(id: string): Promise<boolean> {
+    const { count } = await this.prisma.generationLog.updateMany({
+      where: {
+        id,
+        status: { in: [GenerationStatus.PENDING, GenerationStatus.PROCESSING] },
+      },
+      data: { status: GenerationStatus.CANCELLED, completedAt: new Date() },
+    });
+
+    return count === 1;
+  }
+
+  async recordHeartbeat(id: string): Promise<void> {
+    await this.prisma.generationLog.updateMany({
+      where: { id, status: GenerationStatus.PROCESSING },
+      data: { updatedAt: new Date() },
+    });
+  }
+
+  async findStuckJobs(timeoutMinutes: number): Promise<GenerationJob[]> {
+    const records = await this.prisma.generationLog.findMany({
+      where: {
+        status: GenerationStatus.PROCESSING,
+        updatedAt: { lt: new Date(Date.now() - timeoutMinutes * 60 * 1000) },
+      },
+      orderBy: { updatedAt: 'asc' },
+    });
+
+    return records.map(record => this.mapToEntity(record));
   }
   findJobsOlderThan(hours: number): Promise<GenerationJob[]> {
     throw new Error('Method not implemented.');
@@ -85,11 +439,15 @@ export class PrismaGenerationJobRepository implements IGenerationJobRepository {
     const data = {
       id: job.id,
       prompt: job.request.prompt,
-      componentType:
-        (job.request as any).componentType ||
-        (job.request as any).preferredType ||
-        'MUIButton',
-      requirements: JSON.stringify((job.request as any).requirements || {}),
+      // Replaced by the generated type once the job succeeds
+      componentType: job.request.preferredType || AUTO_DETECTED_TYPE,
+      // null keeps both keys, which marks the row as carrying the request
+      requirements: JSON.stringify({
+        preferredType: job.request.preferredType ?? null,
+        context: job.request.context ?? null,
+        name: job.request.name ?? null,
+        tags: job.request.tags ?? null,
+      }),
       options: JSON.stringify(job.request.options || {}),
       status: job.status,
       createdAt: job.createdAt,
@@ -101,18 +459,45 @@ export class PrismaGenerationJobRepository implements IGenerationJobRepository {
             message: job.error.message,
             stack: job.error.stack,
             name: job.error.name,
+            // LLMGenerationError classification, for the error breakdown
+            type: (job.error as { type?: string }).type,
           })
         : null,
       retryCount: job.retryCount,
       metadata: JSON.stringify(job.metadata || {}),
+      llmExchanges: JSON.stringify(job.llmExchanges),
       componentId: job.componentId,
+      userId: job.userId,
+      batchId: job.batchId,
+      idempotencyKey: job.idempotencyKey,
+      llmProvider: job.request.llm?.provider,
+      llmModel: job.request.llm?.model,
+      servedProvider: job.getMetadata('llmBackend')?.provider,
+      servedModel: job.getMetadata('llmBackend')?.model,
+      promptVersion: job.getMetadata('promptVersions')?.generation,
+      intentMatch: job.result?.metadata?.intentMatch,
+      promptTokens: job.getMetadata('tokenUsage')?.promptTokens ?? 0,
+      completionTokens: job.getMetadata('tokenUsage')?.completionTokens ?? 0,
     };
 
-    const created = await this.prisma.generationLog.create({
-      data,
-    });
+    try {
+      const created = await this.prisma.generationLog.create({
+        data,
+      });
 
-    return this.mapToEntity(created);
+      return this.mapToEntity(created);
+    } catch (error) {
+      // The (userId, idempotencyKey) unique constraint
+      if (
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        error.code === 'P2002' &&
+        job.userId &&
+        job.idempotencyKey
+      ) {
+        throw new DuplicateIdempotencyKeyError(job.userId, job.idempotencyKey);
+      }
+      throw error;
+    }
   }
 
   async findById(id: string): Promise<GenerationJob | null> {
@@ -123,30 +508,69 @@ export class PrismaGenerationJobRepository implements IGenerationJobRepository {
     return record ? this.mapToEntity(record) : null;
   }
 
+  async findStatusById(id: string): Promise<GenerationStatus | null> {
+    const record = await this.prisma.generationLog.findUnique({
+      where: { id },
+      select: { status: true },
+    });
+
+    return record ? (record.status as GenerationStatus) : null;
+  }
+
   async update(job: GenerationJob): Promise<GenerationJob> {
-    const data = {
+    const updated = await this.prisma.generationLog.update({
+      where: { id: job.id },
+      data: this.toUpdateData(job),
+    });
+
+    return this.mapToEntity(updated);
+  }
+
+  async updateIfStatus(
+    job: GenerationJob,
+    status: GenerationStatus
+  ): Promise<GenerationJob | null> {
+    const { count } = await this.prisma.generationLog.updateMany({
+      where: { id: job.id, status },
+      data: this.toUpdateData(job),
+    });
+
+    return count === 1 ? this.findById(job.id) : null;
+  }
+
+  private toUpdateData(job: GenerationJob) {
+    return {
       status: job.status,
-      startedAt: job.startedAt,
-      completedAt: job.completedAt,
+      componentType: job.result?.component?.componentType,
+      // null clears the timestamps when a job is retried
+      startedAt: job.startedAt ?? null,
+      completedAt: job.completedAt ?? null,
       result: job.result ? JSON.stringify(job.result) : null,
       error: job.error
         ? JSON.stringify({
             message: job.error.message,
             stack: job.error.stack,
             name: job.error.name,
+            // LLMGenerationError classification, for the error breakdown
+            type: (job.error as { type?: string }).type,
           })
         : null,
       retryCount: job.retryCount,
       metadata: JSON.stringify(job.metadata || {}),
+      // Left alone when empty, so saving a listed job keeps them
+      llmExchanges:
+        job.llmExchanges.length > 0
+          ? JSON.stringify(job.llmExchanges)
+          : undefined,
       componentId: job.componentId,
+      idempotencyKey: job.idempotencyKey ?? null,
+      servedProvider: job.getMetadata('llmBackend')?.provider,
+      servedModel: job.getMetadata('llmBackend')?.model,
+      promptVersion: job.getMetadata('promptVersions')?.generation,
+      intentMatch: job.result?.metadata?.intentMatch,
+      promptTokens: job.getMetadata('tokenUsage')?.promptTokens ?? 0,
+      completionTokens: job.getMetadata('tokenUsage')?.completionTokens ?? 0,
     };
-
-    const updated = await this.prisma.generationLog.update({
-      where: { id: job.id },
-      data,
-    });
-
-    return this.mapToEntity(updated);
   }
 
   async findByStatus(
@@ -163,6 +587,26 @@ export class PrismaGenerationJobRepository implements IGenerationJobRepository {
     };
   }
 
+  async findByIdempotencyKey(
+    userId: string,
+    idempotencyKey: string
+  ): Promise<GenerationJob | null> {
+    const record = await this.prisma.generationLog.findUnique({
+      where: { userId_idempotencyKey: { userId, idempotencyKey } },
+    });
+
+    return record ? this.mapToEntity(record) : null;
+  }
+
+  async findByBatchId(batchId: string): Promise<GenerationJob[]> {
+    const records = await this.prisma.generationLog.findMany({
+      where: { batchId },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return records.map(record => this.mapToEntity(record));
+  }
+
   async findRecent(limit: number = 10): Promise<GenerationJob[]> {
     const records = await this.prisma.generationLog.findMany({
       orderBy: { createdAt: 'desc' },
@@ -201,13 +645,28 @@ export class PrismaGenerationJobRepository implements IGenerationJobRepository {
   }
 
   private mapToEntity(record: any): GenerationJob {
+    const requirements = record.requirements
+      ? JSON.parse(record.requirements)
+      : {};
+    // Older rows only kept the type, defaulting auto-detected jobs to a button
+    const storedRequest = 'preferredType' in requirements;
+
     const job = new GenerationJob(record.id, {
       prompt: record.prompt,
-      preferredType: record.componentType,
-      context:
-        (record.requirements ? JSON.parse(record.requirements) : undefined) ||
-        {},
+      preferredType: storedRequest
+        ? requirements.preferredType || undefined
+        : record.componentType,
+      context: storedRequest ? requirements.context || undefined : {},
+      name: requirements.name || undefined,
+      tags: requirements.tags || undefined,
       options: record.options ? JSON.parse(record.options) : undefined,
+      llm:
+        record.llmProvider || record.llmModel
+          ? {
+              provider: record.llmProvider || undefined,
+              model: record.llmModel || undefined,
+            }
+          : undefined,
     });
 
     // Set internal properties
@@ -219,8 +678,84 @@ export class PrismaGenerationJobRepository implements IGenerationJobRepository {
     (job as any).error = record.error ? JSON.parse(record.error) : null;
     (job as any).retryCount = record.retryCount;
     (job as any).metadata = record.metadata ? JSON.parse(record.metadata) : {};
+    job.llmExchanges = record.llmExchanges
+      ? JSON.parse(record.llmExchanges)
+      : [];
     job.componentId = record.componentId;
+    job.userId = record.userId || undefined;
+    job.batchId = record.batchId || undefined;
+    job.idempotencyKey = record.idempotencyKey || undefined;
 
     return job;
   }
 }
+
+interface JobOutcome {
+  successful: boolean;
+  intentCorrect?: boolean;
+  processingTime?: number;
+}
+
+// Timeouts and rate limits by status, other failures by error class
+function errorTypeOf(record: { status: string; error: string | null }): string {
+  if (record.status === GenerationStatus.TIMEOUT) return 'timeout';
+  if (record.status === GenerationStatus.RATE_LIMITED) return 'rate_limit';
+  const error = record.error ? JSON.parse(record.error) : null;
+  return error?.type ?? error?.name ?? 'unknown';
+}
+
+function average(values: number[]): number {
+  return values.length > 0
+    ? values.reduce((sum, value) => sum + value, 0) / values.length
+    : 0;
+}
+
+function summarizeOutcomes(outcomes: JobOutcome[]): GenerationMetricsBucket {
+  const successful = outcomes.filter(outcome => outcome.successful);
+  const rated = outcomes.filter(outcome => outcome.intentCorrect !== undefined);
+  return {
+    totalGenerations: outcomes.length,
+    successRate: outcomes.length > 0 ? successful.length / outcomes.length : 0,
+    averageProcessingTime: Math.round(
+      average(
+        outcomes
+          .map(outcome => outcome.processingTime)
+          .filter((time): time is number => time !== undefined)
+      )
+    ),
+    intentMatchingAccuracy:
+      rated.length > 0
+        ? rated.filter(outcome => outcome.intentCorrect).length / rated.length
+        : undefined,
+  };
+}
+
+// Buckets in order of first appearance
+function groupOutcomes<T extends JobOutcome>(
+  outcomes: T[],
+  keyOf: (outcome: T) => string
+): Array<[string, GenerationMetricsBucket]> {
+  const groups = new Map<string, T[]>();
+  for (const outcome of outcomes) {
+    const key = keyOf(outcome);
+    groups.set(key, [...(groups.get(key) ?? []), outcome]);
+  }
+  return Array.from(groups, ([key, group]) => [key, summarizeOutcomes(group)]);
+}
+
+// Most frequent first; percentages of all items, unkeyed ones included
+function countBy<T>(
+  items: T[],
+  keyOf: (item: T) => string | undefined
+): Array<{ key: string; count: number; percentage: number }> {
+  const counts = new Map<string, number>();
+  for (const item of items) {
+    const key = keyOf(item);
+    if (key) counts.set(key, (counts.get(key) ?? 0) + 1);
+  }
+  return Array.from(counts, ([key, count]) => ({
+    key,
+    count,
+    percentage: Math.round((count / items.length) * 1000) / 10,
+  })).sort((a, b) => b.count - a.count);
+}
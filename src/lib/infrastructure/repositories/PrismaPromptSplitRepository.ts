@@ -0,0 +1,54 @@
+import { PrismaClient } from '@prisma/client';
+import {
+  IPromptSplitRepository,
+  PromptSplit,
+} from '../../domain/repositories/IPromptSplitRepository';
+
+export class PrismaPromptSplitRepository implements IPromptSplitRepository {
+  constructor(private prisma: PrismaClient) {}
+
+  async findAll(): Promise<PromptSplit[]> {
+    const records = await this.prisma.promptTemplateSplit.findMany({
+      orderBy: { templateName: 'asc' },
+    });
+
+    return records.map(record => this.mapToSplit(record));
+  }
+
+  async findByTemplateName(templateName: string): Promise<PromptSplit | null> {
+    const record = await this.prisma.promptTemplateSplit.findUnique({
+      where: { templateName },
+    });
+
+    return record ? this.mapToSplit(record) : null;
+  }
+
+  async save(
+    templateName: string,
+    weights: Record<string, number>,
+    updatedBy?: string
+  ): Promise<PromptSplit> {
+    const record = await this.prisma.promptTemplateSplit.upsert({
+      where: { templateName },
+      create: { templateName, weights, updatedBy },
+      update: { weights, updatedBy },
+    });
+
+    return this.mapToSplit(record);
+  }
+
+  async delete(templateName: string): Promise<void> {
+    await this.prisma.promptTemplateSplit.deleteMany({
+      where: { templateName },
+    });
+  }
+
+  private mapToSplit(record: any): PromptSplit {
+    return {
+      templateName: record.templateName,
+      weights: (record.weights as Record<string, number>) || {},
+      updatedAt: record.updatedAt,
+      updatedBy: record.updatedBy || undefined,
+    };
+  }
+}
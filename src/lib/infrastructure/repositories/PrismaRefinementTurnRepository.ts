@@ -0,0 +1,82 @@
+import { Prisma, PrismaClient } from '@prisma/client';
+import { Component } from '../../domain/entities/Component';
+import {
+  IRefinementTurnRepository,
+  RefinementConflictError,
+  RefinementTurn,
+} from '../../domain/repositories/IRefinementTurnRepository';
+import { PrismaComponentRepository } from './PrismaComponentRepository';
+
+export class PrismaRefinementTurnRepository
+  implements IRefinementTurnRepository
+{
+  constructor(private prisma: PrismaClient) {}
+
+  async createWithComponent(
+    component: Component,
+    previousVersion: string,
+    turn: Omit<RefinementTurn, 'id' | 'createdAt' | 'turn' | 'code' | 'version'>
+  ): Promise<{ component: Component; turn: RefinementTurn }> {
+    try {
+      return await this.prisma.$transaction(async tx => {
+        // The version check serializes concurrent refinements of a component
+        const saved = await new PrismaComponentRepository(
+          tx as unknown as PrismaClient
+        ).updateIfVersion(component, previousVersion);
+        if (!saved) {
+          throw new RefinementConflictError(component.id);
+        }
+
+        const { _max } = await tx.refinementTurn.aggregate({
+          where: { componentId: component.id },
+          _max: { turn: true },
+        });
+        const data = await tx.refinementTurn.create({
+          data: {
+            ...turn,
+            turn: (_max.turn ?? 0) + 1,
+            code: saved.code,
+            version: saved.version,
+          },
+        });
+
+        return { component: saved, turn: this.mapToEntity(data) };
+      });
+    } catch (error) {
+      if (
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        error.code === 'P2002'
+      ) {
+        throw new RefinementConflictError(component.id);
+      }
+      throw error;
+    }
+  }
+
+  async findByComponentId(componentId: string): Promise<RefinementTurn[]> {
+    const data = await this.prisma.refinementTurn.findMany({
+      where: { componentId },
+      orderBy: { turn: 'asc' },
+    });
+
+    return data.map(this.mapToEntity);
+  }
+
+  private mapToEntity(data: any): RefinementTurn {
+    return {
+      id: data.id,
+      componentId: data.componentId,
+      userId: data.userId ?? undefined,
+      turn: data.turn,
+      instruction: data.instruction,
+      previousCode: data.previousCode,
+      code: data.code,
+      version: data.version,
+      llmProvider: data.llmProvider ?? undefined,
+      llmModel: data.llmModel ?? undefined,
+      promptTokens: data.promptTokens,
+      completionTokens: data.completionTokens,
+      createdAt: data.createdAt,
+    };
+  }
+}
@@ -0,0 +1,32 @@
+import { PrismaClient } from '@prisma/client';
+import {
+  ITokenUsageRepository,
+  TokenUsageEntry,
+} from '../../domain/repositories/ITokenUsageRepository';
+
+export class PrismaTokenUsageRepository implements ITokenUsageRepository {
+  constructor(private prisma: PrismaClient) {}
+
+  async record(entry: TokenUsageEntry): Promise<void> {
+    await this.prisma.tokenUsage.create({
+      data: entry,
+    });
+  }
+
+  async getTotalForUser(userId: string, since: Date): Promise<number> {
+    const result = await this.prisma.tokenUsage.aggregate({
+      where: {
+        userId,
+        createdAt: { gte: since },
+      },
+      _sum: {
+        promptTokens: true,
+        completionTokens: true,
+      },
+    });
+
+    return (
+      (result._sum.promptTokens ?? 0) + (result._sum.completionTokens ?? 0)
+    );
+  }
+}
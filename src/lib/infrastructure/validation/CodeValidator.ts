@@ -1,6 +1,8 @@
 import * as ts from 'typescript';
 import { Project } from 'ts-morph';
 import { ICodeValidator } from '../../domain/services/ComponentGenerationService';
+import { analyzeComponent } from '../../core/analysis/ComponentAnalyzer';
+import { ComponentAnalysis } from '@/types';
 
 export class CodeValidator implements ICodeValidator {
   private project: Project;
@@ -12,7 +14,8 @@ export class CodeValidator implements ICodeValidator {
     this.project = new Project({
       compilerOptions: {
         target: ts.ScriptTarget.ES2022 as any,
-        lib: ['dom', 'dom.iterable', 'esnext'],
+        // Raw compiler options take lib file names, not tsconfig aliases
+        lib: ['lib.dom.d.ts', 'lib.dom.iterable.d.ts', 'lib.esnext.d.ts'],
         allowJs: false,
         skipLibCheck: true,
         esModuleInterop: true,
@@ -20,7 +23,7 @@ export class CodeValidator implements ICodeValidator {
         strict: true,
         forceConsistentCasingInFileNames: true,
         module: ts.ModuleKind.ESNext as any,
-        moduleResolution: ts.ModuleResolutionKind.Node16,
+        moduleResolution: ts.ModuleResolutionKind.Bundler,
         resolveJsonModule: true,
         isolatedModules: true,
         noEmit: true,
@@ -56,7 +59,7 @@ export class CodeValidator implements ICodeValidator {
       /WebSocket/i,
       /<script[^>]*>/i,
       /javascript:/i,
-      /on\w+\s*=/i, // Event handlers in JSX
+      /\bon[a-z]+\s*=\s*["']/, // Inline HTML event handler strings, not JSX props
     ];
 
     this.forbiddenIdentifiers = new Set([
@@ -105,8 +108,13 @@ export class CodeValidator implements ICodeValidator {
         }
 
         return {
+          // Chained messages carry the detail ("No overload matches" alone says little)
           message:
-            typeof message === 'string' ? message : message.getMessageText(),
+            typeof message === 'string'
+              ? message
+              : ts
+                  .flattenDiagnosticMessageText(message.compilerObject, ' ')
+                  .replace(/\s+/g, ' '),
           line,
           column,
         };
@@ -137,12 +145,16 @@ export class CodeValidator implements ICodeValidator {
       type: string;
       message: string;
       severity: 'error' | 'warning';
+      line?: number;
+      column?: number;
     }>;
   }> {
     const violations: Array<{
       type: string;
       message: string;
       severity: 'error' | 'warning';
+      line?: number;
+      column?: number;
     }> = [];
 
     // Check for forbidden patterns
@@ -153,6 +165,7 @@ export class CodeValidator implements ICodeValidator {
           type: 'forbidden-pattern',
           message: `Forbidden pattern detected: ${matches[0]}`,
           severity: 'error',
+          ...this.positionAt(code, matches.index ?? 0),
         });
       }
     }
@@ -174,6 +187,7 @@ export class CodeValidator implements ICodeValidator {
               type: 'forbidden-identifier',
               message: `Forbidden identifier: ${text}`,
               severity: 'error',
+              ...sourceFile.getLineAndColumnAtPos(node.getStart()),
             });
           }
         }
@@ -189,6 +203,7 @@ export class CodeValidator implements ICodeValidator {
               type: 'dynamic-access',
               message: `Potentially dangerous dynamic property access: ${expression}`,
               severity: 'warning',
+              ...sourceFile.getLineAndColumnAtPos(node.getStart()),
             });
           }
         }
@@ -205,6 +220,7 @@ export class CodeValidator implements ICodeValidator {
                   type: 'eval-construct',
                   message: `Dangerous eval-like construct: ${functionName}`,
                   severity: 'error',
+                  ...sourceFile.getLineAndColumnAtPos(node.getStart()),
                 });
               }
             }
@@ -313,6 +329,18 @@ export class CodeValidator implements ICodeValidator {
     return false;
   }
 
+  // 1-based line and column of a character offset
+  private positionAt(
+    code: string,
+    index: number
+  ): { line: number; column: number } {
+    const before = code.slice(0, index).split('\n');
+    return {
+      line: before.length,
+      column: before[before.length - 1].length + 1,
+    };
+  }
+
   // Additional validation methods
   async validateReactComponent(code: string): Promise<{
     isValid: boolean;
@@ -425,6 +453,10 @@ export class CodeValidator implements ICodeValidator {
     };
   }
 
+  async analyzeComponent(code: string): Promise<ComponentAnalysis> {
+    return analyzeComponent(code);
+  }
+
   async validateAccessibility(code: string): Promise<{
     isValid: boolean;
     warnings: string[];
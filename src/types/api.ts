@@ -1,4 +1,6 @@
 import { z } from 'zod';
+import { ComponentType } from './component';
+import { GenerationFeedbackIssue } from './generation';
 
 // Base API Response
 export const BaseApiResponse = z.object({
@@ -83,6 +85,7 @@ export enum ApiErrorCode {
   COMPILATION_ERROR = 'COMPILATION_ERROR',
   TEMPLATE_ERROR = 'TEMPLATE_ERROR',
   PREVIEW_ERROR = 'PREVIEW_ERROR',
+  PROMPT_REJECTED = 'PROMPT_REJECTED',
 }
 
 export class ApiError extends Error {
@@ -103,6 +106,12 @@ export namespace API {
   export const GenerateRequest = z.object({
     prompt: z.string().min(1).max(2000),
     preferredType: z.string().optional(),
+    provider: z.string().optional(),
+    model: z.string().optional(),
+    // Always call the LLM, even if an identical request is cached
+    bypassCache: z.boolean().optional(),
+    // Generate this many variants and rank them; the best one is saved
+    candidateCount: z.number().int().min(1).max(5).optional(),
     options: z
       .object({
         theme: z.enum(['light', 'dark']).default('light'),
@@ -142,6 +151,14 @@ export namespace API {
 
   export type GenerateResponse = z.infer<typeof GenerateResponse>;
 
+  // Refine an existing component with a follow-up instruction
+  export const RefineRequest = z.object({
+    instruction: z.string().min(1).max(2000),
+    bypassCache: z.boolean().optional(),
+  });
+
+  export type RefineRequest = z.infer<typeof RefineRequest>;
+
   // Validate Component
   export const ValidateRequest = z.object({
     code: z.string(),
@@ -245,6 +262,16 @@ export namespace API {
     description: z.string().optional(),
     tags: z.array(z.string()),
     usageCount: z.number(),
+    complexity: z.enum(['simple', 'medium', 'complex']).optional(),
+    metrics: z
+      .object({
+        cyclomaticComplexity: z.number(),
+        jsxDepth: z.number(),
+        hookCount: z.number(),
+        propCount: z.number(),
+        importCount: z.number(),
+      })
+      .optional(),
     createdAt: z.string(),
     updatedAt: z.string(),
   });
@@ -254,6 +281,109 @@ export namespace API {
   export const LibraryListResponse = PaginatedResponse(LibraryComponent);
   export type LibraryListResponse = z.infer<typeof LibraryListResponse>;
 
+  // Generation History
+  export const JobHistoryRequest = PaginationParams.pick({
+    page: true,
+    limit: true,
+  }).extend({
+    // Comma-separated GenerationStatus values
+    status: z.string().optional(),
+    type: z.string().optional(),
+    search: z.string().optional(),
+    from: z.coerce.date().optional(),
+    to: z.coerce.date().optional(),
+  });
+
+  export type JobHistoryRequest = z.infer<typeof JobHistoryRequest>;
+
+  // Admin audit listing: the history filters, across users
+  export const AdminJobListRequest = JobHistoryRequest.extend({
+    userId: z.string().optional(),
+    promptVersion: z.string().optional(),
+  });
+
+  export type AdminJobListRequest = z.infer<typeof AdminJobListRequest>;
+
+  // Generation metrics; defaults to the last 30 days
+  export const GenerationMetricsRequest = z
+    .object({
+      from: z.coerce.date().optional(),
+      to: z.coerce.date().optional(),
+    })
+    .refine(({ from, to }) => !from || !to || from <= to, {
+      message: 'from must not be after to',
+    });
+
+  export type GenerationMetricsRequest = z.infer<
+    typeof GenerationMetricsRequest
+  >;
+
+  // Per-version prompt outcomes; all finished jobs unless bounded
+  export const PromptVersionStatsRequest = GenerationMetricsRequest;
+
+  export type PromptVersionStatsRequest = GenerationMetricsRequest;
+
+  export const JobHistoryItem = z.object({
+    id: z.string(),
+    prompt: z.string(),
+    status: z.string(),
+    // Generated type once the job succeeded, else the requested one
+    type: z.string().optional(),
+    // From start to finish; null until the job has run
+    durationMs: z.number().nullable(),
+    createdAt: z.string(),
+    completedAt: z.string().nullable(),
+    error: z.string().optional(),
+    // Job this one re-ran
+    rerunOf: z.string().optional(),
+    component: z
+      .object({ id: z.string(), name: z.string(), type: z.string() })
+      .nullable(),
+  });
+
+  export type JobHistoryItem = z.infer<typeof JobHistoryItem>;
+
+  export const JobHistoryResponse = PaginatedResponse(JobHistoryItem);
+  export type JobHistoryResponse = z.infer<typeof JobHistoryResponse>;
+
+  // Re-run a past job; fields that are set replace the original request's
+  export const RerunJobRequest = z.object({
+    prompt: z.string().min(1).max(2000).optional(),
+    preferredType: z.string().optional(),
+    provider: z.string().optional(),
+    model: z.string().optional(),
+    bypassCache: z.boolean().optional(),
+    candidateCount: z.number().int().min(1).max(5).optional(),
+    options: z
+      .object({
+        theme: z.enum(['light', 'dark']).optional(),
+        typescript: z.boolean().optional(),
+        accessibility: z.boolean().optional(),
+      })
+      .optional(),
+  });
+
+  export type RerunJobRequest = z.infer<typeof RerunJobRequest>;
+
+  // Rating of a generated component; issues usually come with a thumbs down
+  export const GenerationFeedbackRequest = z
+    .object({
+      rating: z.enum(['up', 'down']),
+      issues: z.array(GenerationFeedbackIssue).max(3).default([]),
+      // With wrong_type: the type the prompt should have produced
+      expectedType: z.nativeEnum(ComponentType).optional(),
+      comment: z.string().max(1000).optional(),
+    })
+    .refine(
+      ({ issues, expectedType }) =>
+        !expectedType || issues.includes('wrong_type'),
+      { message: 'expectedType requires the wrong_type issue' }
+    );
+
+  export type GenerationFeedbackRequest = z.infer<
+    typeof GenerationFeedbackRequest
+  >;
+
   // Individual Component Response
   export const ComponentResponse = z.object({
     success: z.literal(true),
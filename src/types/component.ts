@@ -66,7 +66,12 @@ export type PropsSchema = z.infer<typeof PropsSchema>;
 // Component Generation Schema
 export const ComponentGenerationSchema = z.object({
   componentType: z.nativeEnum(ComponentType),
-  componentName: z.string().regex(/^[A-Z][a-zA-Z0-9]*$/),
+  componentName: z
+    .string()
+    .regex(
+      /^[A-Z][a-zA-Z0-9]*$/,
+      'Must be PascalCase: start with an uppercase letter and contain only letters and digits'
+    ),
   propsSchema: PropsSchema,
   code: z.string(),
   previewContent: z.string(),
@@ -89,6 +94,35 @@ export const ComponentCandidate = z.object({
 
 export type ComponentCandidate = z.infer<typeof ComponentCandidate>;
 
+// Static metrics of a component's code, taken from its syntax tree
+export interface ComponentMetrics {
+  // 1 + branches: if, ?:, case, loops, catch, && || ??
+  cyclomaticComplexity: number;
+  // Deepest nesting of JSX elements
+  jsxDepth: number;
+  // Hook calls (useX(...)), counting repeated ones
+  hookCount: number;
+  // Props declared by the component
+  propCount: number;
+  // Distinct imported modules
+  importCount: number;
+}
+
+export type ComponentMetricName = keyof ComponentMetrics;
+
+export const COMPONENT_METRIC_NAMES: ComponentMetricName[] = [
+  'cyclomaticComplexity',
+  'jsxDepth',
+  'hookCount',
+  'propCount',
+  'importCount',
+];
+
+export interface ComponentAnalysis {
+  complexity: ComponentMetadata['complexity'];
+  metrics: ComponentMetrics;
+}
+
 // Component Metadata
 export interface ComponentMetadata {
   version: string;
@@ -100,6 +134,8 @@ export interface ComponentMetadata {
   estimatedLines: number;
   dependencies: string[];
   lastModified: Date;
+  // Missing on components saved before metrics were computed
+  metrics?: ComponentMetrics;
   usageStats?: {
     totalGenerations: number;
     successRate: number;
@@ -172,7 +208,17 @@ export interface ComponentSearchOptions {
   types?: ComponentType[];
   tags?: string[];
   complexity?: ComponentMetadata['complexity'][];
-  sortBy?: 'name' | 'createdAt' | 'updatedAt' | 'usageCount' | 'rating';
+  // Inclusive bounds; components without metrics never match
+  metricRanges?: Partial<
+    Record<ComponentMetricName, { min?: number; max?: number }>
+  >;
+  sortBy?:
+    | 'name'
+    | 'createdAt'
+    | 'updatedAt'
+    | 'usageCount'
+    | 'rating'
+    | ComponentMetricName;
   sortOrder?: 'asc' | 'desc';
   limit?: number;
   offset?: number;
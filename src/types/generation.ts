@@ -1,6 +1,14 @@
 import { z } from 'zod';
 import { ComponentType, ComponentCandidate } from './component';
 
+// LLM backend selection (provider name as registered, e.g. gemini/openai/ollama)
+export const LLMSelection = z.object({
+  provider: z.string().min(1).optional(),
+  model: z.string().min(1).optional(),
+});
+
+export type LLMSelection = z.infer<typeof LLMSelection>;
+
 // Generation Request
 export const GenerationRequest = z.object({
   prompt: z.string().min(1).max(2000),
@@ -19,34 +27,156 @@ export const GenerationRequest = z.object({
       includeComments: z.boolean().default(true),
       maxComplexity: z.enum(['simple', 'medium', 'complex']).default('medium'),
       allowCustomComponents: z.boolean().default(false),
+      // Variants to generate and rank; the best one is saved
+      candidateCount: z.number().int().min(1).max(5).optional(),
     })
     .optional(),
+  llm: LLMSelection.optional(),
+  // Saved component's name and tags; the name is generated when unset
+  name: z.string().min(1).max(100).optional(),
+  tags: z.array(z.string().min(1).max(50)).max(20).optional(),
 });
 
 export type GenerationRequest = z.infer<typeof GenerationRequest>;
 
+// One component of a batch spec file
+export const BatchSpecItem = z.object({
+  name: z.string().min(1).max(100),
+  prompt: GenerationRequest.shape.prompt,
+  preferredType: GenerationRequest.shape.preferredType,
+  tags: GenerationRequest.shape.tags,
+});
+
+export type BatchSpecItem = z.infer<typeof BatchSpecItem>;
+
+// Batch spec file (JSON or YAML); context and llm apply to every component
+export const BatchSpec = z.object({
+  name: z.string().min(1).max(100).optional(),
+  context: GenerationRequest.shape.context,
+  llm: LLMSelection.optional(),
+  components: z.array(BatchSpecItem).min(1).max(50),
+});
+
+export type BatchSpec = z.infer<typeof BatchSpec>;
+
+// One try at getting schema-valid JSON out of the LLM
+export const SchemaAttempt = z.object({
+  attempt: z.number(),
+  success: z.boolean(),
+  errors: z.array(z.string()),
+  durationMs: z.number(),
+});
+
+export type SchemaAttempt = z.infer<typeof SchemaAttempt>;
+
+// Component as returned by a provider
+export const GeneratedComponent = z.object({
+  componentType: z.nativeEnum(ComponentType),
+  componentName: z.string(),
+  previewContent: z.string(),
+  code: z.string(),
+  propsSchema: z.any(), // Will be validated separately
+  description: z.string().optional(),
+  examples: z.array(z.string()).optional(),
+  variants: z.array(z.string()).optional(),
+});
+
+export type GeneratedComponent = z.infer<typeof GeneratedComponent>;
+
+// One of several generated variants, scored after validation
+export const GenerationVariant = z.object({
+  // 1 is best
+  rank: z.number(),
+  component: GeneratedComponent,
+  temperature: z.number().optional(),
+  // Each 0..1, higher is better; `total` is the weighted ranking score
+  scores: z.object({
+    typescript: z.number(),
+    safety: z.number(),
+    accessibility: z.number(),
+    intent: z.number(),
+    total: z.number(),
+  }),
+  diagnostics: z.object({
+    typescriptErrors: z.array(z.string()),
+    safetyViolations: z.array(z.string()),
+    forbiddenImports: z.array(z.string()),
+    accessibilityWarnings: z.array(z.string()),
+  }),
+  // The variant saved as the job's component
+  saved: z.boolean(),
+});
+
+export type GenerationVariant = z.infer<typeof GenerationVariant>;
+
+// A step of a job's run starting or ending, for progress timelines
+export const GenerationProgressEvent = z.object({
+  // analyzing, generating, validating, repairing, naming, saving, or the
+  // name of a registered pipeline stage
+  step: z.string(),
+  state: z.enum(['started', 'completed', 'skipped', 'failed', 'cancelled']),
+  at: z.string().datetime(),
+  // Share of the run done, 0-100
+  percent: z.number(),
+  detail: z.string().optional(),
+});
+
+export type GenerationProgressEvent = z.infer<typeof GenerationProgressEvent>;
+
+// What a user says went wrong with a generated component
+export const GenerationFeedbackIssue = z.enum([
+  'wrong_type',
+  'does_not_compile',
+  'inaccessible',
+]);
+
+export type GenerationFeedbackIssue = z.infer<typeof GenerationFeedbackIssue>;
+
+// One backend call as sent and as answered, kept on the job for auditing
+export const LLMExchange = z.object({
+  provider: z.string(),
+  model: z.string(),
+  prompt: z.string(),
+  // Raw response text; missing when the call failed
+  response: z.string().optional(),
+  error: z.string().optional(),
+  startedAt: z.string().datetime(),
+  durationMs: z.number(),
+  // Prompt or response was cut to the job's size limit
+  truncated: z.boolean().optional(),
+});
+
+export type LLMExchange = z.infer<typeof LLMExchange>;
+
 // Generation Response
 export const GenerationResponse = z.object({
   success: z.boolean(),
-  component: z
-    .object({
-      componentType: z.nativeEnum(ComponentType),
-      componentName: z.string(),
-      previewContent: z.string(),
-      code: z.string(),
-      propsSchema: z.any(), // Will be validated separately
-      description: z.string().optional(),
-      examples: z.array(z.string()).optional(),
-      variants: z.array(z.string()).optional(),
-    })
-    .optional(),
+  component: GeneratedComponent.optional(),
   candidates: z.array(ComponentCandidate).optional(),
+  // Ranked best first; only when more than one variant was requested
+  variants: z.array(GenerationVariant).optional(),
   metadata: z.object({
     processingTime: z.number(),
     tokensUsed: z.number().optional(),
     confidence: z.number().min(0).max(1),
     intentMatch: z.number().min(0).max(1),
     complexity: z.enum(['simple', 'medium', 'complex']),
+    schemaAttempts: z.array(SchemaAttempt).optional(),
+    tokenUsage: z
+      .object({
+        promptTokens: z.number(),
+        completionTokens: z.number(),
+        estimated: z.boolean().optional(),
+      })
+      .optional(),
+    // Set when the primary provider failed and another one answered
+    failover: z
+      .object({ from: z.string(), to: z.string(), reason: z.string() })
+      .optional(),
+    // Served from the response cache rather than a fresh LLM call
+    cached: z.boolean().optional(),
+    // Prompt template versions actually rendered, by template name
+    promptVersions: z.record(z.string()).optional(),
   }),
   error: z
     .object({
@@ -56,6 +186,10 @@ export const GenerationResponse = z.object({
         'parsing',
         'timeout',
         'rate_limit',
+        // Backend down or erroring (5xx, network failure, open circuit)
+        'unavailable',
+        // The job was cancelled while the call was in flight
+        'cancelled',
       ]),
       message: z.string(),
       details: z.any().optional(),
@@ -97,6 +231,7 @@ export enum GenerationStatus {
   PARTIAL = 'PARTIAL',
   TIMEOUT = 'TIMEOUT',
   RATE_LIMITED = 'RATE_LIMITED',
+  CANCELLED = 'CANCELLED',
 }
 
 // Generation Job
@@ -113,11 +248,25 @@ export interface GenerationJob {
   maxRetries: number;
 }
 
+// Outcome aggregates of one slice of the finished jobs
+export interface GenerationMetricsBucket {
+  totalGenerations: number;
+  // 0-1; SUCCESS and PARTIAL jobs count as successful
+  successRate: number;
+  // Milliseconds from start to completion
+  averageProcessingTime: number;
+  // 0-1; share of the rated jobs whose feedback doesn't report the wrong
+  // component type, missing without any
+  intentMatchingAccuracy?: number;
+}
+
 // Generation Metrics
+// Computed over finished jobs; pending, running and cancelled ones are left out
 export interface GenerationMetrics {
   totalGenerations: number;
   successfulGenerations: number;
   failedGenerations: number;
+  successRate: number;
   averageProcessingTime: number;
   popularComponentTypes: Array<{
     type: ComponentType;
@@ -129,8 +278,17 @@ export interface GenerationMetrics {
     count: number;
     percentage: number;
   }>;
-  intentMatchingAccuracy: number;
+  // 0-1; as in GenerationMetricsBucket
+  intentMatchingAccuracy?: number;
+  // 0-1; share of thumbs up among the jobs' ratings, missing without any
   userSatisfactionScore?: number;
+  // Per UTC day the jobs were created, oldest first
+  timeline: Array<GenerationMetricsBucket & { date: string }>;
+  // Generation prompt template versions; jobs from before versioning are left out
+  byPromptVersion: Array<GenerationMetricsBucket & { promptVersion: string }>;
+  // Backend that answered (after any failover), else the requested one;
+  // 'default' when neither is known
+  byModel: Array<GenerationMetricsBucket & { provider: string; model: string }>;
 }
 
 // Prompt Analysis